@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WalletSessionError, getRequestSession } from '@/lib/auth/walletSession';
+import { getAccessMeter } from '@/lib/llm/accessMetering';
+
+const accessMeter = getAccessMeter();
+
+/**
+ * The signed-in wallet's allowance for `?twinId=`, as /api/groq meters it
+ * (`null` when its chats with the twin aren't metered)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = getRequestSession(request);
+    const twinId = request.nextUrl.searchParams.get('twinId');
+    if (!twinId) {
+      return NextResponse.json({ error: 'twinId is required' }, { status: 400 });
+    }
+    return NextResponse.json({ allowance: await accessMeter.allowance(session.address, twinId) });
+  } catch (error: any) {
+    if (error instanceof WalletSessionError) {
+      return NextResponse.json({ error: error.reason }, { status: 401 });
+    }
+    console.error('Allowance error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to load allowance' }, { status: 500 });
+  }
+}
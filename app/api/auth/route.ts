@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WalletSessionError, createChallenge, createSession } from '@/lib/auth/walletSession';
+
+/**
+ * Challenge message for a wallet to sign
+ */
+export async function GET(request: NextRequest) {
+  const address = request.nextUrl.searchParams.get('address');
+  if (!address) {
+    return NextResponse.json({ error: 'address is required' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(createChallenge(address));
+  } catch (error: any) {
+    const status = error instanceof WalletSessionError ? 400 : 500;
+    return NextResponse.json({ error: error.message }, { status });
+  }
+}
+
+/**
+ * Exchange a signed challenge for a session token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { message, signature } = await request.json();
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return NextResponse.json({ error: 'message and signature are required' }, { status: 400 });
+    }
+
+    const { token, session } = await createSession(message, signature);
+    return NextResponse.json({ token, address: session.address, expiresAt: session.expiresAt });
+  } catch (error: any) {
+    if (error instanceof WalletSessionError) {
+      return NextResponse.json({ error: error.reason }, { status: 401 });
+    }
+    console.error('Wallet session error:', error);
+    return NextResponse.json(
+      { error: `Sign-in failed: ${error.message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,53 +1,279 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { encodeServerSentEvent } from '@/lib/sse';
+import { WalletSessionError, getRequestSession } from '@/lib/auth/walletSession';
+import { LLMProviderError, listProviders, resolveProvider, type TokenUsage } from '@/lib/llm';
+import { getAccessMeter, type AccessReservation } from '@/lib/llm/accessMetering';
+import { ChatBlockedError, screenInput, screenOutput, type GuardVerdict } from '@/lib/llm/chatGuard';
+import { GuardReportRejectedError, getGuardLog, parseGuardReport } from '@/lib/llm/guardLog';
+import { estimateTokens } from '@/lib/llm/tokens';
+import {
+  ChatQuota,
+  ChatRejectedError,
+  getChatLimits,
+  parseChatRequest,
+  reservationFor,
+  type ChatUsage,
+} from '@/lib/llm/usagePolicy';
+import { AccessQuotaError, type Allowance } from '@/lib/services/usageMeteringService';
+import { fetchTwinOwner, suiClient } from '@/lib/sui/contract';
 
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
+const quota = new ChatQuota();
+const accessMeter = getAccessMeter();
+const guardLog = getGuardLog();
 
+function quotaHeaders(usage: ChatUsage): Record<string, string> {
+  return {
+    'X-Quota-Tokens-Remaining': String(usage.tokensRemaining),
+    'X-Quota-Requests-Remaining': String(usage.requestsRemaining),
+    'X-Quota-Reset': new Date(usage.resetsAt).toISOString(),
+  };
+}
+
+function accessHeaders(allowance: Allowance): Record<string, string> {
+  const headers: Record<string, string> = { 'X-Access-Expires': new Date(allowance.expiresAt * 1000).toISOString() };
+  if (allowance.messageLimit !== undefined) {
+    headers['X-Access-Messages-Remaining'] = String(Math.max(0, allowance.messageLimit - allowance.messagesUsed));
+  }
+  if (allowance.tokenLimit !== undefined) {
+    headers['X-Access-Tokens-Remaining'] = String(Math.max(0, allowance.tokenLimit - allowance.tokensUsed));
+  }
+  return headers;
+}
+
+/**
+ * File a blocked twin reply call in the creator's guard log. Never throws: the refusal
+ * stands whether or not it could be logged.
+ */
+async function logBlocked(address: string, twinId: string, verdict: GuardVerdict, stage: 'input' | 'output', text: string) {
+  console.warn(`🛡️ Blocked ${stage} for ${twinId} from ${address}: ${verdict.reason}`);
+  try {
+    const creator = await fetchTwinOwner(suiClient, twinId);
+    if (creator) {
+      // The server doesn't know twin names; the dashboard shows the creator's own
+      guardLog.record(creator, address, parseGuardReport({ ...verdict, twinId, twinName: twinId, stage, excerpt: text }));
+    }
+  } catch (error) {
+    if (!(error instanceof GuardReportRejectedError)) {
+      console.error('Failed to log blocked chat attempt:', error);
+    }
+  }
+}
+
+function errorResponse(error: any) {
+  if (error instanceof WalletSessionError) {
+    return NextResponse.json({ error: error.reason }, { status: 401 });
+  }
+  if (error instanceof ChatRejectedError) {
+    const headers: Record<string, string> = error.retryAfterSeconds
+      ? { 'Retry-After': String(error.retryAfterSeconds) }
+      : {};
+    return NextResponse.json({ error: error.reason }, { status: error.status, headers });
+  }
+  if (error instanceof AccessQuotaError) {
+    return NextResponse.json(
+      { error: error.message, reason: error.reason, allowance: error.allowance },
+      { status: 402, headers: accessHeaders(error.allowance) }
+    );
+  }
+  if (error instanceof ChatBlockedError) {
+    return NextResponse.json(
+      { error: error.message, category: error.category, reason: error.reason, stage: error.stage },
+      { status: 422 }
+    );
+  }
+  if (error instanceof LLMProviderError) {
+    return NextResponse.json({ error: error.reason }, { status: error.status });
+  }
+  console.error('LLM API error:', error);
+  return NextResponse.json(
+    { error: `AI chat failed: ${error.message}` },
+    { status: 500 }
+  );
+}
+
+/**
+ * Providers and models available on this deployment
+ */
+export async function GET() {
+  return NextResponse.json(listProviders());
+}
+
+/**
+ * Chat for an authenticated wallet (`Authorization: Bearer <session token>`).
+ * Calls naming a twin (`twin_id`, required for free text) need the wallet to own it or hold
+ * an AccessToken for it, and are metered against that token. Twin replies are screened
+ * by the chat guard on the way in and on the way out (422 when blocked).
+ */
 export async function POST(request: NextRequest) {
+  let reservation: { address: string; tokens: number } | null = null;
+  let access: AccessReservation | null = null;
+
   try {
-    const body = await request.json();
-    const { messages, options = {} } = body;
-
-    const apiKey = process.env.NEXT_PUBLIC_GROQ_API_KEY;
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Groq API key not configured' },
-        { status: 500 }
-      );
-    }
-
-    const response = await fetch(GROQ_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
+    const session = getRequestSession(request);
+    const limits = getChatLimits();
+    const chat = parseChatRequest(await request.json(), limits);
+    const { provider, model } = resolveProvider(chat.provider, chat.model);
+
+    const promptTokens = reservationFor(chat) - chat.maxTokens;
+    let maxTokens = chat.maxTokens;
+    if (chat.twinId) {
+      const metered = await accessMeter.reserve(session.address, chat.twinId, chat.purpose, promptTokens, maxTokens);
+      if (metered) {
+        access = metered.reservation;
+        // Replies stop where the token allowance ends
+        maxTokens = metered.maxTokens;
+      }
+    }
+
+    // Twin replies: the buyer's new message is checked before the provider sees it
+    const guardedTwin = chat.purpose === 'reply' ? chat.twinId : undefined;
+    if (guardedTwin) {
+      const message = [...chat.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+      const verdict = screenInput(message);
+      if (verdict) {
+        await logBlocked(session.address, guardedTwin, verdict, 'input', message);
+        // Thrown after the reservations, so the catch gives them back
+        throw new ChatBlockedError(verdict.category, verdict.reason, 'input');
+      }
+    }
+
+    const tokens = promptTokens + maxTokens;
+    const usage = quota.reserve(session.address, tokens, limits);
+    reservation = { address: session.address, tokens };
+
+    console.log(`🤖 LLM request: ${provider.id}/${model} for ${session.address} (≤${reservation.tokens} tokens)`);
+    let reported: TokenUsage | null = null;
+    const chatRequest = {
+      messages: chat.messages,
+      model,
+      temperature: chat.temperature,
+      maxTokens,
+      json: chat.json,
+      jsonExample: chat.jsonExample,
+      // Stops the upstream completion when the browser aborts
+      signal: request.signal,
+      onUsage: (usage: TokenUsage) => {
+        reported = usage;
       },
-      body: JSON.stringify({
-        model: options.model || 'llama-3.3-70b-versatile',
-        messages,
-        temperature: options.temperature || 0.7,
-        max_tokens: options.max_tokens || 1024,
-        stream: false,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      return NextResponse.json(
-        { error: error.error?.message || 'Groq API request failed' },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content || '';
-    
-    return NextResponse.json({ content });
-  } catch (error: any) {
-    console.error('Groq API error:', error);
+    };
+
+    // What the provider reports, or our estimate when it reports nothing
+    const settle = (output: string) => {
+      const used: number = reported
+        ? reported.promptTokens + reported.completionTokens
+        : promptTokens + estimateTokens(output);
+      quota.settle(session.address, tokens, used);
+      return access ? accessMeter.settle(access, used) : null;
+    };
+    const headers = { ...quotaHeaders(usage), ...(access ? accessHeaders(access.allowance) : {}) };
+
+    if (chat.stream) {
+      const deltas = provider.stream(chatRequest);
+      // Wait for the first delta so upstream errors still get a proper status code
+      const first = await deltas.next();
+      const guard = guardedTwin
+        ? {
+            check: screenOutput,
+            onBlocked: (verdict: GuardVerdict, output: string) =>
+              void logBlocked(session.address, guardedTwin, verdict, 'output', output),
+          }
+        : null;
+      return streamCompletion(first, deltas, settle, headers, guard);
+    }
+
+    const content = await provider.chat(chatRequest);
+    const allowance = settle(content);
+    const verdict = guardedTwin ? screenOutput(content) : null;
+    if (verdict && guardedTwin) {
+      // The reply was generated, so it stays billed
+      await logBlocked(session.address, guardedTwin, verdict, 'output', content);
+      return errorResponse(new ChatBlockedError(verdict.category, verdict.reason, 'output'));
+    }
     return NextResponse.json(
-      { error: `AI chat failed: ${error.message}` },
-      { status: 500 }
+      { content, provider: provider.id, model },
+      { headers: { ...quotaHeaders(quota.usage(session.address, limits)), ...(allowance ? accessHeaders(allowance) : {}) } }
     );
+  } catch (error: any) {
+    // Only the provider can fail after the reservations; the wallet should not pay for it
+    if (reservation) {
+      quota.settle(reservation.address, reservation.tokens, 0);
+    }
+    if (access) {
+      accessMeter.settle(access, 0, false);
+    }
+    return errorResponse(error);
   }
 }
+
+/**
+ * Emit provider deltas as our own events:
+ * `data: {"content": "<delta>"}` per token, `data: [DONE]` at the end,
+ * and `event: error` if the upstream stream breaks or the guard blocks the reply
+ * (`blocked` then holds the verdict, and the delta that failed is not sent)
+ */
+function streamCompletion(
+  first: IteratorResult<string>,
+  deltas: AsyncGenerator<string>,
+  settle: (output: string) => unknown,
+  headers: Record<string, string>,
+  guard: { check: (output: string) => GuardVerdict | null; onBlocked: (verdict: GuardVerdict, output: string) => void } | null
+): Response {
+  let output = '';
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // False once the guard has blocked the reply
+      const send = (content: string): boolean => {
+        output += content;
+        const verdict = guard?.check(output);
+        if (verdict) {
+          guard!.onBlocked(verdict, output);
+          controller.enqueue(encodeServerSentEvent({ error: `Chat blocked: ${verdict.reason}`, blocked: verdict }, 'error'));
+          return false;
+        }
+        controller.enqueue(encodeServerSentEvent({ content }));
+        return true;
+      };
+
+      try {
+        let open = first.done || send(first.value);
+        if (open && !first.done) {
+          for await (const content of deltas) {
+            // Leaving the loop ends the upstream stream
+            if (!(open = send(content))) break;
+          }
+        }
+        if (open) {
+          controller.enqueue(encodeServerSentEvent('[DONE]'));
+        } else {
+          await deltas.return(undefined);
+        }
+      } catch (error: any) {
+        if (error.name !== 'AbortError') {
+          console.error('LLM stream error:', error);
+          controller.enqueue(encodeServerSentEvent({ error: `AI chat failed: ${error.message}` }, 'error'));
+        }
+      } finally {
+        // Stopped or broken streams are billed for what was generated
+        settle(output);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client cancelling
+        }
+      }
+    },
+    cancel() {
+      deltas.return(undefined).catch(() => {});
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WalletSessionError, getRequestSession } from '@/lib/auth/walletSession';
+import { GuardReportRejectedError, getGuardLog, parseGuardReport } from '@/lib/llm/guardLog';
+import { fetchTwinOwner, suiClient } from '@/lib/sui/contract';
+
+const guardLog = getGuardLog();
+
+function errorResponse(error: any) {
+  if (error instanceof WalletSessionError) {
+    return NextResponse.json({ error: error.reason }, { status: 401 });
+  }
+  if (error instanceof GuardReportRejectedError) {
+    return NextResponse.json({ error: error.reason }, { status: error.status });
+  }
+  console.error('Guard log error:', error);
+  return NextResponse.json({ error: error.message || 'Guard log request failed' }, { status: 500 });
+}
+
+/**
+ * Blocked attempts on the signed-in creator's twins, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = getRequestSession(request);
+    return NextResponse.json({ attempts: guardLog.list(session.address) });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Report a blocked attempt; it is filed under the twin's on-chain owner
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = getRequestSession(request);
+    const report = parseGuardReport(await request.json());
+
+    const creator = await fetchTwinOwner(suiClient, report.twinId);
+    if (!creator) {
+      throw new GuardReportRejectedError(404, 'twin is not registered on-chain');
+    }
+
+    const entry = guardLog.record(creator, session.address, report);
+    console.log(`🛡️ Blocked ${entry.stage} on ${entry.twinId} reported by ${session.address}`);
+    return NextResponse.json({ id: entry.id }, { status: 201 });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Clear the signed-in creator's log
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = getRequestSession(request);
+    guardLog.clear(session.address);
+    return NextResponse.json({ cleared: true });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fromBase64, toBase64 } from '@mysten/sui/utils';
+import { LocalKeyServer, OnChainAccessVerifier, SealAccessDeniedError, type KeyRequest } from '@/lib/seal';
+
+let keyServer: LocalKeyServer | null = null;
+
+function getKeyServer(): LocalKeyServer | null {
+  if (keyServer) return keyServer;
+
+  const masterSecret = process.env.SEAL_MASTER_SECRET;
+  if (!masterSecret) return null;
+
+  keyServer = new LocalKeyServer(fromBase64(masterSecret), new OnChainAccessVerifier());
+  return keyServer;
+}
+
+/**
+ * Public key for an identity (no access check needed to encrypt)
+ */
+export async function GET(request: NextRequest) {
+  const server = getKeyServer();
+  if (!server) {
+    return NextResponse.json({ error: 'Seal key server not configured' }, { status: 500 });
+  }
+
+  const identity = request.nextUrl.searchParams.get('identity');
+  if (!identity) {
+    return NextResponse.json({ error: 'identity is required' }, { status: 400 });
+  }
+
+  try {
+    const publicKey = await server.getPublicKey(identity);
+    return NextResponse.json({ publicKey: toBase64(publicKey) });
+  } catch (error: any) {
+    const status = error instanceof SealAccessDeniedError ? 400 : 500;
+    return NextResponse.json({ error: error.message }, { status });
+  }
+}
+
+/**
+ * Release a per-blob decryption key after checking the requester's AccessToken
+ */
+export async function POST(request: NextRequest) {
+  const server = getKeyServer();
+  if (!server) {
+    return NextResponse.json({ error: 'Seal key server not configured' }, { status: 500 });
+  }
+
+  try {
+    const body: KeyRequest = await request.json();
+    if (!body.identity || !body.ephemeralPublicKey || !body.requester || !body.signature || !body.timestamp) {
+      return NextResponse.json({ error: 'Malformed key request' }, { status: 400 });
+    }
+
+    const key = await server.deriveKey(body);
+    return NextResponse.json({ key: toBase64(key) });
+  } catch (error: any) {
+    if (error instanceof SealAccessDeniedError) {
+      return NextResponse.json({ error: error.reason }, { status: 403 });
+    }
+    console.error('Seal key server error:', error);
+    return NextResponse.json(
+      { error: `Seal key request failed: ${error.message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WalrusService } from '@/lib/walrus';
+import { WalletSessionError, getRequestSession } from '@/lib/auth/walletSession';
+import {
+  UploadQuota,
+  UploadRejectedError,
+  checkContentType,
+  checkSize,
+  getUploadLimits,
+  storageQueryFor,
+  type QuotaUsage,
+} from '@/lib/walrus/uploadPolicy';
+
+// Server-side publisher pool; never routes back through this proxy
+const walrus = new WalrusService(true, { persistHealth: false });
+const quota = new UploadQuota();
+
+function quotaHeaders(usage: QuotaUsage): Record<string, string> {
+  return {
+    'X-Quota-Bytes-Remaining': String(usage.bytesRemaining),
+    'X-Quota-Uploads-Remaining': String(usage.uploadsRemaining),
+    'X-Quota-Reset': new Date(usage.resetsAt).toISOString(),
+  };
+}
+
+function errorResponse(error: any) {
+  if (error instanceof WalletSessionError) {
+    return NextResponse.json({ error: error.reason }, { status: 401 });
+  }
+  if (error instanceof UploadRejectedError) {
+    const headers: Record<string, string> = error.retryAfterSeconds
+      ? { 'Retry-After': String(error.retryAfterSeconds) }
+      : {};
+    return NextResponse.json({ error: error.reason }, { status: error.status, headers });
+  }
+  console.error('Walrus proxy error:', error);
+  return NextResponse.json({ error: error.message || 'Upload failed' }, { status: 500 });
+}
+
+/**
+ * Read the request body, giving up as soon as it passes the size limit
+ */
+async function readLimitedBody(request: NextRequest, limit: number): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = request.body?.getReader();
+  if (!reader) return new Uint8Array(0);
+
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new UploadRejectedError(413, `blob exceeds the ${limit} byte limit`);
+    }
+    parts.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    body.set(part, offset);
+    offset += part.length;
+  }
+  return body;
+}
+
+/**
+ * Remaining quota for the signed-in wallet
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = getRequestSession(request);
+    const limits = getUploadLimits();
+    const usage = quota.usage(session.address, limits);
+    return NextResponse.json({ ...usage, limits }, { headers: quotaHeaders(usage) });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Store a blob for an authenticated wallet
+ * Query: epochs=N and optionally deletable=true (same as the publisher API)
+ */
+export async function PUT(request: NextRequest) {
+  let reservation: { address: string; bytes: number } | null = null;
+
+  try {
+    const session = getRequestSession(request);
+    const limits = getUploadLimits();
+
+    checkContentType(request.headers.get('content-type'));
+    const declaredSize = Number(request.headers.get('content-length'));
+    if (declaredSize > 0) checkSize(declaredSize, limits);
+    const query = storageQueryFor(request.nextUrl.searchParams, limits);
+
+    const body = await readLimitedBody(request, limits.maxBlobBytes);
+    checkSize(body.length, limits);
+
+    const usage = quota.reserve(session.address, body.length, limits);
+    reservation = { address: session.address, bytes: body.length };
+
+    console.log(`📤 Proxy upload: ${body.length} bytes for ${session.address} (${query})`);
+    const result = await walrus.publishToPool(body, query, request.signal);
+
+    return NextResponse.json(result, { headers: quotaHeaders(usage) });
+  } catch (error: any) {
+    // Only publishing can fail after the reservation; the wallet should not pay for it
+    if (reservation) {
+      quota.release(reservation.address, reservation.bytes);
+      console.error('Walrus proxy publish failed:', error);
+      return NextResponse.json({ error: `Publishing failed: ${error.message}` }, { status: 502 });
+    }
+    return errorResponse(error);
+  }
+}
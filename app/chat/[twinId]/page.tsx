@@ -4,11 +4,45 @@ import React, { useState, useRef, useEffect, use } from 'react';
 import { Navigation } from '@/components/layout/Navigation';
 import { 
   ChevronLeft, ChevronRight, Plus, Send, Settings, Clock, 
-  Layers, Copy, RefreshCw, User, Check 
+  Layers, Copy, RefreshCw, User, Check, Lock, Square 
 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
-import { twinChat } from '@/lib/groq';
+import { Markdown } from '@/components/ui/Markdown';
+import { twinChatStream, type TwinModelChoice } from '@/lib/groq';
+import { compilePersonality, type PersonalityProfile } from '@/lib/personality';
 import { useRouter } from 'next/navigation';
+import { useWalletKeyPair } from '@/hooks/useWalletKeyPair';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { getCachedSessionToken } from '@/lib/auth/walletSessionClient';
+import { findAccessToken, unwrapTwinKey } from '@/lib/services/accessGrantService';
+import { fetchTwin } from '@/lib/services/twinRecoveryService';
+import { suiClient } from '@/lib/sui/contract';
+import { importKey } from '@/lib/encryption';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { ChatBlockedError, guardInput, guardReplies } from '@/lib/services/chatGuardService';
+import {
+  buildKnowledgeIndex,
+  fetchTrainingData,
+  getKnowledgeIndex,
+  retrievePassages,
+  type TwinKnowledge,
+} from '@/lib/services/twinKnowledgeService';
+import {
+  buildTwinContext,
+  clearUserFacts,
+  loadUserFacts,
+  messagesToStore,
+  updateConversationMemory,
+  type UserFact,
+} from '@/lib/services/conversationMemoryService';
+import {
+  AccessQuotaError,
+  allowanceProblem,
+  describeAllowance,
+  fetchAllowance,
+  type AccessTerms,
+  type Allowance,
+} from '@/lib/services/usageMeteringService';
 
 interface Message {
   id: string;
@@ -22,9 +56,18 @@ interface AITwin {
   id: string;
   name: string;
   personality?: string;
+  personalityProfile?: PersonalityProfile;
   character?: string;
   tone?: string;
   bio?: string;
+  blobId?: string;
+  blobSha256?: string;
+  accessType?: string;
+  llm?: TwinModelChoice;
+  plainTextOnly?: boolean; // Replies as plain text instead of rendered Markdown
+  forbiddenTopics?: string[]; // Creator-defined topics the twin declines
+  creator?: string; // Wallet address of the creator (listed and purchased twins)
+  accessTerms?: AccessTerms; // Purchased twins: the listing's terms at purchase time
 }
 
 export default function ChatPage({ params }: { params: Promise<{ twinId: string }> }) {
@@ -35,9 +78,22 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
   const [twin, setTwin] = useState<AITwin | null>(null);
   const [allTwins, setAllTwins] = useState<AITwin[]>([]);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState('');
+  const [userFacts, setUserFacts] = useState<UserFact[]>([]);
+  const [knowledge, setKnowledge] = useState<TwinKnowledge | null>(null);
+  const [allowance, setAllowance] = useState<Allowance | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { address, getKeyPair } = useWalletKeyPair();
+  const { getSessionToken } = useWalletSession();
+  const keyVault = useKeyVault();
+  
+  // Purchased twins are listed without their personality; it is decrypted with the AccessToken key
+  const isLocked = twin?.accessType === 'purchased' && !twin.personality;
   
   // Load twin data from localStorage
   useEffect(() => {
@@ -86,13 +142,13 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
     }
   }, [resolvedParams.twinId, router]);
   
-  // Save chat history whenever messages change
+  // Save chat history whenever messages change (once a streamed reply is complete)
   useEffect(() => {
-    if (messages.length > 0) {
+    if (messages.length > 0 && !isGenerating) {
       const chatKey = `chat_${resolvedParams.twinId}`;
-      localStorage.setItem(chatKey, JSON.stringify(messages));
+      localStorage.setItem(chatKey, JSON.stringify(messagesToStore(resolvedParams.twinId, messages)));
     }
-  }, [messages, resolvedParams.twinId]);
+  }, [messages, isGenerating, resolvedParams.twinId]);
   
   const suggestedQuestions = [
     'What are my core values?',
@@ -101,6 +157,64 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
     'What makes me unique?'
   ];
   
+  // What the twin remembers about the connected wallet, shown in the info sidebar
+  useEffect(() => {
+    setUserFacts(loadUserFacts(resolvedParams.twinId, address));
+  }, [resolvedParams.twinId, address, isInfoSidebarOpen]);
+  
+  // Purchased twins show what is left of their allowance, as /api/groq meters it.
+  // Without a session yet, it shows up after the first message signs in.
+  const isPurchased = twin?.accessType === 'purchased';
+  useEffect(() => {
+    setAllowance(null);
+    const authToken = address ? getCachedSessionToken(address) : null;
+    if (!isPurchased || !authToken) return;
+    
+    let cancelled = false;
+    fetchAllowance(resolvedParams.twinId, authToken)
+      .then(current => {
+        if (!cancelled) setAllowance(current);
+      })
+      .catch(error => console.error('Failed to load allowance:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [resolvedParams.twinId, isPurchased, address]);
+  
+  // Creators' own twins: index the training data once the key vault is unlocked
+  const { isUnlocked: isVaultUnlocked, getTwinKey } = keyVault;
+  const twinId = twin?.id;
+  const twinBlobId = twin?.blobId;
+  const twinBlobSha256 = twin?.blobSha256;
+  const isOwnTwin = !!twin && twin.accessType !== 'purchased';
+  useEffect(() => {
+    if (!twinId) return;
+    const cached = getKnowledgeIndex(twinId);
+    if (cached) {
+      setKnowledge(cached);
+      return;
+    }
+    setKnowledge(null);
+    if (!isOwnTwin || !isVaultUnlocked || !twinBlobId) return;
+    
+    let cancelled = false;
+    (async () => {
+      const keyString = await getTwinKey(twinId);
+      if (!keyString) return;
+      const trainingData = await fetchTrainingData(twinBlobId, await importKey(keyString), twinBlobSha256);
+      if (!cancelled) setKnowledge(buildKnowledgeIndex(twinId, trainingData));
+    })().catch(error => console.error('Failed to index training data:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [twinId, twinBlobId, twinBlobSha256, isOwnTwin, isVaultUnlocked, getTwinKey]);
+  
+  const handleForgetMe = () => {
+    if (!address) return;
+    clearUserFacts(resolvedParams.twinId, address);
+    setUserFacts([]);
+  };
+  
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -109,8 +223,53 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
     scrollToBottom();
   }, [messages]);
   
+  /**
+   * Unwrap the twin's key from the buyer's AccessToken and decrypt the training data
+   */
+  const handleUnlock = async () => {
+    if (!twin) return;
+    if (!address) {
+      setUnlockError('Please connect your wallet first');
+      return;
+    }
+    
+    setIsUnlocking(true);
+    setUnlockError('');
+    
+    try {
+      const token = await findAccessToken(suiClient, address, twin.id);
+      if (!token) {
+        throw new Error('No access token yet. The creator has to grant access after your purchase.');
+      }
+      // A key rotation moves the training data to a new blob; the listing still names the old one
+      const onChain = await fetchTwin(suiClient, twin.id);
+      const blobId = onChain?.blobId ?? twin.blobId;
+      const blobSha256 = onChain ? onChain.metadata.blobSha256 : twin.blobSha256;
+      if (!blobId) {
+        throw new Error('This twin has no encrypted training data');
+      }
+      
+      const key = await unwrapTwinKey(token, await getKeyPair());
+      const trainingData = await fetchTrainingData(blobId, key, blobSha256);
+      console.log('🔓 Twin unlocked with AccessToken', token.objectId);
+      setKnowledge(buildKnowledgeIndex(twin.id, trainingData));
+      setTwin({
+        ...twin,
+        personality: trainingData.personality,
+        personalityProfile: trainingData.personalityProfile,
+        plainTextOnly: trainingData.plainTextOnly,
+        forbiddenTopics: trainingData.forbiddenTopics,
+      });
+    } catch (error: any) {
+      console.error('Unlock failed:', error);
+      setUnlockError(error.message || 'Failed to unlock this twin');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+  
   const handleSendMessage = async () => {
-    if (!inputValue.trim() || !twin) return;
+    if (!inputValue.trim() || !twin || isLocked || isGenerating) return;
     
     const newMessage: Message = {
       id: Date.now().toString(),
@@ -123,41 +282,125 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
     setMessages([...messages, newMessage]);
     setInputValue('');
     setIsTyping(true);
+    setIsGenerating(true);
+    
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const aiMessageId = (Date.now() + 1).toString();
+    let reply = '';
+    let authToken: string | null = null;
     
     try {
       // Use actual AI twin chat with personality
-      const personality = twin.personality || `You are ${twin.name}, a friendly AI assistant with a ${twin.tone || 'casual'} conversation style.`;
+      const personality = (twin.personalityProfile && compilePersonality(twin.personalityProfile))
+        || twin.personality || `You are ${twin.name}, a friendly AI assistant with a ${twin.tone || 'casual'} conversation style.`;
       
-      // Convert messages to conversation history
-      const conversationHistory = messages.map(msg => ({
-        role: msg.type === 'user' ? 'user' as const : 'assistant' as const,
-        content: msg.content
-      }));
+      // Recent turns verbatim; older ones come from the thread summary
+      const { history, memory } = buildTwinContext(resolvedParams.twinId, messages, address);
+      // Passages from the creator's own data that match this question
+      const passages = knowledge ? retrievePassages(knowledge, inputValue) : [];
       
-      const aiResponse = await twinChat(personality, inputValue, conversationHistory);
+      // AI calls are billed to the wallet's session, and metered against its AccessToken for the twin
+      authToken = await getSessionToken();
       
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'ai',
-        content: aiResponse,
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      // Blocked attempts are reported for the twin's on-chain owner
+      const guard = {
+        twinId: twin.id,
+        twinName: twin.name,
+        policy: { forbiddenTopics: twin.forbiddenTopics },
+        authToken,
       };
+      await guardInput(inputValue, guard, { llm: twin.llm });
       
-      setMessages(prev => [...prev, aiMessage]);
-    } catch (error) {
+      // Show the reply as it streams in; the typing indicator covers the wait for the first token
+      const replies = guardReplies(twinChatStream(personality, inputValue, history, {
+        llm: twin.llm,
+        twinId: twin.id,
+        memory,
+        passages,
+        authToken,
+        signal: controller.signal,
+        plainText: twin.plainTextOnly,
+        forbiddenTopics: twin.forbiddenTopics
+      }), personality, guard);
+      for await (const partial of replies) {
+        reply = partial;
+        setIsTyping(false);
+        setMessages(prev => prev.some(m => m.id === aiMessageId)
+          ? prev.map(m => (m.id === aiMessageId ? { ...m, content: partial } : m))
+          : [...prev, {
+              id: aiMessageId,
+              type: 'ai',
+              content: partial,
+              timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            }]
+        );
+      }
+      
+      // Summarize and remember in the background; the next turn uses whatever is ready
+      if (reply) {
+        void updateConversationMemory(
+          [...messages, newMessage, { id: aiMessageId, type: 'ai', content: reply }],
+          { twinId: resolvedParams.twinId, address, authToken, llm: twin.llm }
+        );
+      }
+    } catch (error: any) {
+      if (error instanceof ChatBlockedError) {
+        // Stop whatever is still generating and answer with the refusal instead
+        controller.abort();
+        setMessages(prev => [...prev.filter(m => m.id !== aiMessageId), {
+          id: aiMessageId,
+          type: 'ai',
+          content: error.refusal,
+          timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        }]);
+        return;
+      }
+      if (error instanceof AccessQuotaError) {
+        setAllowance(error.allowance);
+        setMessages(prev => [...prev, {
+          id: aiMessageId,
+          type: 'ai',
+          content: error.message,
+          timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        }]);
+        return;
+      }
       console.error('Chat error:', error);
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMessageId,
         type: 'ai',
-        content: 'Sorry, I encountered an error. Please try again.',
+        // Rate limits and sign-in problems are worth showing as-is
+        content: `Sorry, I encountered an error. ${error.message || 'Please try again.'}`,
         timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
       };
-      setMessages(prev => [...prev, errorMessage]);
+      // Replace any partial reply with the error
+      setMessages(prev => [...prev.filter(m => m.id !== aiMessageId), errorMessage]);
     } finally {
+      // The route has counted this message; show what is left
+      if (isPurchased && authToken) {
+        fetchAllowance(twin.id, authToken)
+          .then(setAllowance)
+          .catch(error => console.error('Failed to load allowance:', error));
+      }
+      abortControllerRef.current = null;
       setIsTyping(false);
+      setIsGenerating(false);
     }
   };
   
+  /**
+   * Stop generating; whatever has streamed in so far is kept
+   */
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+  
+  // Don't leave a completion running after leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+  
+  const quotaProblem = allowance ? allowanceProblem(allowance) : null;
+  
   const handleSuggestedQuestion = (question: string) => {
     setInputValue(question);
   };
@@ -249,6 +492,12 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
                   <span className="w-2 h-2 bg-[#059669] rounded-full"></span>
                   Online • Ready to chat
                 </p>
+                {allowance && (
+                  <p className={`text-xs flex items-center gap-1 ${quotaProblem ? 'text-[#DC2626]' : 'text-[#A3A3A3]'}`}>
+                    <Clock className="w-3 h-3" />
+                    {describeAllowance(allowance)}
+                  </p>
+                )}
               </div>
             </div>
             
@@ -268,6 +517,22 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
             </div>
           </div>
           
+          {/* Locked Twin */}
+          {isLocked && (
+            <div className="px-6 py-3 border-b border-[#262626] bg-[#D97706]/10 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3 min-w-0">
+                <Lock className="w-5 h-5 text-[#D97706] flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm text-[#F5F5F5]">This twin is encrypted. Unlock it with your access token.</p>
+                  {unlockError && <p className="text-xs text-[#DC2626]">{unlockError}</p>}
+                </div>
+              </div>
+              <Button variant="primary" size="small" onClick={handleUnlock} disabled={isUnlocking}>
+                {isUnlocking ? 'Unlocking...' : 'Unlock'}
+              </Button>
+            </div>
+          )}
+          
           {/* Messages Area */}
           <div className="flex-1 overflow-y-auto p-6 space-y-6">
             {messages.length === 0 ? (
@@ -312,9 +577,13 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
                             : 'bg-[#1E1E1E] border border-[#262626] text-[#F5F5F5] rounded-tl-sm'
                         }`}
                       >
-                        <p className="text-base leading-relaxed whitespace-pre-wrap">
-                          {message.content}
-                        </p>
+                        {message.type === 'ai' && !twin?.plainTextOnly ? (
+                          <Markdown content={message.content} className="text-base leading-relaxed" />
+                        ) : (
+                          <p className="text-base leading-relaxed whitespace-pre-wrap">
+                            {message.content}
+                          </p>
+                        )}
                       </div>
                       
                       <div className={`flex items-center gap-2 mt-1 text-xs text-[#525252] ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
@@ -379,13 +648,23 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
                 className="flex-1 bg-transparent border-none outline-none text-[#F5F5F5] placeholder:text-[#525252] resize-none min-h-[24px] max-h-[150px]"
                 rows={1}
               />
-              <button
-                onClick={handleSendMessage}
-                disabled={!inputValue.trim()}
-                className="bg-[#D97706] p-2.5 rounded-lg hover:bg-[#B45309] hover:scale-105 transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-              >
-                <Send className="w-5 h-5 text-white" />
-              </button>
+              {isGenerating ? (
+                <button
+                  onClick={handleStopGeneration}
+                  title="Stop generating"
+                  className="bg-[#1E1E1E] border border-[#262626] p-2.5 rounded-lg hover:border-[#D97706] transition-all"
+                >
+                  <Square className="w-5 h-5 text-[#D97706] fill-[#D97706]" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSendMessage}
+                  disabled={!inputValue.trim() || isLocked || !!quotaProblem}
+                  className="bg-[#D97706] p-2.5 rounded-lg hover:bg-[#B45309] hover:scale-105 transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                >
+                  <Send className="w-5 h-5 text-white" />
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -415,9 +694,21 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
               <div>
                 <h4 className="text-sm font-semibold text-[#F5F5F5] mb-3">Training Data</h4>
                 <div className="space-y-2 text-sm text-[#A3A3A3]">
-                  <p>Files uploaded: 12</p>
-                  <p>Total size: 2.4 MB</p>
-                  <p>Last updated: Today</p>
+                  {knowledge ? (
+                    <>
+                      <p>Passages indexed: {knowledge.index.size}</p>
+                      <p>Sources: {knowledge.sources.join(', ')}</p>
+                    </>
+                  ) : isOwnTwin && !isVaultUnlocked ? (
+                    <>
+                      <p>Answers aren&apos;t grounded in your data yet</p>
+                      <Button variant="secondary" size="small" onClick={() => keyVault.unlock().catch(() => {})} className="w-full">
+                        Unlock Vault
+                      </Button>
+                    </>
+                  ) : (
+                    <p>No training data indexed</p>
+                  )}
                 </div>
               </div>
               
@@ -430,6 +721,27 @@ export default function ChatPage({ params }: { params: Promise<{ twinId: string
                 </div>
               </div>
               
+              <div>
+                <h4 className="text-sm font-semibold text-[#F5F5F5] mb-3">Memory</h4>
+                {userFacts.length === 0 ? (
+                  <p className="text-sm text-[#737373]">Nothing remembered about you yet</p>
+                ) : (
+                  <>
+                    <ul className="space-y-1 text-sm text-[#A3A3A3] mb-3">
+                      {userFacts.map(f => (
+                        <li key={f.fact}>• {f.fact}</li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={handleForgetMe}
+                      className="text-xs text-[#DC2626] hover:underline"
+                    >
+                      Forget what this twin knows about me
+                    </button>
+                  </>
+                )}
+              </div>
+              
               <div className="space-y-2">
                 <Button variant="secondary" size="small" icon={Plus} iconPosition="left" className="w-full">
                   Add Training Data
@@ -7,11 +7,17 @@ import { CreateNewCard } from '@/components/ai-twin/CreateNewCard';
 import { TwinCard } from '@/components/ai-twin/TwinCard';
 import { CreateTwinModal } from '@/components/ai-twin/CreateTwinModal';
 import { PricingModal } from '@/components/marketplace/PricingModal';
+import { RotateKeyModal } from '@/components/ai-twin/RotateKeyModal';
+import { PersonalityEditorModal } from '@/components/ai-twin/PersonalityEditorModal';
 import { Modal } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
-import { Users, Wallet, AlertCircle } from 'lucide-react';
+import { Users, Wallet, AlertCircle, Lock } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import type { TwinModelChoice } from '@/lib/groq';
+import type { PersonalityProfile } from '@/lib/personality';
+import type { AccessTerms } from '@/lib/services/usageMeteringService';
 
 
 
@@ -24,14 +30,20 @@ interface AITwin {
   conversationsCount: number;
   nftId?: string;
   blobId?: string;
-  encryptionKey?: string;
+  blobSha256?: string; // SHA-256 of the encrypted training data blob
+  encryptionKey?: string; // Legacy plaintext key, moved into the key vault on unlock
   personality?: string;
+  personalityProfile?: PersonalityProfile; // Structured source of `personality` (PersonalityEditorModal)
   character?: string;
   tone?: string;
   bio?: string;
   isListed?: boolean;
   price?: number;
+  accessTerms?: AccessTerms; // What buyers get for the price (PricingModal)
   creator?: string; // Wallet address of the creator
+  llm?: TwinModelChoice; // Provider/model the twin runs on
+  plainTextOnly?: boolean; // Replies as plain text instead of rendered Markdown
+  forbiddenTopics?: string[]; // Topics the twin declines to discuss
 }
 
 export default function CreateTwinPage() {
@@ -41,10 +53,13 @@ export default function CreateTwinPage() {
   const [isPricingModalOpen, setIsPricingModalOpen] = useState(false);
   const [isWalletWarningOpen, setIsWalletWarningOpen] = useState(false);
   const [selectedTwin, setSelectedTwin] = useState<AITwin | null>(null);
+  const [rotatingTwin, setRotatingTwin] = useState<AITwin | null>(null);
+  const [editingTwin, setEditingTwin] = useState<AITwin | null>(null);
   const [twins, setTwins] = useState<AITwin[]>([]);
   const [mounted, setMounted] = useState(false);
+  const keyVault = useKeyVault();
   
-  // Load twins from localStorage on mount
+  // Load twins from localStorage on mount, and again once unlocking the vault has moved legacy keys out
   useEffect(() => {
     setMounted(true);
     const savedTwins = localStorage.getItem('aiTwins');
@@ -56,7 +71,9 @@ export default function CreateTwinPage() {
         setTwins([]);
       }
     }
-  }, []);
+  }, [keyVault.isUnlocked]);
+  
+  const plaintextKeyCount = twins.filter(t => t.encryptionKey).length;
   
   // Save twins to localStorage whenever they change
   useEffect(() => {
@@ -71,7 +88,7 @@ export default function CreateTwinPage() {
     const twinDisplayName = data.twinName || data.name || 'My AI Twin';
     
     const newTwin: AITwin = {
-      id: data.nftId || `twin_${Date.now()}`,
+      id: data.id || data.nftId || `twin_${Date.now()}`, // On-chain twin_id, which AccessTokens refer to
       name: twinDisplayName,
       avatar: twinDisplayName.charAt(0).toUpperCase(),
       createdAt: new Date().toISOString(),
@@ -79,11 +96,15 @@ export default function CreateTwinPage() {
       conversationsCount: 0,
       nftId: data.nftId,
       blobId: data.blobId,
-      encryptionKey: data.encryptionKey,
+      blobSha256: data.blobSha256,
       personality: data.personality,
+      personalityProfile: data.personalityProfile,
       character: data.character,
       tone: data.tone,
       bio: data.bio,
+      llm: data.llm?.provider ? data.llm : undefined,
+      plainTextOnly: data.plainTextOnly || undefined,
+      forbiddenTopics: data.forbiddenTopics?.length ? data.forbiddenTopics : undefined,
     };
     
     console.log('New twin created:', newTwin); // Debug log
@@ -116,12 +137,12 @@ export default function CreateTwinPage() {
     setIsPricingModalOpen(true);
   };
 
-  const handleSetPrice = (price: number, isPublic: boolean) => {
+  const handleSetPrice = (price: number, isPublic: boolean, accessTerms: AccessTerms) => {
     if (!selectedTwin || !account) return;
 
     const updatedTwins = twins.map(t =>
       t.id === selectedTwin.id
-        ? { ...t, isListed: isPublic, price, creator: account.address }
+        ? { ...t, isListed: isPublic, price, accessTerms, creator: account.address }
         : t
     );
     
@@ -129,10 +150,16 @@ export default function CreateTwinPage() {
     localStorage.setItem('aiTwins', JSON.stringify(updatedTwins));
     
     // Also save to marketplace listings with creator address
+    // The data key and decrypted personality stay with the creator; buyers get the key in their AccessToken
     const marketplaceListings = JSON.parse(localStorage.getItem('marketplaceListings') || '[]');
+    const publicTwin = { ...selectedTwin };
+    delete publicTwin.encryptionKey;
+    delete publicTwin.personality;
+    delete publicTwin.personalityProfile;
     const newListing = {
-      ...selectedTwin,
+      ...publicTwin,
       price,
+      accessTerms,
       isPublic,
       creator: account.address, // Store creator's wallet address for payments
       listedAt: new Date().toISOString(),
@@ -188,6 +215,26 @@ export default function CreateTwinPage() {
             </div>
           </div>
           
+          {/* Legacy plaintext keys */}
+          {plaintextKeyCount > 0 && account && (
+            <div className="mb-6 bg-[#D97706]/10 border border-[#D97706]/30 rounded-lg p-4 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Lock className="w-5 h-5 text-[#D97706] flex-shrink-0" />
+                <p className="text-sm text-[#F5F5F5]">
+                  {plaintextKeyCount} twin key{plaintextKeyCount === 1 ? ' is' : 's are'} stored unencrypted in this browser.
+                  Unlock your key vault to secure {plaintextKeyCount === 1 ? 'it' : 'them'}.
+                </p>
+              </div>
+              <Button
+                variant="primary"
+                size="small"
+                onClick={() => keyVault.unlock().catch(error => console.error('Key vault unlock failed:', error))}
+              >
+                Unlock Vault
+              </Button>
+            </div>
+          )}
+          
           {/* Twins Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {/* Create New Card */}
@@ -209,9 +256,10 @@ export default function CreateTwinPage() {
                   localStorage.setItem('currentTwin', JSON.stringify(twin));
                   router.push(`/chat/${twin.id}`);
                 }}
-                onEdit={() => {}}
+                onEdit={() => setEditingTwin(twin)}
                 onDelete={() => handleDeleteTwin(twin.id)}
                 onListMarketplace={() => handleListMarketplace(twin)}
+                onRotateKey={twin.blobId ? () => setRotatingTwin(twin) : undefined}
               />
             ))}
           </div>
@@ -238,6 +286,32 @@ export default function CreateTwinPage() {
         />
       )}
       
+      {/* Key Rotation Modal */}
+      {rotatingTwin && (
+        <RotateKeyModal
+          isOpen={!!rotatingTwin}
+          onClose={() => setRotatingTwin(null)}
+          twinId={rotatingTwin.id}
+          twinName={rotatingTwin.name}
+          onRotated={({ blobId, blobSha256 }) => setTwins(prev =>
+            prev.map(t => (t.id === rotatingTwin.id ? { ...t, blobId, blobSha256 } : t))
+          )}
+        />
+      )}
+      
+      {/* Personality Editor Modal */}
+      {editingTwin && (
+        <PersonalityEditorModal
+          isOpen={!!editingTwin}
+          onClose={() => setEditingTwin(null)}
+          twinId={editingTwin.id}
+          twinName={editingTwin.name}
+          onSaved={({ blobId, blobSha256, personality, profile }) => setTwins(prev =>
+            prev.map(t => (t.id === editingTwin.id ? { ...t, blobId, blobSha256, personality, personalityProfile: profile } : t))
+          )}
+        />
+      )}
+      
       {/* Wallet Warning Modal */}
       <Modal
         isOpen={isWalletWarningOpen}
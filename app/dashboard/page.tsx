@@ -5,6 +5,11 @@ import { Navigation } from '@/components/layout/Navigation';
 import { Footer } from '@/components/layout/Footer';
 import { TwinCard } from '@/components/ai-twin/TwinCard';
 import { Button } from '@/components/ui/Button';
+import { BlobLifetimePanel } from '@/components/storage/BlobLifetimePanel';
+import { PendingGrantsPanel } from '@/components/marketplace/PendingGrantsPanel';
+import { KeyBackupPanel } from '@/components/wallet/KeyBackupPanel';
+import { ChatGuardPanel } from '@/components/ai-twin/ChatGuardPanel';
+import { FidelityPanel } from '@/components/ai-twin/FidelityPanel';
 import { 
   Users, Store, MessageSquare, TrendingUp, Coins, 
   ArrowUpRight, ArrowDownLeft, Plus 
@@ -173,6 +178,51 @@ export default function DashboardPage() {
             </div>
           </div>
           
+          {/* Storage Lifetime */}
+          <div className="mb-8">
+            <h2 className="text-2xl font-semibold text-[#F5F5F5] mb-4">
+              Storage Lifetime
+            </h2>
+            
+            <BlobLifetimePanel />
+          </div>
+          
+          {/* Access Grants */}
+          <div className="mb-8">
+            <h2 className="text-2xl font-semibold text-[#F5F5F5] mb-4">
+              Access Grants
+            </h2>
+            
+            <PendingGrantsPanel />
+          </div>
+          
+          {/* Twin Fidelity */}
+          <div className="mb-8">
+            <h2 className="text-2xl font-semibold text-[#F5F5F5] mb-4">
+              Twin Fidelity
+            </h2>
+            
+            <FidelityPanel />
+          </div>
+          
+          {/* Chat Guard */}
+          <div className="mb-8">
+            <h2 className="text-2xl font-semibold text-[#F5F5F5] mb-4">
+              Blocked Chat Attempts
+            </h2>
+            
+            <ChatGuardPanel />
+          </div>
+          
+          {/* Key Backup */}
+          <div className="mb-8">
+            <h2 className="text-2xl font-semibold text-[#F5F5F5] mb-4">
+              Key Backup
+            </h2>
+            
+            <KeyBackupPanel />
+          </div>
+          
           {/* Marketplace Activity */}
           <div className="mb-8">
             <h2 className="text-2xl font-semibold text-[#F5F5F5] mb-4">
@@ -7,6 +7,8 @@ import { ListingCard } from '@/components/marketplace/ListingCard';
 import { BuyAccessModal } from '@/components/marketplace/BuyAccessModal';
 import { Search, Users, Store, TrendingUp } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import type { ListingFidelity } from '@/lib/services/fidelityEvaluationService';
+import type { AccessTerms } from '@/lib/services/usageMeteringService';
 
 interface MarketplaceListing {
   id: string;
@@ -21,9 +23,11 @@ interface MarketplaceListing {
   users?: number;
   messages?: number;
   price: number;
+  accessTerms?: AccessTerms; // Unset for listings from before access types: full access
   featured?: boolean;
   isPublic?: boolean;
   listedAt?: string;
+  fidelity?: ListingFidelity; // Creator-attached fidelity evaluation
 }
 
 export default function MarketplacePage() {
@@ -66,7 +70,9 @@ export default function MarketplacePage() {
     users: listing.users || 0,
     messages: listing.messages || 0,
     price: listing.price,
+    accessTerms: listing.accessTerms,
     featured: false,
+    fidelity: listing.fidelity,
   }));
 
   // Filter and sort listings
@@ -99,6 +105,8 @@ export default function MarketplacePage() {
         return b.price - a.price;
       case 'rating':
         return (b.rating || 0) - (a.rating || 0);
+      case 'fidelity':
+        return (b.fidelity?.scores.overall ?? -1) - (a.fidelity?.scores.overall ?? -1);
       case 'popular':
       default:
         return (b.users || 0) - (a.users || 0);
@@ -231,6 +239,7 @@ export default function MarketplacePage() {
                     <option value="price-low">Price: Low to High</option>
                     <option value="price-high">Price: High to Low</option>
                     <option value="rating">Highest Rated</option>
+                    <option value="fidelity">Highest Fidelity</option>
                   </select>
                 </div>
               </div>
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { LogIn, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { Button } from '@/components/ui/Button';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { getCachedSessionToken } from '@/lib/auth/walletSessionClient';
+import {
+  clearBlockedAttempts,
+  fetchBlockedAttempts,
+  type BlockedChatAttempt,
+  type GuardCategory,
+} from '@/lib/services/chatGuardService';
+
+const CATEGORY_LABELS: Record<GuardCategory, string> = {
+  prompt_injection: 'Prompt injection',
+  prompt_leak: 'Prompt extraction',
+  forbidden_topic: 'Off-limits topic',
+  abusive_content: 'Abusive content',
+};
+
+const VISIBLE_ATTEMPTS = 20;
+
+// Blocks logged by /api/groq only carry the twin ID; the creator's own records have the name
+function twinName(attempt: BlockedChatAttempt): string {
+  const twins = JSON.parse(localStorage.getItem('aiTwins') || '[]');
+  return twins.find((t: any) => t.id === attempt.twinId)?.name ?? attempt.twinName;
+}
+
+export const ChatGuardPanel: React.FC = () => {
+  const account = useCurrentAccount();
+  const { getSessionToken } = useWalletSession();
+  const [attempts, setAttempts] = useState<BlockedChatAttempt[]>([]);
+  const [authToken, setAuthToken] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const address = account?.address;
+
+  // Only use an existing session here; signing in is left to the button
+  useEffect(() => {
+    setAuthToken(address ? getCachedSessionToken(address) : null);
+  }, [address]);
+
+  const refresh = useCallback(() => {
+    if (!authToken) {
+      setAttempts([]);
+      return;
+    }
+    fetchBlockedAttempts(authToken)
+      .then(result => {
+        setAttempts(result);
+        setError('');
+      })
+      .catch(err => setError(err.message));
+  }, [authToken]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleClear = async () => {
+    if (!authToken) return;
+    try {
+      await clearBlockedAttempts(authToken);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    refresh();
+  };
+
+  if (!address) return null;
+
+  return (
+    <div className="bg-[#1E1E1E] border border-[#262626] rounded-xl p-6">
+      {error && <p className="text-xs text-[#DC2626] mb-3">{error}</p>}
+      {!authToken ? (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-[#A3A3A3]">Sign in with your wallet to see blocked chat attempts on your twins.</p>
+          <Button
+            variant="secondary"
+            size="small"
+            icon={LogIn}
+            iconPosition="left"
+            onClick={() => getSessionToken().then(setAuthToken).catch(err => setError(err.message))}
+          >
+            Sign In
+          </Button>
+        </div>
+      ) : attempts.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-[#A3A3A3]">
+          <ShieldCheck className="w-4 h-4 text-[#059669]" />
+          No blocked chat attempts on your twins
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-[#A3A3A3]">
+              {attempts.length} blocked attempt{attempts.length === 1 ? '' : 's'}
+              {attempts.length > VISIBLE_ATTEMPTS ? `, showing the latest ${VISIBLE_ATTEMPTS}` : ''}
+            </p>
+            <Button
+              variant="ghost"
+              size="small"
+              icon={Trash2}
+              iconPosition="left"
+              onClick={handleClear}
+            >
+              Clear
+            </Button>
+          </div>
+
+          {attempts.slice(0, VISIBLE_ATTEMPTS).map(attempt => (
+            <div
+              key={attempt.id}
+              className="bg-[#141414] border border-[#262626] p-3 rounded-lg flex items-start gap-3"
+            >
+              <ShieldAlert className="w-5 h-5 flex-shrink-0 text-[#DC2626] mt-0.5" />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-[#F5F5F5] truncate">
+                    {twinName(attempt)} · {CATEGORY_LABELS[attempt.category]}
+                  </p>
+                  <span className="text-xs text-[#525252] flex-shrink-0">
+                    {new Date(attempt.blockedAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-xs text-[#A3A3A3]">
+                  {attempt.stage === 'input' ? 'Message' : 'Reply'} blocked: {attempt.reason}
+                </p>
+                <p className="text-xs text-[#737373] italic truncate">&ldquo;{attempt.excerpt}&rdquo;</p>
+                <p className="text-xs text-[#525252] font-mono truncate">
+                  From {attempt.user.slice(0, 6)}...{attempt.user.slice(-4)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,20 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Modal } from '../ui/Modal';
 import { Button } from '../ui/Button';
 import { Input, Textarea } from '../ui/Input';
 import { ArrowRight, ArrowLeft, Upload, X, CheckCircle, Sparkles, FileText, Image as ImageIcon, Loader2 } from 'lucide-react';
 import { useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
-import { storeOnWalrus } from '@/lib/walrus';
-import { generateTwinPersonality } from '@/lib/groq';
-import { encryptDataWithNewKey } from '@/lib/encryption';
+import { storeOnWalrus, type StoreOptions } from '@/lib/walrus';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { generatePersonalityProfile, listLLMProviders, type TwinModelChoice } from '@/lib/groq';
+import { compilePersonality } from '@/lib/personality';
+import type { ProviderInfo } from '@/lib/llm/types';
+import { parseForbiddenTopics } from '@/lib/services/chatGuardService';
+import { encryptBlob, encryptToContainer, exportKey, generateEncryptionKey, importKey } from '@/lib/encryption';
+import { clearTwinDraft, draftNoncePrefix, resumeTwinDraft, startTwinDraft, type TwinDraft } from '@/lib/services/twinDraftService';
 import Tesseract from 'tesseract.js';
 
 interface CreateTwinModalProps {
@@ -25,10 +31,38 @@ interface TwinData {
   character: string;
   twinName: string;
   tone: string;
+  llm: TwinModelChoice;
+  plainTextOnly: boolean;
+  forbiddenTopics: string; // Comma-separated, as typed
 }
 
 type Step = 1 | 2 | 3;
 
+// Encrypted original upload, referenced from the (encrypted) training data
+interface SourceFileRef {
+  name: string;
+  type: string;
+  size: number;
+  blobId: string;
+  sha256: string;
+}
+
+/**
+ * Walrus progress callback that reports through the processing step text
+ */
+function walrusProgress(label: string, setStep: (step: string) => void): StoreOptions['onProgress'] {
+  return ({ phase, uploadedBytes, totalBytes, chunkIndex, totalChunks }) => {
+    const percent = totalBytes > 0 ? Math.round((uploadedBytes / totalBytes) * 100) : 100;
+    if (phase === 'manifest') {
+      setStep(`Walrus: Storing manifest for ${totalChunks} chunks...`);
+    } else if (totalChunks > 1) {
+      setStep(`Walrus: Uploading ${label} chunk ${chunkIndex + 1}/${totalChunks} - ${percent}%`);
+    } else {
+      setStep(`Walrus: Uploading ${label} - ${percent}%`);
+    }
+  };
+}
+
 export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
   isOpen,
   onClose,
@@ -42,7 +76,10 @@ export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
     files: [],
     character: 'geometric',
     twinName: 'My Digital Twin',
-    tone: 'Friendly'
+    tone: 'Friendly',
+    llm: {},
+    plainTextOnly: false,
+    forbiddenTopics: ''
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isProcessing, setIsProcessing] = useState(false);
@@ -50,6 +87,17 @@ export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
   
   const account = useCurrentAccount();
   const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { getSessionToken } = useWalletSession();
+  const keyVault = useKeyVault();
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  
+  // Models this deployment offers; the twin runs on the default unless one is picked
+  useEffect(() => {
+    if (!isOpen) return;
+    listLLMProviders()
+      .then(result => setProviders(result.providers))
+      .catch(error => console.error('Failed to load AI models:', error));
+  }, [isOpen]);
   
   const handleNext = () => {
     // Validate current step
@@ -124,14 +172,70 @@ export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
         }
       }
       
+      // One wallet sign-in covers both the AI calls and the uploads
+      setProcessingStep('Signing in with your wallet...');
+      const authToken = await getSessionToken();
+      
+      // Text files go into the corpus as-is; twin answers are retrieved from it
+      const textFiles = formData.files.filter(file => file.type.startsWith('text/') || file.name.endsWith('.txt'));
+      for (const textFile of textFiles) {
+        extractedText += `\n\n--- From ${textFile.name} ---\n${await textFile.text()}`;
+      }
+      
       // Step 2: Generate AI personality from extracted data
       setProcessingStep('Generating AI twin personality...');
-      const personalityData = await generateTwinPersonality(
+      const personalityProfile = await generatePersonalityProfile(
         extractedText,
-        formData.name
+        formData.name,
+        { llm: formData.llm, authToken }
       );
+      // Legacy readers of the training data still get the personality as text
+      const personalityData = compilePersonality(personalityProfile);
       
-      // Step 3: Encrypt the training data with SEAL Protocol
+      // Step 3: Encrypt and store the original files (streamed frame by frame)
+      // The twin key goes straight into the wallet-locked vault, never into localStorage
+      setProcessingStep('Unlocking your key vault...');
+      await keyVault.unlock();
+      // A retry continues the failed attempt: same twin_id, key and nonces, so the files
+      // encrypt to the same bytes and their stored chunks are reused
+      const resumed = await resumeTwinDraft(account.address);
+      const resumedKey = resumed && await keyVault.getTwinKey(resumed.twinId);
+      let draft: TwinDraft;
+      let twinKey: CryptoKey;
+      if (resumed && resumedKey) {
+        console.log('♻️ Resuming twin creation:', resumed.twinId);
+        draft = resumed;
+        twinKey = await importKey(resumedKey);
+      } else {
+        // Unique twin_id from timestamp + wallet address
+        draft = startTwinDraft(account.address);
+        twinKey = await generateEncryptionKey();
+        await keyVault.storeTwinKey(draft.twinId, await exportKey(twinKey));
+      }
+      const uniqueTwinId = draft.twinId;
+      const sourceFiles: SourceFileRef[] = [];
+      
+      for (const [index, file] of formData.files.entries()) {
+        setProcessingStep(`Encrypting ${file.name} (${index + 1}/${formData.files.length})...`);
+        const noncePrefix = await draftNoncePrefix(account.address, draft, file);
+        const encryptedFile = new File([await encryptBlob(file, twinKey, { noncePrefix })], `${file.name}.enc`, {
+          type: 'application/octet-stream'
+        });
+        
+        const stored = await storeOnWalrus(encryptedFile, 5, {
+          authToken,
+          onProgress: walrusProgress(file.name, setProcessingStep)
+        });
+        sourceFiles.push({
+          name: file.name,
+          type: file.type,
+          size: file.size,
+          blobId: stored.blobId,
+          sha256: stored.sha256
+        });
+      }
+      
+      // Step 4: Encrypt the training data with the same twin key
       setProcessingStep('Encrypting data with SEAL Protocol (AES-256-GCM)...');
       const trainingData = JSON.stringify({
         name: formData.name,
@@ -139,38 +243,45 @@ export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
         bio: formData.bio,
         extractedText,
         personality: personalityData,
+        personalityProfile,
         character: formData.character,
         twinName: formData.twinName,
         tone: formData.tone,
+        llm: formData.llm,
+        plainTextOnly: formData.plainTextOnly,
+        forbiddenTopics: parseForbiddenTopics(formData.forbiddenTopics),
+        sourceFiles,
         createdAt: new Date().toISOString()
       });
       
-      const { encrypted, iv, key: encryptionKey } = await encryptDataWithNewKey(trainingData);
+      // Self-describing container (IV + key ID inside), bound to this twin
+      const encrypted = await encryptToContainer(trainingData, twinKey, uniqueTwinId);
       
-      // Step 4: Store encrypted data on Walrus
+      // Step 5: Store encrypted data on Walrus (through the upload proxy)
       setProcessingStep('Uploading encrypted data to Walrus decentralized storage...');
       const encryptedBlob = new Blob([encrypted], { type: 'application/octet-stream' });
-      const walrusResult = await storeOnWalrus(encryptedBlob);
+      const walrusResult = await storeOnWalrus(encryptedBlob, 5, {
+        authToken,
+        onProgress: walrusProgress('encrypted data', setProcessingStep)
+      });
       
       if (!walrusResult.blobId) {
         throw new Error('Failed to upload to Walrus');
       }
       
-      // Step 5: Mint NFT on Sui blockchain
+      // Step 6: Mint NFT on Sui blockchain
       setProcessingStep('Minting AI Twin NFT on Sui blockchain...');
       
       // Import contract functions dynamically to avoid circular deps
       const { Transaction } = await import('@mysten/sui/transactions');
       const { CONTRACT_CONFIG } = await import('@/lib/sui/contract');
       
-      // Generate unique twin_id using timestamp + wallet address
-      const uniqueTwinId = `twin_${Date.now()}_${account.address.slice(-8)}`;
-      
       // Prepare metadata JSON
       const metadata = JSON.stringify({
         character: formData.character,
         tone: formData.tone,
         dateOfBirth: formData.dateOfBirth,
+        blobSha256: walrusResult.sha256, // Verified on every retrieval
       });
       
       const tx = new Transaction();
@@ -202,6 +313,7 @@ export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
       if (!result || !result.digest) {
         throw new Error('Transaction failed');
       }
+      clearTwinDraft(account.address);
       
       setProcessingStep('Success! AI Twin created.');
       
@@ -211,8 +323,10 @@ export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
         id: uniqueTwinId, // Save the unique twin_id
         nftId: result.digest,
         blobId: walrusResult.blobId,
-        encryptionKey,
-        personality: personalityData
+        blobSha256: walrusResult.sha256,
+        personality: personalityData,
+        personalityProfile,
+        forbiddenTopics: parseForbiddenTopics(formData.forbiddenTopics)
       } as any);
       
       // Reset form
@@ -223,7 +337,10 @@ export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
         files: [],
         character: 'geometric',
         twinName: 'My Digital Twin',
-        tone: 'Friendly'
+        tone: 'Friendly',
+        llm: {},
+        plainTextOnly: false,
+        forbiddenTopics: ''
       });
       setStep(1);
       setIsProcessing(false);
@@ -444,6 +561,59 @@ export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
               </div>
             </div>
             
+            {providers.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-[#F5F5F5] mb-3">
+                  AI Model
+                </label>
+                <select
+                  value={formData.llm.provider ? `${formData.llm.provider}|${formData.llm.model}` : ''}
+                  onChange={(e) => {
+                    const [provider, model] = e.target.value.split('|');
+                    setFormData({ ...formData, llm: provider ? { provider, model } : {} });
+                  }}
+                  className="w-full bg-[#141414] border border-[#404040] rounded-lg px-3 py-2 text-sm text-[#F5F5F5] focus:border-[#D97706] outline-none"
+                >
+                  <option value="">Deployment default</option>
+                  {providers.map(provider => (
+                    <optgroup key={provider.id} label={provider.label}>
+                      {provider.models.map(model => (
+                        <option key={model} value={`${provider.id}|${model}`}>{model}</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </div>
+            )}
+            
+            <Input
+              label="Off-Limits Topics"
+              placeholder="e.g. politics, my family, salary"
+              value={formData.forbiddenTopics}
+              onChange={(e) => setFormData({ ...formData, forbiddenTopics: e.target.value })}
+              maxLength={500}
+            />
+            
+            {/* Reply Format */}
+            <div>
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.plainTextOnly}
+                  onChange={(e) => setFormData({ ...formData, plainTextOnly: e.target.checked })}
+                  className="w-5 h-5 bg-[#1E1E1E] border-2 border-[#262626] rounded checked:bg-[#D97706] checked:border-[#D97706]"
+                />
+                <div className="flex-1">
+                  <span className="text-sm font-semibold text-[#F5F5F5]">
+                    Plain text only
+                  </span>
+                  <p className="text-xs text-[#737373] mt-1">
+                    Reply in plain conversational text. Uncheck to allow lists, tables and code blocks.
+                  </p>
+                </div>
+              </label>
+            </div>
+            
             {/* Summary Card */}
             <div className="mt-6 p-5 bg-gradient-to-br from-[#1E1E1E] to-[#141414] border-2 border-[#D97706]/30 rounded-xl">
               <h4 className="text-sm font-semibold text-[#D97706] mb-3 flex items-center gap-2">
@@ -467,6 +637,14 @@ export const CreateTwinModal: React.FC<CreateTwinModalProps> = ({
                   <span className="text-[#737373]">Style:</span>
                   <span className="text-[#F5F5F5] font-medium capitalize">{formData.character} · {formData.tone}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-[#737373]">Model:</span>
+                  <span className="text-[#F5F5F5] font-medium">{formData.llm.model || 'Default'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-[#737373]">Replies:</span>
+                  <span className="text-[#F5F5F5] font-medium">{formData.plainTextOnly ? 'Plain text' : 'Rich text'}</span>
+                </div>
               </div>
             </div>
           </>
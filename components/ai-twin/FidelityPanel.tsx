@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Gauge, Store } from 'lucide-react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { Button } from '@/components/ui/Button';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { importKey } from '@/lib/encryption';
+import type { TwinModelChoice } from '@/lib/groq';
+import { fetchTrainingData } from '@/lib/services/twinKnowledgeService';
+import {
+  attachReportToListing,
+  evaluateTwinFidelity,
+  getFidelityReports,
+  type FidelityReport,
+} from '@/lib/services/fidelityEvaluationService';
+
+interface EvaluableTwin {
+  id: string;
+  name: string;
+  blobId: string;
+  blobSha256?: string;
+  llm?: TwinModelChoice;
+}
+
+// Twins with on-chain training data; only those can be decrypted and evaluated
+function loadTwins(): EvaluableTwin[] {
+  try {
+    const twins: Array<EvaluableTwin & { blobId?: string }> = JSON.parse(localStorage.getItem('aiTwins') || '[]');
+    return twins.filter((t): t is EvaluableTwin => !!t.blobId);
+  } catch {
+    return [];
+  }
+}
+
+function versionLabel(report: FidelityReport): string {
+  return report.profileVersion === null ? 'Original' : `v${report.profileVersion}`;
+}
+
+function scoreColor(score: number): string {
+  if (score >= 60) return 'text-[#059669]';
+  if (score >= 35) return 'text-[#D97706]';
+  return 'text-[#DC2626]';
+}
+
+const Score: React.FC<{ label: string; value?: number }> = ({ label, value }) => (
+  <div className="text-center">
+    <p className={`text-lg font-semibold ${value === undefined ? 'text-[#525252]' : scoreColor(value)}`}>
+      {value ?? '–'}
+    </p>
+    <p className="text-xs text-[#525252]">{label}</p>
+  </div>
+);
+
+export const FidelityPanel: React.FC = () => {
+  const account = useCurrentAccount();
+  const { unlock, getTwinKey } = useKeyVault();
+  const { getSessionToken } = useWalletSession();
+  const [twins, setTwins] = useState<EvaluableTwin[]>([]);
+  const [reports, setReports] = useState<Record<string, FidelityReport[]>>({});
+  const [useJudge, setUseJudge] = useState(false);
+  const [running, setRunning] = useState<string | null>(null);
+  const [step, setStep] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [messages, setMessages] = useState<Record<string, { text: string; error?: boolean }>>({});
+
+  const refresh = useCallback(() => {
+    const loaded = loadTwins();
+    setTwins(loaded);
+    setReports(Object.fromEntries(loaded.map(t => [t.id, getFidelityReports(t.id)])));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  if (!account) return null;
+
+  const handleEvaluate = async (twin: EvaluableTwin) => {
+    setRunning(twin.id);
+    setMessages(prev => ({ ...prev, [twin.id]: { text: '' } }));
+
+    try {
+      setStep('Unlocking your key vault...');
+      await unlock();
+      const keyString = await getTwinKey(twin.id);
+      if (!keyString) {
+        throw new Error('This twin\'s key is not in your key vault');
+      }
+
+      setStep('Downloading and decrypting training data...');
+      const trainingData = await fetchTrainingData(twin.blobId, await importKey(keyString), twin.blobSha256);
+      const authToken = await getSessionToken();
+
+      await evaluateTwinFidelity({
+        twinId: twin.id,
+        twinName: twin.name,
+        blobId: twin.blobId,
+        trainingData,
+        llm: twin.llm,
+        authToken,
+        judge: useJudge,
+        onProgress: setStep,
+      });
+    } catch (error: any) {
+      console.error('Fidelity evaluation failed:', error);
+      setMessages(prev => ({ ...prev, [twin.id]: { text: error.message || 'Evaluation failed', error: true } }));
+    }
+
+    setStep('');
+    setRunning(null);
+    refresh();
+  };
+
+  const handleAttach = (report: FidelityReport) => {
+    const attached = attachReportToListing(report);
+    setMessages(prev => ({
+      ...prev,
+      [report.twinId]: attached
+        ? { text: `Scores of ${versionLabel(report)} are shown on your listing` }
+        : { text: 'List this twin on the marketplace first', error: true },
+    }));
+  };
+
+  return (
+    <div className="bg-[#1E1E1E] border border-[#262626] rounded-xl p-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <p className="text-sm text-[#A3A3A3]">
+          Held-out samples of your own writing, answered by your twin and compared for style and content
+        </p>
+        <label className="flex items-center gap-2 text-sm text-[#A3A3A3] flex-shrink-0">
+          <input
+            type="checkbox"
+            checked={useJudge}
+            onChange={(e) => setUseJudge(e.target.checked)}
+            className="w-4 h-4 bg-[#141414] border-2 border-[#262626] rounded checked:bg-[#D97706] checked:border-[#D97706]"
+          />
+          LLM judge
+        </label>
+      </div>
+
+      {twins.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-[#A3A3A3]">
+          <Gauge className="w-4 h-4 text-[#525252]" />
+          No twins with stored training data yet
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {twins.map(twin => {
+            const history = reports[twin.id] ?? [];
+            const latest = history[0];
+            const message = messages[twin.id];
+
+            return (
+              <div key={twin.id} className="bg-[#141414] border border-[#262626] p-4 rounded-lg">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm text-[#F5F5F5] truncate">{twin.name}</p>
+                    <p className="text-xs text-[#525252]">
+                      {latest
+                        ? `${versionLabel(latest)} · ${latest.sampleSize} samples · ${new Date(latest.evaluatedAt).toLocaleString()}`
+                        : 'Not evaluated yet'}
+                    </p>
+                  </div>
+
+                  {latest && (
+                    <div className="flex items-center gap-4">
+                      <Score label="Overall" value={latest.scores.overall} />
+                      <Score label="Style" value={latest.scores.style} />
+                      <Score label="Content" value={latest.scores.content} />
+                      <Score label="Judge" value={latest.scores.judge} />
+                    </div>
+                  )}
+
+                  <div className="flex gap-2 flex-shrink-0">
+                    {latest && (
+                      <Button variant="ghost" size="small" icon={Store} title="Show on listing" onClick={() => handleAttach(latest)} />
+                    )}
+                    {latest && (
+                      <Button
+                        variant="ghost"
+                        size="small"
+                        icon={expanded === twin.id ? ChevronUp : ChevronDown}
+                        title="Details"
+                        onClick={() => setExpanded(expanded === twin.id ? null : twin.id)}
+                      />
+                    )}
+                    <Button
+                      variant="secondary"
+                      size="small"
+                      icon={Gauge}
+                      iconPosition="left"
+                      disabled={running !== null}
+                      onClick={() => handleEvaluate(twin)}
+                    >
+                      {running === twin.id ? 'Evaluating...' : 'Evaluate'}
+                    </Button>
+                  </div>
+                </div>
+
+                {running === twin.id && step && <p className="text-xs text-[#A3A3A3] mt-2">{step}</p>}
+                {message?.text && (
+                  <p className={`text-xs mt-2 ${message.error ? 'text-[#DC2626]' : 'text-[#059669]'}`}>{message.text}</p>
+                )}
+
+                {expanded === twin.id && latest && (
+                  <div className="mt-4 space-y-3">
+                    {history.length > 1 && (
+                      <p className="text-xs text-[#A3A3A3]">
+                        Earlier: {history.slice(1).map(r => `${versionLabel(r)} ${r.scores.overall}`).join(' · ')}
+                      </p>
+                    )}
+                    {latest.items.map((item, i) => (
+                      <div key={i} className="border-t border-[#262626] pt-3 text-xs space-y-1">
+                        <p className="text-[#F5F5F5]">
+                          {item.prompt}
+                          <span className="text-[#525252]"> · {item.source}</span>
+                        </p>
+                        <p className="text-[#737373] italic line-clamp-2">You: &ldquo;{item.reference}&rdquo;</p>
+                        <p className="text-[#A3A3A3] line-clamp-2">Twin: &ldquo;{item.answer}&rdquo;</p>
+                        <p className="text-[#525252]">
+                          Style {item.style} · Content {item.content}
+                          {item.judge && ` · Judge ${item.judge.style}/${item.judge.content}: ${item.judge.reason}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,336 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input, Textarea } from '@/components/ui/Input';
+import { AlertCircle, CheckCircle, Eye, Plus, Save, X } from 'lucide-react';
+import { useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { compilePersonality, type PersonalityProfile, type PersonalityProfileContent } from '@/lib/personality';
+import {
+  loadPersonalityProfile,
+  savePersonalityProfile,
+  type ProfileSaveResult,
+} from '@/lib/services/personalityProfileService';
+
+interface PersonalityEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  twinId: string;
+  twinName: string;
+  onSaved: (result: ProfileSaveResult) => void;
+}
+
+type ListField = 'traits' | 'vocabulary' | 'catchphrases' | 'expertise' | 'boundaries';
+
+const LIST_FIELDS: { field: ListField; label: string; placeholder: string }[] = [
+  { field: 'traits', label: 'Traits', placeholder: 'Curious\nDry sense of humour' },
+  { field: 'vocabulary', label: 'Vocabulary', placeholder: 'Words and phrasings they use' },
+  { field: 'catchphrases', label: 'Catchphrases', placeholder: "Let's dig in" },
+  { field: 'expertise', label: 'Topics of Expertise', placeholder: 'Marine biology\nScuba diving' },
+  { field: 'boundaries', label: 'Boundaries', placeholder: 'Never gives medical advice' },
+];
+
+// Drop blank lines and rows before validating and saving
+function cleanProfile(profile: PersonalityProfileContent): PersonalityProfileContent {
+  const lines = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+  return {
+    summary: profile.summary.trim(),
+    speakingStyle: profile.speakingStyle.trim(),
+    traits: lines(profile.traits),
+    vocabulary: lines(profile.vocabulary),
+    catchphrases: lines(profile.catchphrases),
+    expertise: lines(profile.expertise),
+    boundaries: lines(profile.boundaries),
+    opinions: profile.opinions
+      .map(o => ({ topic: o.topic.trim(), stance: o.stance.trim() }))
+      .filter(o => o.topic || o.stance),
+    examples: profile.examples
+      .map(e => ({ question: e.question.trim(), answer: e.answer.trim() }))
+      .filter(e => e.question || e.answer),
+  };
+}
+
+export function PersonalityEditorModal({ isOpen, onClose, twinId, twinName, onSaved }: PersonalityEditorModalProps) {
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { address, unlock, getTwinKey } = useKeyVault();
+  const { getSessionToken } = useWalletSession();
+  const [profile, setProfile] = useState<PersonalityProfile | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [step, setStep] = useState('');
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState<ProfileSaveResult | null>(null);
+
+  // The profile lives in the encrypted training data: decrypt it with the twin's key
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setStep('Unlocking your key vault...');
+      await unlock();
+      const twinKey = await getTwinKey(twinId);
+      if (!twinKey) {
+        throw new Error('This twin\'s key is not in your key vault. Restore it from a backup first.');
+      }
+      setStep('Loading personality profile...');
+      const loaded = await loadPersonalityProfile({ twinId, owner: address!, twinKey });
+      if (!cancelled) setProfile(loaded);
+    };
+
+    setError('');
+    setSaved(null);
+    load()
+      .catch(err => {
+        console.error('Failed to load personality profile:', err);
+        if (!cancelled) setError(err.message || 'Failed to load the personality profile');
+      })
+      .finally(() => {
+        if (!cancelled) setStep('');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, twinId, address, unlock, getTwinKey]);
+
+  const update = (changes: Partial<PersonalityProfileContent>) => {
+    setProfile(prev => (prev ? { ...prev, ...changes } : prev));
+    setSaved(null);
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const twinKey = await getTwinKey(twinId);
+      if (!twinKey) {
+        throw new Error('This twin\'s key is not in your key vault');
+      }
+
+      setStep('Signing in with your wallet for upload...');
+      const authToken = await getSessionToken();
+
+      const result = await savePersonalityProfile({
+        twinId,
+        owner: address!,
+        twinKey,
+        profile: cleanProfile(profile),
+        authToken,
+        signAndExecute,
+        onProgress: setStep,
+      });
+
+      setProfile(result.profile);
+      setSaved(result);
+      onSaved(result);
+    } catch (err: any) {
+      console.error('Saving personality profile failed:', err);
+      setError(err.message || 'Saving the personality profile failed');
+    } finally {
+      setStep('');
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isSaving) return;
+    setProfile(null);
+    setShowPreview(false);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={`Personality: ${twinName}`} maxWidth="3xl">
+      <div className="space-y-6">
+        {profile && (
+          <p className="text-xs text-[#737373]">
+            Version {profile.version} · Updated {new Date(profile.updatedAt).toLocaleString()}
+          </p>
+        )}
+
+        {profile && !showPreview && (
+          <>
+            <Textarea
+              label="Summary"
+              value={profile.summary}
+              onChange={(e) => update({ summary: e.target.value })}
+              maxLength={1500}
+              rows={4}
+            />
+            <Textarea
+              label="Speaking Style"
+              placeholder="Short sentences, warm, teases gently, avoids jargon"
+              value={profile.speakingStyle}
+              onChange={(e) => update({ speakingStyle: e.target.value })}
+              maxLength={800}
+              rows={2}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {LIST_FIELDS.map(({ field, label, placeholder }) => (
+                <Textarea
+                  key={field}
+                  label={`${label} (one per line)`}
+                  placeholder={placeholder}
+                  value={profile[field].join('\n')}
+                  onChange={(e) => update({ [field]: e.target.value.split('\n') })}
+                  rows={4}
+                />
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-[#F5F5F5] mb-2">Opinions</label>
+              <div className="space-y-2">
+                {profile.opinions.map((opinion, i) => (
+                  <div key={i} className="flex gap-2 items-start">
+                    <div className="w-1/3">
+                      <Input
+                        placeholder="Topic"
+                        value={opinion.topic}
+                        onChange={(e) => update({
+                          opinions: profile.opinions.map((o, j) => (j === i ? { ...o, topic: e.target.value } : o)),
+                        })}
+                        maxLength={120}
+                      />
+                    </div>
+                    <Input
+                      placeholder="Their stance"
+                      value={opinion.stance}
+                      onChange={(e) => update({
+                        opinions: profile.opinions.map((o, j) => (j === i ? { ...o, stance: e.target.value } : o)),
+                      })}
+                      maxLength={500}
+                    />
+                    <button
+                      onClick={() => update({ opinions: profile.opinions.filter((_, j) => j !== i) })}
+                      className="p-3 text-[#525252] hover:text-[#DC2626] transition-colors"
+                      title="Remove opinion"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="small"
+                  icon={Plus}
+                  iconPosition="left"
+                  onClick={() => update({ opinions: [...profile.opinions, { topic: '', stance: '' }] })}
+                >
+                  Add Opinion
+                </Button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-[#F5F5F5] mb-2">Example Q&amp;A</label>
+              <div className="space-y-3">
+                {profile.examples.map((example, i) => (
+                  <div key={i} className="bg-[#1E1E1E] border border-[#262626] rounded-lg p-3 space-y-2">
+                    <div className="flex gap-2 items-start">
+                      <Input
+                        placeholder="Question"
+                        value={example.question}
+                        onChange={(e) => update({
+                          examples: profile.examples.map((x, j) => (j === i ? { ...x, question: e.target.value } : x)),
+                        })}
+                        maxLength={500}
+                      />
+                      <button
+                        onClick={() => update({ examples: profile.examples.filter((_, j) => j !== i) })}
+                        className="p-3 text-[#525252] hover:text-[#DC2626] transition-colors"
+                        title="Remove example"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <Textarea
+                      placeholder="Answer, in their voice"
+                      value={example.answer}
+                      onChange={(e) => update({
+                        examples: profile.examples.map((x, j) => (j === i ? { ...x, answer: e.target.value } : x)),
+                      })}
+                      maxLength={1500}
+                      rows={3}
+                    />
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="small"
+                  icon={Plus}
+                  iconPosition="left"
+                  onClick={() => update({ examples: [...profile.examples, { question: '', answer: '' }] })}
+                >
+                  Add Example
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {profile && showPreview && (
+          <div>
+            <p className="text-sm text-[#A3A3A3] mb-2">What the twin receives as its personality:</p>
+            <pre className="bg-[#1E1E1E] border border-[#262626] rounded-lg p-4 text-xs text-[#F5F5F5] whitespace-pre-wrap max-h-[50vh] overflow-y-auto">
+              {compilePersonality(cleanProfile(profile))}
+            </pre>
+          </div>
+        )}
+
+        {step && (
+          <div className="flex items-center gap-3 text-sm text-[#A3A3A3]">
+            <div className="w-4 h-4 border-2 border-[#D97706] border-t-transparent rounded-full animate-spin" />
+            {step}
+          </div>
+        )}
+
+        {saved && (
+          <div className="bg-[#059669]/10 border border-[#059669]/30 rounded-lg p-4 flex items-center gap-2 text-sm text-[#059669]">
+            <CheckCircle className="w-4 h-4" />
+            Saved as version {saved.profile.version}. Buyers get it the next time they unlock the twin.
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-[#DC2626]/10 border border-[#DC2626]/30 rounded-lg p-4 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-[#DC2626]" />
+            <p className="text-sm text-[#DC2626]">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={handleClose} className="flex-1" disabled={isSaving}>
+            {saved ? 'Done' : 'Cancel'}
+          </Button>
+          <Button
+            variant="ghost"
+            icon={Eye}
+            iconPosition="left"
+            onClick={() => setShowPreview(!showPreview)}
+            disabled={!profile}
+          >
+            {showPreview ? 'Edit' : 'Preview'}
+          </Button>
+          <Button
+            variant="primary"
+            icon={Save}
+            iconPosition="left"
+            onClick={handleSave}
+            className="flex-1"
+            disabled={!profile || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save New Version'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { RefreshCw, AlertCircle, CheckCircle, AlertTriangle } from 'lucide-react';
+import { useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { recoverPendingRotation, rotateTwinKey, type KeyRotationResult } from '@/lib/services/keyRotationService';
+
+interface RotateKeyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  twinId: string;
+  twinName: string;
+  onRotated: (result: KeyRotationResult) => void;
+}
+
+export function RotateKeyModal({ isOpen, onClose, twinId, twinName, onRotated }: RotateKeyModalProps) {
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const keyVault = useKeyVault();
+  const { getSessionToken } = useWalletSession();
+  const [isRotating, setIsRotating] = useState(false);
+  const [step, setStep] = useState('');
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<KeyRotationResult | null>(null);
+  const [recovered, setRecovered] = useState(false);
+
+  const handleRotate = async () => {
+    setIsRotating(true);
+    setError('');
+    setResult(null);
+    setRecovered(false);
+
+    try {
+      setStep('Unlocking your key vault...');
+      await keyVault.unlock();
+
+      // An earlier rotation may have gone through without this page seeing it
+      setStep('Checking for an unfinished rotation...');
+      if (await recoverPendingRotation(twinId, keyVault.address!)) {
+        setRecovered(true);
+        setStep('');
+        return;
+      }
+
+      const currentKey = await keyVault.getTwinKey(twinId);
+      if (!currentKey) {
+        throw new Error('This twin\'s current key is not in your key vault. Restore it from a backup first.');
+      }
+
+      setStep('Signing in with your wallet for upload...');
+      const authToken = await getSessionToken();
+
+      const rotation = await rotateTwinKey({
+        twinId,
+        owner: keyVault.address!,
+        currentKey,
+        authToken,
+        signAndExecute,
+        onProgress: setStep,
+      });
+
+      setResult(rotation);
+      setStep('');
+      onRotated(rotation);
+    } catch (err: any) {
+      console.error('Key rotation failed:', err);
+      setError(err.message || 'Key rotation failed');
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isRotating) return;
+    setResult(null);
+    setRecovered(false);
+    setError('');
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Rotate Encryption Key" maxWidth="xl">
+      <div className="space-y-6">
+        <div className="bg-[#D97706]/10 border border-[#D97706]/30 rounded-lg p-4 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-[#D97706] flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-[#A3A3A3] space-y-1">
+            <p className="text-[#F5F5F5] font-semibold">Re-encrypt {twinName} under a new key</p>
+            <p>Training data and source files are decrypted, re-encrypted and uploaded to Walrus again. Your twin NFT is updated to the new blob.</p>
+            <p>Every buyer with an active access token gets a new token with the new key. Revoked and expired tokens are skipped.</p>
+          </div>
+        </div>
+
+        {step && (
+          <div className="flex items-center gap-3 text-sm text-[#A3A3A3]">
+            <div className="w-4 h-4 border-2 border-[#D97706] border-t-transparent rounded-full animate-spin" />
+            {step}
+          </div>
+        )}
+
+        {result && (
+          <div className="bg-[#059669]/10 border border-[#059669]/30 rounded-lg p-4 space-y-1 text-sm">
+            <div className="flex items-center gap-2 text-[#059669] font-semibold">
+              <CheckCircle className="w-4 h-4" />
+              Key rotated
+            </div>
+            <p className="text-[#A3A3A3]">New blob: <span className="font-mono">{result.blobId}</span></p>
+            <p className="text-[#A3A3A3]">{result.rewrapped.length} buyer(s) received a new access token</p>
+            {result.missingPublicKey.length > 0 && (
+              <p className="text-[#D97706]">
+                {result.missingPublicKey.length} buyer(s) could not be re-granted because their access token predates
+                recorded public keys. They need to request access again.
+              </p>
+            )}
+          </div>
+        )}
+
+        {recovered && (
+          <div className="bg-[#059669]/10 border border-[#059669]/30 rounded-lg p-4 space-y-1 text-sm">
+            <div className="flex items-center gap-2 text-[#059669] font-semibold">
+              <CheckCircle className="w-4 h-4" />
+              Earlier rotation completed
+            </div>
+            <p className="text-[#A3A3A3]">
+              A previous rotation of this twin went through, and its new key is now in your key vault. Rotate again if
+              you still need a fresh key.
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-[#DC2626]/10 border border-[#DC2626]/30 rounded-lg p-4 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-[#DC2626]" />
+            <p className="text-sm text-[#DC2626]">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={handleClose} className="flex-1" disabled={isRotating}>
+            {result ? 'Done' : 'Cancel'}
+          </Button>
+          {!result && (
+            <Button variant="primary" icon={RefreshCw} iconPosition="left" onClick={handleRotate} className="flex-1" disabled={isRotating}>
+              {isRotating ? 'Rotating...' : 'Rotate Key'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { Calendar, Database, MessageSquare, Edit, Trash, MoreVertical, Store } from 'lucide-react';
+import { Calendar, Database, MessageSquare, Edit, Trash, MoreVertical, Store, KeyRound } from 'lucide-react';
 import { Button } from '../ui/Button';
 
 interface TwinCardProps {
@@ -16,6 +16,7 @@ interface TwinCardProps {
   onEdit: () => void;
   onDelete: () => void;
   onListMarketplace?: () => void;
+  onRotateKey?: () => void;
 }
 
 export const TwinCard: React.FC<TwinCardProps> = ({
@@ -27,7 +28,8 @@ export const TwinCard: React.FC<TwinCardProps> = ({
   onChat,
   onEdit,
   onDelete,
-  onListMarketplace
+  onListMarketplace,
+  onRotateKey
 }) => {
   return (
     <div className="bg-[#1E1E1E] border border-[#262626] p-6 rounded-2xl hover:border-[#404040] hover:shadow-lg transition-all duration-300 flex flex-col min-h-[300px]">
@@ -102,6 +104,17 @@ export const TwinCard: React.FC<TwinCardProps> = ({
           >
           </Button>
         )}
+        {onRotateKey && (
+          <Button 
+            variant="ghost" 
+            size="small" 
+            icon={KeyRound}
+            onClick={onRotateKey}
+            className="px-3"
+            title="Rotate Encryption Key"
+          >
+          </Button>
+        )}
         <Button 
           variant="ghost" 
           size="small" 
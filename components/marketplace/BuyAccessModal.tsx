@@ -12,6 +12,9 @@ import {
   grantTwinAccess,
   calculatePriceBreakdown 
 } from '@/lib/services/purchaseService';
+import { addAccessRequest } from '@/lib/services/accessGrantService';
+import { FULL_ACCESS_TERMS, describeAccessTerms, isMetered, type AccessTerms } from '@/lib/services/usageMeteringService';
+import { useWalletKeyPair } from '@/hooks/useWalletKeyPair';
 
 interface BuyAccessModalProps {
   isOpen: boolean;
@@ -22,6 +25,7 @@ interface BuyAccessModalProps {
     creator?: string;
     description: string;
     price: number;
+    accessTerms?: AccessTerms;
   };
   onSuccess: () => void;
 }
@@ -29,11 +33,13 @@ interface BuyAccessModalProps {
 export function BuyAccessModal({ isOpen, onClose, listing, onSuccess }: BuyAccessModalProps) {
   const account = useCurrentAccount();
   const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { getKeyPair } = useWalletKeyPair();
   const [isPurchasing, setIsPurchasing] = useState(false);
   const [error, setError] = useState<string>('');
   const [successMessage, setSuccessMessage] = useState<string>('');
 
   const { totalPrice, platformFee, creatorReceives } = calculatePriceBreakdown(listing.price);
+  const accessTerms = listing.accessTerms ?? FULL_ACCESS_TERMS;
 
   const handlePurchase = async () => {
     if (!account) {
@@ -58,7 +64,12 @@ export function BuyAccessModal({ isOpen, onClose, listing, onSuccess }: BuyAcces
         return;
       }
 
-      // Create the payment transaction
+      // The creator wraps the twin's key to this wallet's public key
+      setSuccessMessage('Sign to receive the encryption key...');
+      const { publicKey } = await getKeyPair();
+      setSuccessMessage('');
+
+      // Create the payment transaction, with the request for the twin's key
       const tx = await createPurchaseTransaction({
         twinId: listing.id,
         twinName: listing.name,
@@ -66,6 +77,16 @@ export function BuyAccessModal({ isOpen, onClose, listing, onSuccess }: BuyAcces
         creatorAddress: listing.creator,
         buyerAddress: account.address,
       });
+      addAccessRequest(tx, {
+        twinId: listing.id,
+        seller: listing.creator,
+        buyerPublicKey: publicKey,
+        accessType: accessTerms.accessType,
+        durationDays: accessTerms.durationDays,
+        // Recorded on the request and the token, so later listing edits don't change this sale
+        messageLimit: accessTerms.messageLimit,
+        tokenLimit: accessTerms.tokenLimit,
+      });
 
       console.log('Transaction created, requesting signature...');
 
@@ -100,7 +121,7 @@ export function BuyAccessModal({ isOpen, onClose, listing, onSuccess }: BuyAcces
       grantTwinAccess(listing.id);
 
       console.log('Access granted!');
-      setSuccessMessage('Purchase complete! Access granted.');
+      setSuccessMessage('Purchase complete! The creator will deliver your access token shortly.');
 
       // Wait a moment to show success message
       await new Promise(resolve => setTimeout(resolve, 1000));
@@ -182,9 +203,13 @@ export function BuyAccessModal({ isOpen, onClose, listing, onSuccess }: BuyAcces
             <div className="text-sm text-[#F5F5F5]">
               <p className="font-semibold mb-2">What you get with this purchase:</p>
               <ul className="text-[#A3A3A3] space-y-1">
-                <li>• Unlimited chat access to this AI twin</li>
+                {isMetered(accessTerms.accessType) ? (
+                  <li>• {describeAccessTerms(accessTerms)}, counted from when the creator grants access</li>
+                ) : (
+                  <li>• Unlimited chat access to this AI twin</li>
+                )}
                 <li>• Access to all training data and personality traits</li>
-                <li>• Lifetime access - no recurring fees</li>
+                {!isMetered(accessTerms.accessType) && <li>• Lifetime access - no recurring fees</li>}
                 <li>• Ability to use in your projects</li>
                 <li>• Support the creator directly (90% goes to them)</li>
               </ul>
@@ -1,8 +1,10 @@
 'use client';
 
 import React from 'react';
-import { Star, Users, MessageSquare, Eye, ShoppingCart } from 'lucide-react';
+import { Star, Users, MessageSquare, Eye, ShoppingCart, Gauge } from 'lucide-react';
 import { Button } from '../ui/Button';
+import type { ListingFidelity } from '@/lib/services/fidelityEvaluationService';
+import { describeAccessTerms, isMetered, type AccessTerms } from '@/lib/services/usageMeteringService';
 
 interface ListingCardProps {
   id: string;
@@ -14,7 +16,9 @@ interface ListingCardProps {
   users: number;
   messages: number;
   price: number;
+  accessTerms?: AccessTerms;
   featured?: boolean;
+  fidelity?: ListingFidelity;
   onPreview: () => void;
   onBuy: () => void;
 }
@@ -28,7 +32,9 @@ export const ListingCard: React.FC<ListingCardProps> = ({
   users,
   messages,
   price,
+  accessTerms,
   featured = false,
+  fidelity,
   onPreview,
   onBuy
 }) => {
@@ -93,13 +99,27 @@ export const ListingCard: React.FC<ListingCardProps> = ({
             <MessageSquare className="w-4 h-4" />
             <span>{messages} messages</span>
           </div>
+          {fidelity && (
+            <div
+              className="flex items-center gap-1"
+              title={`Style ${fidelity.scores.style} · Content ${fidelity.scores.content}${fidelity.scores.judge === undefined ? '' : ` · Judge ${fidelity.scores.judge}`} over ${fidelity.sampleSize} held-out samples`}
+            >
+              <Gauge className="w-4 h-4" />
+              <span>{fidelity.scores.overall}% fidelity</span>
+            </div>
+          )}
         </div>
       </div>
       
       {/* Footer */}
       <div className="p-6 pt-4 border-t border-[#262626] flex items-center justify-between">
-        <div className="text-2xl font-bold text-[#D97706]">
-          {price} <span className="text-sm font-normal">credits</span>
+        <div>
+          <div className="text-2xl font-bold text-[#D97706]">
+            {price} <span className="text-sm font-normal">credits</span>
+          </div>
+          {accessTerms && isMetered(accessTerms.accessType) && (
+            <div className="text-xs text-[#737373]">{describeAccessTerms(accessTerms)}</div>
+          )}
         </div>
         
         <div className="flex gap-2">
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { KeyRound, Send, CheckCircle, Lock } from 'lucide-react';
+import { useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+import { Button } from '@/components/ui/Button';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { suiClient } from '@/lib/sui/contract';
+import {
+  createGrantAccessTransaction,
+  fetchPendingGrants,
+  verifyAccessRequest,
+  type AccessGrantRequest,
+  type ListingTerms,
+} from '@/lib/services/accessGrantService';
+import { describeAccessTerms } from '@/lib/services/usageMeteringService';
+
+// Requests only carry the twin ID; the creator's own records have the name
+function twinName(twinId: string): string {
+  const twins = JSON.parse(localStorage.getItem('aiTwins') || '[]');
+  return twins.find((t: any) => t.id === twinId)?.name ?? twinId;
+}
+
+// The creator's current price and terms for the twin, or null when it isn't listed
+function listingTerms(twinId: string): ListingTerms | null {
+  const twins = JSON.parse(localStorage.getItem('aiTwins') || '[]');
+  const twin = twins.find((t: any) => t.id === twinId);
+  return twin?.isListed && typeof twin.price === 'number'
+    ? { price: twin.price, accessTerms: twin.accessTerms }
+    : null;
+}
+
+// The terms the buyer filed, which the granted token carries (0 limits mean no cap)
+function requestTerms(request: AccessGrantRequest): string {
+  return describeAccessTerms({
+    accessType: request.accessType,
+    durationDays: request.durationDays,
+    messageLimit: request.messageLimit || undefined,
+    tokenLimit: request.tokenLimit || undefined,
+  });
+}
+
+export const PendingGrantsPanel: React.FC = () => {
+  const account = useCurrentAccount();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const [requests, setRequests] = useState<AccessGrantRequest[]>([]);
+  const [twinKeys, setTwinKeys] = useState<Record<string, string>>({});
+  const [granting, setGranting] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // Why a request doesn't match its listing or payment; unset while still checking
+  const [problems, setProblems] = useState<Record<string, string[]>>({});
+  const { isUnlocked, unlock, getTwinKeys } = useKeyVault();
+  const address = account?.address;
+
+  const refresh = useCallback(() => {
+    if (address) {
+      fetchPendingGrants(suiClient, address)
+        .then(async pending => {
+          setRequests(pending);
+          const checked = await Promise.all(
+            pending.map(request =>
+              verifyAccessRequest(suiClient, request, listingTerms(request.twinId)).catch(error => {
+                console.error('Failed to check access request:', error);
+                return ['The payment could not be checked'];
+              })
+            )
+          );
+          setProblems(Object.fromEntries(pending.map((request, i) => [request.id, checked[i]])));
+        })
+        .catch(error => console.error('Failed to load access requests:', error));
+    } else {
+      setRequests([]);
+    }
+    if (isUnlocked) {
+      getTwinKeys().then(setTwinKeys).catch(error => console.error('Failed to read twin keys:', error));
+    } else {
+      setTwinKeys({});
+    }
+  }, [address, isUnlocked, getTwinKeys]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleGrant = async (request: AccessGrantRequest) => {
+    setGranting(request.id);
+    setErrors(prev => ({ ...prev, [request.id]: '' }));
+
+    try {
+      const tx = await createGrantAccessTransaction(request, twinKeys[request.twinId]);
+      const result = await signAndExecute({ transaction: tx });
+      // Granting consumes the request; wait so the refresh no longer lists it
+      await suiClient.waitForTransaction({ digest: result.digest });
+      console.log('✅ AccessToken minted for', request.buyer, result.digest);
+    } catch (error: any) {
+      setErrors(prev => ({ ...prev, [request.id]: error.message || 'Minting the access token failed' }));
+    }
+
+    setGranting(null);
+    refresh();
+  };
+
+  if (!address) return null;
+
+  return (
+    <div className="bg-[#1E1E1E] border border-[#262626] rounded-xl p-6">
+      {requests.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-[#A3A3A3]">
+          <CheckCircle className="w-4 h-4 text-[#059669]" />
+          Every buyer has received their access token
+        </div>
+      ) : !isUnlocked ? (
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm text-[#A3A3A3]">
+            <Lock className="w-4 h-4 text-[#D97706]" />
+            {requests.length} buyer{requests.length === 1 ? ' is' : 's are'} waiting. Unlock your key vault to grant access.
+          </div>
+          <Button
+            variant="secondary"
+            size="small"
+            onClick={() => unlock().catch(error => console.error('Key vault unlock failed:', error))}
+          >
+            Unlock Vault
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {requests.map(request => (
+            <div
+              key={request.id}
+              className="bg-[#141414] border border-[#262626] p-3 rounded-lg flex items-center justify-between gap-4"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <KeyRound className="w-5 h-5 flex-shrink-0 text-[#D97706]" />
+                <div className="min-w-0">
+                  <p className="text-sm text-[#F5F5F5] truncate">{twinName(request.twinId)}</p>
+                  <p className="text-xs text-[#525252] font-mono truncate">
+                    Buyer {request.buyer.slice(0, 6)}...{request.buyer.slice(-4)}
+                  </p>
+                  <p className="text-xs text-[#A3A3A3]">{requestTerms(request)}</p>
+                  {!twinKeys[request.twinId] && (
+                    <p className="text-xs text-[#DC2626]">This twin&apos;s encryption key is not in your key vault</p>
+                  )}
+                  {problems[request.id]?.map(problem => (
+                    <p key={problem} className="text-xs text-[#DC2626]">{problem}</p>
+                  ))}
+                  {errors[request.id] && (
+                    <p className="text-xs text-[#DC2626]">{errors[request.id]}</p>
+                  )}
+                </div>
+              </div>
+
+              <Button
+                variant="secondary"
+                size="small"
+                icon={Send}
+                iconPosition="left"
+                disabled={granting !== null || !twinKeys[request.twinId] || problems[request.id]?.length !== 0}
+                onClick={() => handleGrant(request)}
+              >
+                {granting === request.id ? 'Granting...' : 'Grant Access'}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,19 +4,51 @@ import React, { useState } from 'react';
 import { Modal } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { DollarSign, Tag, TrendingUp } from 'lucide-react';
+import {
+  ACCESS_TYPE_FULL,
+  ACCESS_TYPE_LIMITED,
+  ACCESS_TYPE_TEMPORARY,
+  LIFETIME_ACCESS_DAYS,
+} from '@/lib/services/accessGrantService';
+import { describeAccessTerms, validateAccessTerms, type AccessTerms } from '@/lib/services/usageMeteringService';
 
 interface PricingModalProps {
   isOpen: boolean;
   onClose: () => void;
   twinName: string;
   twinId: string;
-  onSetPrice: (price: number, isPublic: boolean) => void;
+  onSetPrice: (price: number, isPublic: boolean, accessTerms: AccessTerms) => void;
+}
+
+const ACCESS_OPTIONS = [
+  { accessType: ACCESS_TYPE_FULL, label: 'Full', desc: 'Lifetime, unlimited' },
+  { accessType: ACCESS_TYPE_LIMITED, label: 'Trial', desc: 'Capped messages or tokens' },
+  { accessType: ACCESS_TYPE_TEMPORARY, label: 'Temporary', desc: 'Unlimited for a period' },
+];
+
+// Number input value; empty means no limit
+function parseLimit(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
 }
 
 export function PricingModal({ isOpen, onClose, twinName, twinId, onSetPrice }: PricingModalProps) {
   const [price, setPrice] = useState<number>(0.1);
   const [isPublic, setIsPublic] = useState(true);
   const [priceError, setpriceError] = useState<string>('');
+  const [accessType, setAccessType] = useState(ACCESS_TYPE_FULL);
+  const [durationDays, setDurationDays] = useState('7');
+  const [messageLimit, setMessageLimit] = useState('20');
+  const [tokenLimit, setTokenLimit] = useState('');
+  const [termsError, setTermsError] = useState('');
+
+  const accessTerms: AccessTerms = accessType === ACCESS_TYPE_FULL
+    ? { accessType, durationDays: LIFETIME_ACCESS_DAYS }
+    : {
+        accessType,
+        durationDays: Number(durationDays),
+        messageLimit: accessType === ACCESS_TYPE_LIMITED ? parseLimit(messageLimit) : undefined,
+        tokenLimit: accessType === ACCESS_TYPE_LIMITED ? parseLimit(tokenLimit) : undefined,
+      };
 
   const handleSubmit = () => {
     if (price <= 0) {
@@ -29,7 +61,13 @@ export function PricingModal({ isOpen, onClose, twinName, twinId, onSetPrice }:
       return;
     }
 
-    onSetPrice(price, isPublic);
+    const problems = validateAccessTerms(accessTerms);
+    if (problems.length > 0) {
+      setTermsError(problems[0]);
+      return;
+    }
+
+    onSetPrice(price, isPublic, accessTerms);
     onClose();
   };
 
@@ -134,6 +172,66 @@ export function PricingModal({ isOpen, onClose, twinName, twinId, onSetPrice }:
           </div>
         </div>
 
+        {/* Access Terms */}
+        <div>
+          <label className="block text-sm font-semibold text-[#F5F5F5] mb-3">
+            Access Type
+          </label>
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            {ACCESS_OPTIONS.map((option) => (
+              <button
+                key={option.accessType}
+                onClick={() => {
+                  setAccessType(option.accessType);
+                  setTermsError('');
+                }}
+                className={`p-3 rounded-lg border-2 transition-all text-left ${
+                  accessType === option.accessType
+                    ? 'border-[#D97706] bg-[#D97706]/10'
+                    : 'border-[#262626] bg-[#1E1E1E] hover:border-[#404040]'
+                }`}
+              >
+                <div className="text-sm font-semibold text-[#F5F5F5]">{option.label}</div>
+                <div className="text-xs text-[#525252] mt-1">{option.desc}</div>
+              </button>
+            ))}
+          </div>
+
+          {accessType !== ACCESS_TYPE_FULL && (
+            <div className={`grid gap-3 ${accessType === ACCESS_TYPE_LIMITED ? 'grid-cols-3' : 'grid-cols-1'}`}>
+              {[
+                { label: 'Days', value: durationDays, set: setDurationDays, placeholder: '7', show: true },
+                { label: 'Messages', value: messageLimit, set: setMessageLimit, placeholder: 'No limit', show: accessType === ACCESS_TYPE_LIMITED },
+                { label: 'Tokens', value: tokenLimit, set: setTokenLimit, placeholder: 'No limit', show: accessType === ACCESS_TYPE_LIMITED },
+              ].filter(field => field.show).map(field => (
+                <div key={field.label}>
+                  <div className="text-xs text-[#737373] mb-1">{field.label}</div>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={field.value}
+                    onChange={(e) => {
+                      field.set(e.target.value);
+                      setTermsError('');
+                    }}
+                    placeholder={field.placeholder}
+                    className="w-full bg-[#1E1E1E] border border-[#262626] text-[#F5F5F5] px-3 py-2 rounded-lg focus:border-[#D97706] focus:ring-2 focus:ring-[#D97706]/20 focus:outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {termsError ? (
+            <p className="text-sm text-[#DC2626] mt-2">{termsError}</p>
+          ) : (
+            <p className="text-xs text-[#525252] mt-2">
+              Buyers get: {describeAccessTerms(accessTerms)}
+            </p>
+          )}
+        </div>
+
         {/* Visibility Toggle */}
         <div>
           <label className="flex items-center gap-3 cursor-pointer">
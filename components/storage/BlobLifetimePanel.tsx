@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { HardDrive, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { walrusService } from '@/lib/walrus';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import {
+  DEFAULT_EPOCHS,
+  EPOCH_DURATION_MS,
+  EXPIRY_WARNING_EPOCHS,
+  MAX_EPOCHS_AHEAD,
+  estimateCurrentEpoch,
+  getBlobLifetimes,
+  getExpiringBlobs,
+  type BlobLifetime,
+} from '@/lib/walrus/lifetime';
+
+type ExpiringBlob = BlobLifetime & { epochsRemaining: number };
+
+const RENEW_OPTIONS = [DEFAULT_EPOCHS, 10, 26, MAX_EPOCHS_AHEAD];
+
+/**
+ * Twin names keyed by training data blob ID, so rows say what will break
+ */
+function loadTwinNames(): Record<string, string> {
+  try {
+    const twins: Array<{ name: string; blobId?: string }> = JSON.parse(localStorage.getItem('aiTwins') || '[]');
+    return Object.fromEntries(twins.filter(t => t.blobId).map(t => [t.blobId!, t.name]));
+  } catch {
+    return {};
+  }
+}
+
+function formatTimeLeft(epochs: number): string {
+  if (epochs === 0) return 'Expired';
+  const days = Math.round((epochs * EPOCH_DURATION_MS) / (24 * 60 * 60 * 1000));
+  return `${epochs} epoch${epochs === 1 ? '' : 's'} (~${days} day${days === 1 ? '' : 's'})`;
+}
+
+export const BlobLifetimePanel: React.FC = () => {
+  const [expiring, setExpiring] = useState<ExpiringBlob[]>([]);
+  const [trackedCount, setTrackedCount] = useState(0);
+  const [currentEpoch, setCurrentEpoch] = useState<number | null>(null);
+  const [twinNames, setTwinNames] = useState<Record<string, string>>({});
+  const [renewEpochs, setRenewEpochs] = useState(DEFAULT_EPOCHS);
+  const [renewing, setRenewing] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { getSessionToken } = useWalletSession();
+
+  const refresh = useCallback(() => {
+    setExpiring(getExpiringBlobs());
+    setTrackedCount(getBlobLifetimes().length);
+    setCurrentEpoch(estimateCurrentEpoch());
+    setTwinNames(loadTwinNames());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleRenew = async (blob: ExpiringBlob) => {
+    setRenewing(blob.blobId);
+    setErrors(prev => ({ ...prev, [blob.blobId]: '' }));
+
+    try {
+      const authToken = await getSessionToken();
+      const result = await walrusService.renewBlob(blob.blobId, renewEpochs, { deletable: blob.deletable, authToken });
+      if (!result.success) {
+        setErrors(prev => ({ ...prev, [blob.blobId]: result.error || 'Renewal failed' }));
+      }
+    } catch (error: any) {
+      setErrors(prev => ({ ...prev, [blob.blobId]: error.message || 'Wallet sign-in failed' }));
+    }
+
+    setRenewing(null);
+    refresh();
+  };
+
+  return (
+    <div className="bg-[#1E1E1E] border border-[#262626] rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <HardDrive className="w-5 h-5 text-[#D97706]" />
+          <div>
+            <p className="text-sm text-[#F5F5F5]">
+              {trackedCount} stored blob{trackedCount === 1 ? '' : 's'}
+            </p>
+            <p className="text-xs text-[#525252]">
+              {currentEpoch === null ? 'Current epoch unknown until the next upload' : `Current epoch ≈ ${currentEpoch}`}
+            </p>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-[#A3A3A3]">
+          Renew for
+          <select
+            value={renewEpochs}
+            onChange={(e) => setRenewEpochs(Number(e.target.value))}
+            className="bg-[#141414] border border-[#404040] rounded-lg px-2 py-1 text-[#F5F5F5]"
+          >
+            {RENEW_OPTIONS.map(epochs => (
+              <option key={epochs} value={epochs}>{epochs} epochs</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {expiring.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-[#A3A3A3]">
+          <CheckCircle className="w-4 h-4 text-[#059669]" />
+          No blobs expire within {EXPIRY_WARNING_EPOCHS} epochs
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {expiring.map(blob => (
+            <div
+              key={blob.blobId}
+              className="bg-[#141414] border border-[#262626] p-3 rounded-lg flex items-center justify-between gap-4"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <AlertTriangle
+                  className={`w-5 h-5 flex-shrink-0 ${blob.epochsRemaining === 0 ? 'text-[#DC2626]' : 'text-[#D97706]'}`}
+                />
+                <div className="min-w-0">
+                  <p className="text-sm text-[#F5F5F5] truncate">
+                    {twinNames[blob.blobId] || 'Untitled blob'}
+                    {blob.deletable && <span className="ml-2 text-xs text-[#525252]">deletable</span>}
+                  </p>
+                  <p className="text-xs text-[#525252] font-mono truncate">{blob.blobId}</p>
+                  <p className={`text-xs ${blob.epochsRemaining === 0 ? 'text-[#DC2626]' : 'text-[#A3A3A3]'}`}>
+                    {formatTimeLeft(blob.epochsRemaining)} · ends at epoch {blob.endEpoch}
+                  </p>
+                  {errors[blob.blobId] && (
+                    <p className="text-xs text-[#DC2626]">{errors[blob.blobId]}</p>
+                  )}
+                </div>
+              </div>
+
+              <Button
+                variant="secondary"
+                size="small"
+                icon={RefreshCw}
+                iconPosition="left"
+                disabled={renewing !== null}
+                onClick={() => handleRenew(blob)}
+              >
+                {renewing === blob.blobId ? 'Renewing...' : 'Renew'}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
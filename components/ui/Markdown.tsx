@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+const headingStyles = [
+  'text-xl font-bold',
+  'text-lg font-bold',
+  'text-base font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-semibold',
+];
+
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'break':
+        return <br key={i} />;
+      case 'code':
+        return (
+          <code key={i} className="px-1.5 py-0.5 bg-[#141414] border border-[#262626] rounded text-[0.9em] font-mono text-[#FBBF24]">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={i} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={i} className="text-[#A3A3A3]">{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-[#D97706] underline underline-offset-2 hover:text-[#F59E0B] break-words"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[]): React.ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={i}>{renderInline(block.children)}</p>;
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+        return <Tag key={i} className={headingStyles[block.level - 1]}>{renderInline(block.children)}</Tag>;
+      }
+      case 'code':
+        return (
+          <pre key={i} className="p-3 bg-[#141414] border border-[#262626] rounded-lg overflow-x-auto text-sm">
+            <code className="font-mono text-[#E5E5E5]" data-lang={block.lang || undefined}>{block.text}</code>
+          </pre>
+        );
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j} className="space-y-2">{renderBlocks(item)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+          : <ul key={i} className="list-disc pl-6 space-y-1">{items}</ul>;
+      }
+      case 'blockquote':
+        return (
+          <blockquote key={i} className="border-l-2 border-[#D97706] pl-3 text-[#A3A3A3] space-y-2">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={i} className="overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, j) => (
+                    <th key={j} style={{ textAlign: block.align[j] ?? undefined }} className="px-3 py-1.5 border border-[#262626] bg-[#141414] font-semibold">
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, j) => (
+                  <tr key={j}>
+                    {row.map((cell, k) => (
+                      <td key={k} style={{ textAlign: block.align[k] ?? undefined }} className="px-3 py-1.5 border border-[#262626]">
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'hr':
+        return <hr key={i} className="border-[#262626]" />;
+    }
+  });
+}
+
+/**
+ * Renders model-written Markdown as React elements (no raw HTML, safe links only)
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ content, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className={`space-y-3 break-words ${className}`}>{renderBlocks(blocks)}</div>;
+};
@@ -3,3 +3,4 @@ export { Button } from './Button';
 export { Input, Textarea } from './Input';
 export { Card } from './Card';
 export { Modal } from './Modal';
+export { Markdown } from './Markdown';
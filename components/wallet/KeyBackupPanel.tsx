@@ -0,0 +1,320 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Download, Upload, Share2, KeyRound, Copy, Check, AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { useWalletKeyPair } from '@/hooks/useWalletKeyPair';
+import {
+  MIN_PASSPHRASE_LENGTH,
+  bytesToBase64,
+  combineKeyShares,
+  exportKeysWithPassphrase,
+  importKeysWithPassphrase,
+  openSealedShare,
+  sealShareForTrustee,
+  splitKeyIntoShares,
+} from '@/lib/encryption';
+import { fetchOwnedTwins, restoreTwins } from '@/lib/services/twinRecoveryService';
+import { suiClient } from '@/lib/sui/contract';
+
+type Tab = 'passphrase' | 'shares' | 'trustee';
+
+const inputClass = 'w-full bg-[#141414] border border-[#404040] rounded-lg px-3 py-2 text-sm text-[#F5F5F5] placeholder:text-[#525252] focus:border-[#D97706] outline-none';
+
+function loadTwinNames(): Record<string, string> {
+  try {
+    const twins: Array<{ id: string; name: string }> = JSON.parse(localStorage.getItem('aiTwins') || '[]');
+    return Object.fromEntries(twins.map(t => [t.id, t.name]));
+  } catch {
+    return {};
+  }
+}
+
+const CopyButton: React.FC<{ text: string }> = ({ text }) => {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      onClick={() => {
+        navigator.clipboard.writeText(text);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }}
+      className="p-1.5 hover:bg-[#252525] rounded transition-colors flex-shrink-0"
+      title="Copy"
+    >
+      {copied ? <Check className="w-4 h-4 text-[#059669]" /> : <Copy className="w-4 h-4 text-[#A3A3A3]" />}
+    </button>
+  );
+};
+
+export const KeyBackupPanel: React.FC = () => {
+  const keyVault = useKeyVault();
+  const { getKeyPair } = useWalletKeyPair();
+  const [tab, setTab] = useState<Tab>('passphrase');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  // Passphrase
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+
+  // Shares
+  const [twinKeys, setTwinKeys] = useState<Record<string, string>>({});
+  const [twinNames, setTwinNames] = useState<Record<string, string>>({});
+  const [shareTwinId, setShareTwinId] = useState('');
+  const [threshold, setThreshold] = useState(2);
+  const [shareCount, setShareCount] = useState(3);
+  const [trusteeKeys, setTrusteeKeys] = useState('');
+  const [shares, setShares] = useState<string[]>([]);
+  const [recoveryInput, setRecoveryInput] = useState('');
+
+  // Trustee
+  const [recoveryPublicKey, setRecoveryPublicKey] = useState('');
+  const [sealedShare, setSealedShare] = useState('');
+  const [openedShare, setOpenedShare] = useState('');
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      setStatus({ type: 'success', message: await action() });
+    } catch (error: any) {
+      console.error('Key backup action failed:', error);
+      setStatus({ type: 'error', message: error.message || 'Something went wrong' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * Put recovered keys in the vault and rebuild the twin list from the chain
+   */
+  const restore = async (keys: Record<string, string>): Promise<string> => {
+    for (const [twinId, key] of Object.entries(keys)) {
+      await keyVault.storeTwinKey(twinId, key);
+    }
+    const onChain = await fetchOwnedTwins(suiClient, keyVault.address!);
+    const { added, decrypted, failed } = await restoreTwins(onChain, keyVault.address!, keys);
+    return `Recovered ${Object.keys(keys).length} key(s), restored ${added} twin(s), decrypted ${decrypted}` +
+      (failed.length ? `. Could not decrypt: ${failed.join(', ')}` : '');
+  };
+
+  const handleExport = () => run(async () => {
+    if (passphrase !== confirmPassphrase) throw new Error('Passphrases do not match');
+    await keyVault.unlock();
+    const keys = await keyVault.getTwinKeys();
+    if (Object.keys(keys).length === 0) throw new Error('Your key vault is empty');
+
+    const backup = await exportKeysWithPassphrase(keys, passphrase);
+    const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ai-twin-keys-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    setPassphrase('');
+    setConfirmPassphrase('');
+    return `Exported ${Object.keys(keys).length} key(s). Keep the file and the passphrase separately.`;
+  });
+
+  const handleImport = () => run(async () => {
+    if (!backupFile) throw new Error('Choose a backup file first');
+    await keyVault.unlock();
+    const keys = await importKeysWithPassphrase(await backupFile.text(), passphrase);
+    setPassphrase('');
+    return restore(keys);
+  });
+
+  const loadShareSources = () => run(async () => {
+    await keyVault.unlock();
+    const keys = await keyVault.getTwinKeys();
+    setTwinKeys(keys);
+    setTwinNames(loadTwinNames());
+    setShareTwinId(Object.keys(keys)[0] ?? '');
+    return `${Object.keys(keys).length} key(s) available`;
+  });
+
+  const handleSplit = () => run(async () => {
+    const trustees = trusteeKeys.split('\n').map(line => line.trim()).filter(Boolean);
+    const count = trustees.length > 0 ? trustees.length : shareCount;
+    const plainShares = await splitKeyIntoShares(twinKeys[shareTwinId], shareTwinId, threshold, count);
+    setShares(trustees.length > 0
+      ? await Promise.all(plainShares.map((share, i) => sealShareForTrustee(share, trustees[i])))
+      : plainShares);
+    return `Created ${count} shares; any ${threshold} recover the key`;
+  });
+
+  const handleRecover = () => run(async () => {
+    await keyVault.unlock();
+    const { twinId, key } = await combineKeyShares(recoveryInput.split('\n'));
+    setRecoveryInput('');
+    return restore({ [twinId]: key });
+  });
+
+  const handleShowPublicKey = () => run(async () => {
+    const { publicKey } = await getKeyPair();
+    setRecoveryPublicKey(bytesToBase64(publicKey));
+    return 'Share this public key with creators who want you to hold a recovery share';
+  });
+
+  const handleOpenShare = () => run(async () => {
+    setOpenedShare(await openSealedShare(sealedShare, await getKeyPair()));
+    setSealedShare('');
+    return 'Share opened. Give it back to its owner only when they need to recover their key.';
+  });
+
+  if (!keyVault.address) return null;
+
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: 'passphrase', label: 'Passphrase Backup' },
+    { id: 'shares', label: 'Recovery Shares' },
+    { id: 'trustee', label: 'Trustee' },
+  ];
+
+  return (
+    <div className="bg-[#1E1E1E] border border-[#262626] rounded-xl p-6 space-y-5">
+      <div className="flex gap-2">
+        {tabs.map(t => (
+          <button
+            key={t.id}
+            onClick={() => { setTab(t.id); setStatus(null); }}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              tab === t.id ? 'bg-[#D97706]/10 border border-[#D97706] text-[#F5F5F5]' : 'border border-[#262626] text-[#A3A3A3] hover:text-[#F5F5F5]'
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'passphrase' && (
+        <div className="space-y-3">
+          <p className="text-sm text-[#A3A3A3]">
+            Encrypt every key in your vault under a passphrase (PBKDF2, {MIN_PASSPHRASE_LENGTH}+ characters), or restore from such a file.
+          </p>
+          <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Passphrase" className={inputClass} />
+          <input type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} placeholder="Confirm passphrase (export only)" className={inputClass} />
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="secondary" size="small" icon={Download} iconPosition="left" disabled={busy || passphrase.length < MIN_PASSPHRASE_LENGTH} onClick={handleExport}>
+              Export Keys
+            </Button>
+            <input type="file" accept="application/json" onChange={e => setBackupFile(e.target.files?.[0] ?? null)} className="text-xs text-[#A3A3A3]" />
+            <Button variant="secondary" size="small" icon={Upload} iconPosition="left" disabled={busy || !backupFile || !passphrase} onClick={handleImport}>
+              Restore
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {tab === 'shares' && (
+        <div className="space-y-4">
+          <p className="text-sm text-[#A3A3A3]">
+            Split a twin key into shares for people you trust. Any threshold of them can rebuild it; fewer reveal nothing.
+          </p>
+          {Object.keys(twinKeys).length === 0 ? (
+            <Button variant="secondary" size="small" icon={KeyRound} iconPosition="left" disabled={busy} onClick={loadShareSources}>
+              Load Keys from Vault
+            </Button>
+          ) : (
+            <div className="space-y-3">
+              <select value={shareTwinId} onChange={e => setShareTwinId(e.target.value)} className={inputClass}>
+                {Object.keys(twinKeys).map(id => (
+                  <option key={id} value={id}>{twinNames[id] || id}</option>
+                ))}
+              </select>
+              <div className="flex gap-3 text-sm text-[#A3A3A3]">
+                <label className="flex items-center gap-2">
+                  Threshold
+                  <input type="number" min={2} max={255} value={threshold} onChange={e => setThreshold(Number(e.target.value))} className={`${inputClass} w-20`} />
+                </label>
+                <label className="flex items-center gap-2">
+                  Shares
+                  <input type="number" min={2} max={255} value={shareCount} onChange={e => setShareCount(Number(e.target.value))} className={`${inputClass} w-20`} disabled={trusteeKeys.trim().length > 0} />
+                </label>
+              </div>
+              <textarea
+                value={trusteeKeys}
+                onChange={e => setTrusteeKeys(e.target.value)}
+                placeholder="Optional: trustee recovery public keys, one per line (each share is sealed to one trustee)"
+                rows={3}
+                className={inputClass}
+              />
+              <Button variant="secondary" size="small" icon={Share2} iconPosition="left" disabled={busy || !shareTwinId} onClick={handleSplit}>
+                Create Shares
+              </Button>
+              {shares.length > 0 && (
+                <div className="space-y-2">
+                  {shares.map((share, i) => (
+                    <div key={i} className="bg-[#141414] border border-[#262626] rounded-lg p-2 flex items-center gap-2">
+                      <span className="text-xs text-[#525252] flex-shrink-0">#{i + 1}</span>
+                      <span className="text-xs text-[#A3A3A3] font-mono truncate flex-1">{share}</span>
+                      <CopyButton text={share} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="border-t border-[#262626] pt-4 space-y-3">
+            <p className="text-sm text-[#F5F5F5]">Recover a key</p>
+            <textarea
+              value={recoveryInput}
+              onChange={e => setRecoveryInput(e.target.value)}
+              placeholder="Paste recovery shares, one per line"
+              rows={3}
+              className={inputClass}
+            />
+            <Button variant="secondary" size="small" icon={Upload} iconPosition="left" disabled={busy || !recoveryInput.trim()} onClick={handleRecover}>
+              Recover Key
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {tab === 'trustee' && (
+        <div className="space-y-3">
+          <p className="text-sm text-[#A3A3A3]">
+            Hold recovery shares for other creators. They seal shares to your recovery public key, so only your wallet can open them.
+          </p>
+          {recoveryPublicKey ? (
+            <div className="bg-[#141414] border border-[#262626] rounded-lg p-2 flex items-center gap-2">
+              <span className="text-xs text-[#A3A3A3] font-mono truncate flex-1">{recoveryPublicKey}</span>
+              <CopyButton text={recoveryPublicKey} />
+            </div>
+          ) : (
+            <Button variant="secondary" size="small" icon={KeyRound} iconPosition="left" disabled={busy} onClick={handleShowPublicKey}>
+              Show Recovery Public Key
+            </Button>
+          )}
+          <textarea
+            value={sealedShare}
+            onChange={e => setSealedShare(e.target.value)}
+            placeholder="Paste a share sealed to you"
+            rows={2}
+            className={inputClass}
+          />
+          <Button variant="secondary" size="small" disabled={busy || !sealedShare.trim()} onClick={handleOpenShare}>
+            Open Share
+          </Button>
+          {openedShare && (
+            <div className="bg-[#141414] border border-[#262626] rounded-lg p-2 flex items-center gap-2">
+              <span className="text-xs text-[#A3A3A3] font-mono truncate flex-1">{openedShare}</span>
+              <CopyButton text={openedShare} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {status && (
+        <div className={`flex items-center gap-2 text-sm ${status.type === 'success' ? 'text-[#059669]' : 'text-[#DC2626]'}`}>
+          {status.type === 'success' ? <CheckCircle className="w-4 h-4 flex-shrink-0" /> : <AlertCircle className="w-4 h-4 flex-shrink-0" />}
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+};
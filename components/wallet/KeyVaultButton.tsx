@@ -0,0 +1,41 @@
+'use client';
+
+import { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { useKeyVault } from '@/hooks/useKeyVault';
+
+export function KeyVaultButton() {
+  const { isUnlocked, unlock, lock } = useKeyVault();
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleClick = async () => {
+    if (isUnlocked) {
+      lock();
+      return;
+    }
+
+    setIsUnlocking(true);
+    try {
+      await unlock();
+    } catch (error) {
+      console.error('Key vault unlock failed:', error);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={isUnlocking}
+      className={`p-2.5 bg-[#1E1E1E] border rounded-lg transition-colors disabled:opacity-50 ${
+        isUnlocked
+          ? 'border-[#059669]/50 text-[#059669] hover:border-[#059669]'
+          : 'border-[#262626] text-[#A3A3A3] hover:border-[#D97706] hover:text-[#D97706]'
+      }`}
+      title={isUnlocked ? 'Key vault unlocked. Click to lock.' : 'Key vault locked. Click to unlock with your wallet.'}
+    >
+      {isUnlocked ? <Unlock className="w-5 h-5" /> : <Lock className="w-5 h-5" />}
+    </button>
+  );
+}
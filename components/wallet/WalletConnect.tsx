@@ -3,6 +3,8 @@
 import { ConnectButton, useCurrentAccount, useDisconnectWallet } from '@mysten/dapp-kit';
 import { Wallet, LogOut, Copy, Check } from 'lucide-react';
 import { useState, useEffect } from 'react';
+import { KeyVaultButton } from './KeyVaultButton';
+import { lockVault } from '@/lib/encryption/keyVault';
 
 export function WalletConnect() {
   const [mounted, setMounted] = useState(false);
@@ -61,6 +63,7 @@ export function WalletConnect() {
   }
 
   const handleDisconnect = () => {
+    lockVault();
     disconnect();
   };
 
@@ -90,6 +93,9 @@ export function WalletConnect() {
         </button>
       </div>
       
+      {/* Key Vault Lock */}
+      <KeyVaultButton />
+      
       {/* Disconnect Button */}
       <button
         onClick={handleDisconnect}
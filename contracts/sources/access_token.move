@@ -5,14 +5,20 @@ module ai_twin_marketplace::access_token {
     use sui::event;
     use sui::table::{Self, Table};
     use sui::clock::{Self, Clock};
+    use sui::dynamic_field;
     use std::string::{Self, String};
     use std::vector;
+    use ai_twin_marketplace::ai_twin_nft::{Self, AITwinRegistry};
 
     // ===== Constants =====
     const SECONDS_PER_DAY: u64 = 86400;
 
     // ===== Errors =====
     const ERROR_NOT_AUTHORIZED: u64 = 5;
+    const ERROR_INVALID_PUBLIC_KEY: u64 = 6;
+
+    // X25519 public keys, which buyers' data keys are wrapped to
+    const PUBLIC_KEY_LENGTH: u64 = 32;
 
     // ===== Structs =====
 
@@ -24,12 +30,38 @@ module ai_twin_marketplace::access_token {
         access_type: u8,
         granted_at: u64,
         expires_at: u64,
+        message_limit: u64, // LIMITED access allowance; 0 means no cap
+        token_limit: u64, // LIMITED access allowance; 0 means no cap
         encrypted_key: vector<u8>, // Encrypted decryption key for AI twin data
+        recipient_public_key: vector<u8>, // X25519 key `encrypted_key` is wrapped to
+        purchase_id: ID, // The AccessRequest this token fulfils; kept when the token is re-granted
         purchase_listing_id: ID,
         is_active: bool,
         original_seller: address,
     }
 
+    /// A buyer's request for a twin's data key, filed in the purchase transaction.
+    /// Owned by the seller until they grant it, which consumes the request.
+    public struct AccessRequest has key {
+        id: UID,
+        twin_id: String,
+        buyer: address,
+        buyer_public_key: vector<u8>,
+        access_type: u8,
+        duration_days: u64,
+        message_limit: u64,
+        token_limit: u64,
+        requested_at: u64,
+    }
+
+    /// Marks a token a re-grant replaced: a dynamic field of the AccessRegistry holding
+    /// the replacement's ID. Keyed by twin as well, so only the twin's owner can retire
+    /// its tokens.
+    public struct RetiredToken has copy, drop, store {
+        twin_id: String,
+        token_id: ID,
+    }
+
     /// Registry to track all access tokens
     public struct AccessRegistry has key {
         id: UID,
@@ -53,6 +85,15 @@ module ai_twin_marketplace::access_token {
         timestamp: u64,
     }
 
+    public struct AccessRequested has copy, drop {
+        request_id: ID,
+        twin_id: String,
+        buyer: address,
+        seller: address,
+        access_type: u8,
+        timestamp: u64,
+    }
+
     public struct AccessRevoked has copy, drop {
         token_id: ID,
         twin_id: String,
@@ -87,22 +128,30 @@ module ai_twin_marketplace::access_token {
         transfer::transfer(admin_cap, tx_context::sender(ctx));
     }
 
-    /// Mint access token after purchase (called by marketplace)
-    public fun mint_access_token(
+    /// Absolute expiry (seconds) of a term of `duration_days` starting now
+    fun expiry_after(duration_days: u64, clock: &Clock): u64 {
+        clock::timestamp_ms(clock) / 1000 + duration_days * SECONDS_PER_DAY
+    }
+
+    /// Mint an access token; only reachable through the owner-checked entry functions below
+    fun mint_access_token(
         registry: &mut AccessRegistry,
         twin_id: vector<u8>,
         owner: address,
         access_type: u8,
-        duration_days: u64,
+        expires_at: u64,
+        message_limit: u64,
+        token_limit: u64,
         encrypted_key: vector<u8>,
+        recipient_public_key: vector<u8>,
+        purchase_id: ID,
         listing_id: ID,
         original_seller: address,
         clock: &Clock,
         ctx: &mut TxContext
     ): AccessToken {
         let current_time = clock::timestamp_ms(clock) / 1000; // Convert to seconds
-        let expires_at = current_time + (duration_days * SECONDS_PER_DAY);
-        
+
         let twin_id_string = string::utf8(twin_id);
 
         let token = AccessToken {
@@ -112,7 +161,11 @@ module ai_twin_marketplace::access_token {
             access_type,
             granted_at: current_time,
             expires_at,
+            message_limit,
+            token_limit,
             encrypted_key,
+            recipient_public_key,
+            purchase_id,
             purchase_listing_id: listing_id,
             is_active: true,
             original_seller,
@@ -143,26 +196,44 @@ module ai_twin_marketplace::access_token {
         token
     }
 
-    /// Mint and transfer access token (entry function)
+    /// Abort unless the sender is the twin's registered owner, who alone holds its data key
+    fun assert_twin_owner(twin_registry: &AITwinRegistry, twin_id: String, ctx: &TxContext) {
+        assert!(
+            ai_twin_nft::get_twin_owner(twin_registry, twin_id) == tx_context::sender(ctx),
+            ERROR_NOT_AUTHORIZED
+        );
+    }
+
+    /// Mint and transfer access token (entry function; the twin's owner only)
     public entry fun mint_and_transfer_access(
         registry: &mut AccessRegistry,
+        twin_registry: &AITwinRegistry,
         twin_id: vector<u8>,
         owner: address,
         access_type: u8,
         duration_days: u64,
+        message_limit: u64,
+        token_limit: u64,
         encrypted_key: vector<u8>,
+        recipient_public_key: vector<u8>,
+        purchase_id: ID,
         listing_id: ID,
-        original_seller: address,
         clock: &Clock,
         ctx: &mut TxContext
     ) {
+        assert_twin_owner(twin_registry, string::utf8(twin_id), ctx);
+        let original_seller = tx_context::sender(ctx);
         let token = mint_access_token(
             registry,
             twin_id,
             owner,
             access_type,
-            duration_days,
+            expiry_after(duration_days, clock),
+            message_limit,
+            token_limit,
             encrypted_key,
+            recipient_public_key,
+            purchase_id,
             listing_id,
             original_seller,
             clock,
@@ -172,6 +243,160 @@ module ai_twin_marketplace::access_token {
         transfer::public_transfer(token, owner);
     }
 
+    /// Replace a token after a key rotation (the twin's owner only). The new token keeps
+    /// the old one's exact `expires_at`, allowance and purchase; the old one is retired.
+    public entry fun regrant_access(
+        registry: &mut AccessRegistry,
+        twin_registry: &AITwinRegistry,
+        twin_id: vector<u8>,
+        owner: address,
+        access_type: u8,
+        expires_at: u64,
+        message_limit: u64,
+        token_limit: u64,
+        encrypted_key: vector<u8>,
+        recipient_public_key: vector<u8>,
+        purchase_id: ID,
+        listing_id: ID,
+        superseded: ID,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let twin_id_string = string::utf8(twin_id);
+        assert_twin_owner(twin_registry, twin_id_string, ctx);
+        let original_seller = tx_context::sender(ctx);
+        let token = mint_access_token(
+            registry,
+            twin_id,
+            owner,
+            access_type,
+            expires_at,
+            message_limit,
+            token_limit,
+            encrypted_key,
+            recipient_public_key,
+            purchase_id,
+            listing_id,
+            original_seller,
+            clock,
+            ctx
+        );
+
+        // Aborts if the token was already retired, so each one is replaced once
+        dynamic_field::add(
+            &mut registry.id,
+            RetiredToken { twin_id: twin_id_string, token_id: superseded },
+            object::id(&token)
+        );
+        if (table::contains(&registry.active_accesses, owner)) {
+            let owner_tokens = table::borrow_mut(&mut registry.active_accesses, owner);
+            let (exists, index) = vector::index_of(owner_tokens, &superseded);
+            if (exists) {
+                vector::remove(owner_tokens, index);
+            };
+        };
+
+        event::emit(AccessRevoked {
+            token_id: superseded,
+            twin_id: twin_id_string,
+            owner,
+            reason: string::utf8(b"replaced by a re-grant"),
+            timestamp: clock::timestamp_ms(clock) / 1000,
+        });
+
+        transfer::public_transfer(token, owner);
+    }
+
+    /// File a request for the twin's data key (called by the buyer with the payment)
+    /// The buyer chooses the terms here; the seller checks them against the listing
+    /// and the payment before granting
+    public entry fun request_access(
+        twin_id: vector<u8>,
+        seller: address,
+        buyer_public_key: vector<u8>,
+        access_type: u8,
+        duration_days: u64,
+        message_limit: u64,
+        token_limit: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert!(vector::length(&buyer_public_key) == PUBLIC_KEY_LENGTH, ERROR_INVALID_PUBLIC_KEY);
+
+        let buyer = tx_context::sender(ctx);
+        let current_time = clock::timestamp_ms(clock) / 1000;
+        let request = AccessRequest {
+            id: object::new(ctx),
+            twin_id: string::utf8(twin_id),
+            buyer,
+            buyer_public_key,
+            access_type,
+            duration_days,
+            message_limit,
+            token_limit,
+            requested_at: current_time,
+        };
+
+        // Emit event
+        event::emit(AccessRequested {
+            request_id: object::id(&request),
+            twin_id: request.twin_id,
+            buyer,
+            seller,
+            access_type,
+            timestamp: current_time,
+        });
+
+        transfer::transfer(request, seller);
+    }
+
+    /// Grant a request: mint the buyer's token with the data key wrapped to their public key
+    /// (the twin's owner only, so a buyer can't file a request to themselves and grant it)
+    public entry fun grant_access(
+        registry: &mut AccessRegistry,
+        twin_registry: &AITwinRegistry,
+        request: AccessRequest,
+        encrypted_key: vector<u8>,
+        listing_id: ID,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let seller = tx_context::sender(ctx);
+        let purchase_id = object::id(&request);
+        let AccessRequest {
+            id,
+            twin_id,
+            buyer,
+            buyer_public_key,
+            access_type,
+            duration_days,
+            message_limit,
+            token_limit,
+            requested_at: _,
+        } = request;
+        object::delete(id);
+        assert_twin_owner(twin_registry, twin_id, ctx);
+
+        let token = mint_access_token(
+            registry,
+            *string::bytes(&twin_id),
+            buyer,
+            access_type,
+            expiry_after(duration_days, clock),
+            message_limit,
+            token_limit,
+            encrypted_key,
+            buyer_public_key,
+            purchase_id,
+            listing_id,
+            seller,
+            clock,
+            ctx
+        );
+
+        transfer::public_transfer(token, buyer);
+    }
+
     /// Revoke access token (only by original seller or admin)
     public entry fun revoke_access(
         _admin: &AdminCap,
@@ -265,7 +490,28 @@ module ai_twin_marketplace::access_token {
         token.is_active
     }
 
+    /// Whether a re-grant replaced the token (see regrant_access)
+    public fun is_retired(registry: &AccessRegistry, token: &AccessToken): bool {
+        dynamic_field::exists_(&registry.id, RetiredToken { twin_id: token.twin_id, token_id: object::id(token) })
+    }
+
     public fun get_access_type(token: &AccessToken): u8 {
         token.access_type
     }
+
+    public fun get_original_seller(token: &AccessToken): address {
+        token.original_seller
+    }
+
+    public fun get_recipient_public_key(token: &AccessToken): vector<u8> {
+        token.recipient_public_key
+    }
+
+    public fun get_message_limit(token: &AccessToken): u64 {
+        token.message_limit
+    }
+
+    public fun get_token_limit(token: &AccessToken): u64 {
+        token.token_limit
+    }
 }
\ No newline at end of file
@@ -56,6 +56,14 @@ module ai_twin_marketplace::ai_twin_nft {
         timestamp: u64,
     }
 
+    public struct TrainingDataUpdated has copy, drop {
+        twin_id: String,
+        nft_id: ID,
+        old_blob_id: String,
+        new_blob_id: String,
+        timestamp: u64,
+    }
+
     // ===== Functions =====
 
     /// Initialize the registry (called once on publish)
@@ -144,6 +152,28 @@ module ai_twin_marketplace::ai_twin_nft {
         transfer::public_transfer(nft, recipient);
     }
 
+    /// Point the twin at new training data (e.g. re-encrypted after a key rotation)
+    /// Only the NFT owner can call this, since the NFT is an owned object
+    public entry fun update_training_data(
+        nft: &mut AITwinNFT,
+        training_data_blob_id: vector<u8>,
+        metadata: vector<u8>,
+        ctx: &mut TxContext
+    ) {
+        let old_blob_id = nft.training_data_blob_id;
+        nft.training_data_blob_id = string::utf8(training_data_blob_id);
+        nft.metadata = metadata;
+
+        // Emit event
+        event::emit(TrainingDataUpdated {
+            twin_id: nft.twin_id,
+            nft_id: object::id(nft),
+            old_blob_id,
+            new_blob_id: nft.training_data_blob_id,
+            timestamp: tx_context::epoch(ctx),
+        });
+    }
+
     /// Burn AI Twin NFT (delete)
     public entry fun burn_twin(
         registry: &mut AITwinRegistry,
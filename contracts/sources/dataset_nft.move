@@ -0,0 +1,184 @@
+module ai_twin_marketplace::dataset_nft {
+    use sui::object::{Self, UID, ID};
+    use sui::tx_context::{Self, TxContext};
+    use sui::transfer;
+    use sui::event;
+    use std::string::{Self, String};
+
+    // ===== Errors =====
+    const ERROR_INVALID_SCORE: u64 = 1;
+    const ERROR_INVALID_BIAS_LEVEL: u64 = 2;
+    const ERROR_MISSING_PROVENANCE: u64 = 3;
+
+    // ===== Constants =====
+    const MAX_SCORE: u64 = 100;
+
+    // ===== Structs =====
+
+    /// NFT certifying a dataset and its AI quality analysis
+    public struct DatasetNFT has key, store {
+        id: UID,
+        dataset_title: String,
+        blob_id: String,
+        quality_score: u64,
+        diversity_score: u64,
+        accuracy_score: u64,
+        completeness_score: u64,
+        consistency_score: u64,
+        bias_level: String,
+        timestamp: u64,
+        dataset_type: String,
+        total_records: u64,
+        image_url: String,
+        analysis_model: String, // provider/model that produced the scores
+        prompt_version: String, // version of the analysis prompt
+    }
+
+    // ===== Events =====
+
+    public struct DatasetMinted has copy, drop {
+        nft_id: ID,
+        owner: address,
+        dataset_title: String,
+        blob_id: String,
+        quality_score: u64,
+        analysis_model: String,
+        prompt_version: String,
+        timestamp: u64,
+    }
+
+    public struct QualityScoresUpdated has copy, drop {
+        nft_id: ID,
+        quality_score: u64,
+        bias_level: String,
+        analysis_model: String,
+        prompt_version: String,
+        timestamp: u64,
+    }
+
+    // ===== Functions =====
+
+    /// Mint a Dataset NFT to the sender
+    public entry fun mint_dataset_nft(
+        dataset_title: String,
+        blob_id: String,
+        quality_score: u64,
+        diversity_score: u64,
+        accuracy_score: u64,
+        completeness_score: u64,
+        consistency_score: u64,
+        bias_level: String,
+        timestamp: u64,
+        dataset_type: String,
+        total_records: u64,
+        image_url: String,
+        analysis_model: String,
+        prompt_version: String,
+        ctx: &mut TxContext
+    ) {
+        assert_scores(quality_score, diversity_score, accuracy_score, completeness_score, consistency_score);
+        assert_bias_level(&bias_level);
+        assert_provenance(&analysis_model, &prompt_version);
+
+        let owner = tx_context::sender(ctx);
+        let nft = DatasetNFT {
+            id: object::new(ctx),
+            dataset_title,
+            blob_id,
+            quality_score,
+            diversity_score,
+            accuracy_score,
+            completeness_score,
+            consistency_score,
+            bias_level,
+            timestamp,
+            dataset_type,
+            total_records,
+            image_url,
+            analysis_model,
+            prompt_version,
+        };
+
+        event::emit(DatasetMinted {
+            nft_id: object::id(&nft),
+            owner,
+            dataset_title: nft.dataset_title,
+            blob_id: nft.blob_id,
+            quality_score,
+            analysis_model: nft.analysis_model,
+            prompt_version: nft.prompt_version,
+            timestamp: tx_context::epoch(ctx),
+        });
+
+        transfer::public_transfer(nft, owner);
+    }
+
+    /// Replace the quality scores with a new analysis
+    public entry fun update_quality_scores(
+        nft: &mut DatasetNFT,
+        quality_score: u64,
+        diversity_score: u64,
+        accuracy_score: u64,
+        completeness_score: u64,
+        consistency_score: u64,
+        bias_level: String,
+        analysis_model: String,
+        prompt_version: String,
+        ctx: &mut TxContext
+    ) {
+        assert_scores(quality_score, diversity_score, accuracy_score, completeness_score, consistency_score);
+        assert_bias_level(&bias_level);
+        assert_provenance(&analysis_model, &prompt_version);
+
+        nft.quality_score = quality_score;
+        nft.diversity_score = diversity_score;
+        nft.accuracy_score = accuracy_score;
+        nft.completeness_score = completeness_score;
+        nft.consistency_score = consistency_score;
+        nft.bias_level = bias_level;
+        nft.analysis_model = analysis_model;
+        nft.prompt_version = prompt_version;
+
+        event::emit(QualityScoresUpdated {
+            nft_id: object::id(nft),
+            quality_score,
+            bias_level: nft.bias_level,
+            analysis_model: nft.analysis_model,
+            prompt_version: nft.prompt_version,
+            timestamp: tx_context::epoch(ctx),
+        });
+    }
+
+    fun assert_scores(quality: u64, diversity: u64, accuracy: u64, completeness: u64, consistency: u64) {
+        assert!(quality <= MAX_SCORE, ERROR_INVALID_SCORE);
+        assert!(diversity <= MAX_SCORE, ERROR_INVALID_SCORE);
+        assert!(accuracy <= MAX_SCORE, ERROR_INVALID_SCORE);
+        assert!(completeness <= MAX_SCORE, ERROR_INVALID_SCORE);
+        assert!(consistency <= MAX_SCORE, ERROR_INVALID_SCORE);
+    }
+
+    fun assert_bias_level(bias_level: &String) {
+        assert!(
+            *bias_level == string::utf8(b"Low")
+                || *bias_level == string::utf8(b"Medium")
+                || *bias_level == string::utf8(b"High"),
+            ERROR_INVALID_BIAS_LEVEL
+        );
+    }
+
+    /// Scores without a model and prompt version can't be traced back to an analysis
+    fun assert_provenance(analysis_model: &String, prompt_version: &String) {
+        assert!(!string::is_empty(analysis_model), ERROR_MISSING_PROVENANCE);
+        assert!(!string::is_empty(prompt_version), ERROR_MISSING_PROVENANCE);
+    }
+
+    // ===== View Functions =====
+
+    public fun analysis_model(nft: &DatasetNFT): String {
+        nft.analysis_model
+    }
+
+    public fun prompt_version(nft: &DatasetNFT): String {
+        nft.prompt_version
+    }
+}
@@ -62,6 +62,8 @@ export function useDatasetNFT() {
     dataset_type: string;
     total_records: number;
     image_url?: string;
+    analysis_model: string;
+    prompt_version: string;
   }) => {
     if (!currentAccount) {
       throw new Error('Wallet not connected');
@@ -110,6 +112,8 @@ export function useDatasetNFT() {
     completeness_score: number;
     consistency_score: number;
     bias_level: string;
+    analysis_model: string;
+    prompt_version: string;
   }) => {
     if (!currentAccount) {
       throw new Error('Wallet not connected');
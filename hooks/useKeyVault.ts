@@ -0,0 +1,60 @@
+/**
+ * React Hook for the Twin Key Vault
+ */
+
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
+import {
+  getTwinKey,
+  getTwinKeys,
+  isVaultUnlocked,
+  lockVault,
+  storeTwinKey,
+  subscribeVault,
+  unlockVault,
+} from '@/lib/encryption/keyVault';
+
+export function useKeyVault() {
+  const currentAccount = useCurrentAccount();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const address = currentAccount?.address;
+
+  const isUnlocked = useSyncExternalStore(
+    subscribeVault,
+    () => (address ? isVaultUnlocked(address) : false),
+    () => false
+  );
+
+  const requireAddress = useCallback((): string => {
+    if (!address) {
+      throw new Error('Please connect your wallet first');
+    }
+    return address;
+  }, [address]);
+
+  /**
+   * Unlock with a wallet signature (no prompt if already unlocked)
+   */
+  const unlock = useCallback(async () => {
+    await unlockVault(requireAddress(), message => signPersonalMessage({ message }));
+  }, [requireAddress, signPersonalMessage]);
+
+  const lock = useCallback(() => {
+    if (address) lockVault(address);
+  }, [address]);
+
+  return {
+    address,
+    isUnlocked,
+    unlock,
+    lock,
+    getTwinKey: useCallback((twinId: string) => getTwinKey(requireAddress(), twinId), [requireAddress]),
+    getTwinKeys: useCallback(() => getTwinKeys(requireAddress()), [requireAddress]),
+    storeTwinKey: useCallback(
+      (twinId: string, keyString: string) => storeTwinKey(requireAddress(), twinId, keyString),
+      [requireAddress]
+    ),
+  };
+}
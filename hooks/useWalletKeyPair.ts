@@ -0,0 +1,38 @@
+/**
+ * React Hook for the Wallet's Encryption Key Pair
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
+import { deriveWalletKeyPair, type WalletKeyPair } from '@/lib/encryption/envelope';
+
+// Derived key pairs stay in memory only; the private key is never persisted
+const keyPairs = new Map<string, Promise<WalletKeyPair>>();
+
+export function useWalletKeyPair() {
+  const currentAccount = useCurrentAccount();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const address = currentAccount?.address;
+
+  /**
+   * X25519 key pair for the connected wallet (prompts for a signature once per page load,
+   * twice the first time a wallet derives it)
+   */
+  const getKeyPair = useCallback(async (): Promise<WalletKeyPair> => {
+    if (!address) {
+      throw new Error('Please connect your wallet first');
+    }
+
+    let keyPair = keyPairs.get(address);
+    if (!keyPair) {
+      keyPair = deriveWalletKeyPair(address, message => signPersonalMessage({ message }));
+      keyPairs.set(address, keyPair);
+      keyPair.catch(() => keyPairs.delete(address));
+    }
+    return keyPair;
+  }, [address, signPersonalMessage]);
+
+  return { address, getKeyPair };
+}
@@ -0,0 +1,31 @@
+/**
+ * React Hook for Wallet Sessions
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
+import { clearWalletSession, getWalletSessionToken } from '@/lib/auth/walletSessionClient';
+
+export function useWalletSession() {
+  const currentAccount = useCurrentAccount();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const address = currentAccount?.address;
+
+  /**
+   * Session token for the connected wallet (prompts for a signature at most once per session)
+   */
+  const getSessionToken = useCallback(async (): Promise<string> => {
+    if (!address) {
+      throw new Error('Please connect your wallet first');
+    }
+    return getWalletSessionToken(address, message => signPersonalMessage({ message }));
+  }, [address, signPersonalMessage]);
+
+  return {
+    address,
+    getSessionToken,
+    clearSession: clearWalletSession,
+  };
+}
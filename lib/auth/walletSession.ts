@@ -0,0 +1,147 @@
+/**
+ * Wallet Sessions (server side)
+ * Proves that a request comes from the holder of a Sui wallet without
+ * asking for a signature on every call.
+ *
+ * 1. Client asks for a challenge for its address
+ * 2. Wallet signs the challenge as a personal message
+ * 3. Server checks the signature and returns a session token
+ * 4. Client sends the token as `Authorization: Bearer <token>`
+ *
+ * Challenges and tokens are HMAC-signed with WALLET_SESSION_SECRET, so the
+ * server keeps no session state. Use from API routes only.
+ */
+
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { fromBase64, isValidSuiAddress, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+
+const CHALLENGE_TITLE = 'Sign in to AI Twins';
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class WalletSessionError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Wallet session rejected: ${reason}`);
+    this.name = 'WalletSessionError';
+  }
+}
+
+export interface WalletSession {
+  address: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+function getSecret(): Uint8Array {
+  const secret = process.env.WALLET_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('WALLET_SESSION_SECRET is not configured (32+ characters required)');
+  }
+  return encoder.encode(secret);
+}
+
+function sign(value: string): string {
+  return bytesToHex(hmac(sha256, getSecret(), encoder.encode(value)));
+}
+
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function parseAddress(address: string): string {
+  const normalized = normalizeSuiAddress(address);
+  if (!isValidSuiAddress(normalized)) {
+    throw new WalletSessionError('invalid address');
+  }
+  return normalized;
+}
+
+/**
+ * Message the wallet has to sign; the nonce ties it to this server and time
+ */
+export function createChallenge(address: string, now: number = Date.now()): { message: string; expiresAt: number } {
+  const normalized = parseAddress(address);
+  const issued = new Date(now).toISOString();
+
+  return {
+    message: [
+      CHALLENGE_TITLE,
+      `Address: ${normalized}`,
+      `Issued: ${issued}`,
+      `Nonce: ${sign(`challenge|${normalized}|${issued}`)}`,
+    ].join('\n'),
+    expiresAt: now + CHALLENGE_TTL_MS,
+  };
+}
+
+/**
+ * Check a signed challenge and issue a session token for its address
+ */
+export async function createSession(
+  message: string,
+  signature: string,
+  now: number = Date.now()
+): Promise<{ token: string; session: WalletSession }> {
+  const [title, addressLine, issuedLine, nonceLine] = message.split('\n');
+  const address = addressLine?.replace(/^Address: /, '');
+  const issued = issuedLine?.replace(/^Issued: /, '');
+  const nonce = nonceLine?.replace(/^Nonce: /, '');
+
+  if (title !== CHALLENGE_TITLE || !address || !issued || !nonce) {
+    throw new WalletSessionError('malformed challenge');
+  }
+  if (!safeEqual(nonce, sign(`challenge|${address}|${issued}`))) {
+    throw new WalletSessionError('challenge was not issued by this server');
+  }
+  const issuedAt = Date.parse(issued);
+  if (!Number.isFinite(issuedAt) || now - issuedAt > CHALLENGE_TTL_MS || issuedAt - now > 60_000) {
+    throw new WalletSessionError('challenge expired');
+  }
+
+  try {
+    await verifyPersonalMessageSignature(encoder.encode(message), signature, { address });
+  } catch {
+    throw new WalletSessionError('invalid signature');
+  }
+
+  const session: WalletSession = { address, issuedAt: now, expiresAt: now + SESSION_TTL_MS };
+  const payload = toBase64(encoder.encode(JSON.stringify(session)));
+  return { token: `${payload}.${sign(`session|${payload}`)}`, session };
+}
+
+/**
+ * Validate a session token and return its session
+ */
+export function verifySessionToken(token: string, now: number = Date.now()): WalletSession {
+  const [payload, mac] = token.split('.');
+  if (!payload || !mac || !safeEqual(mac, sign(`session|${payload}`))) {
+    throw new WalletSessionError('invalid session token');
+  }
+
+  const session: WalletSession = JSON.parse(decoder.decode(fromBase64(payload)));
+  if (session.expiresAt <= now) {
+    throw new WalletSessionError('session expired');
+  }
+  return session;
+}
+
+/**
+ * Session of the wallet behind a request (`Authorization: Bearer <token>`)
+ */
+export function getRequestSession(request: Request): WalletSession {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer (.+)$/i);
+  if (!match) {
+    throw new WalletSessionError('missing session token');
+  }
+  return verifySessionToken(match[1].trim());
+}
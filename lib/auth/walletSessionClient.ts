@@ -0,0 +1,76 @@
+/**
+ * Wallet Sessions (client side)
+ * Signs the server's challenge once and caches the session token in
+ * localStorage until shortly before it expires.
+ */
+
+const SESSION_STORAGE_KEY = 'walletSession';
+// Refresh a little early so a token never expires mid-upload
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+export type SignPersonalMessage = (message: Uint8Array) => Promise<{ signature: string }>;
+
+interface CachedSession {
+  address: string;
+  token: string;
+  expiresAt: number;
+}
+
+function loadSession(): CachedSession | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cached token for an address, if it is still valid
+ */
+export function getCachedSessionToken(address: string): string | null {
+  const session = loadSession();
+  if (!session || session.address.toLowerCase() !== address.toLowerCase()) return null;
+  return session.expiresAt - EXPIRY_MARGIN_MS > Date.now() ? session.token : null;
+}
+
+/**
+ * Session token for a wallet, asking it to sign a challenge when needed
+ */
+export async function getWalletSessionToken(
+  address: string,
+  signPersonalMessage: SignPersonalMessage
+): Promise<string> {
+  const cached = getCachedSessionToken(address);
+  if (cached) return cached;
+
+  const challengeResponse = await fetch(`/api/auth?address=${encodeURIComponent(address)}`);
+  const challenge = await challengeResponse.json();
+  if (!challengeResponse.ok) {
+    throw new Error(challenge.error || 'Failed to get sign-in challenge');
+  }
+
+  const { signature } = await signPersonalMessage(new TextEncoder().encode(challenge.message));
+
+  const sessionResponse = await fetch('/api/auth', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message: challenge.message, signature }),
+  });
+  const session = await sessionResponse.json();
+  if (!sessionResponse.ok) {
+    throw new Error(session.error || 'Wallet sign-in failed');
+  }
+
+  const cachedSession: CachedSession = { address, token: session.token, expiresAt: session.expiresAt };
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(cachedSession));
+  return session.token;
+}
+
+/**
+ * Forget the cached session (e.g. after a 401 or a wallet switch)
+ */
+export function clearWalletSession() {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+}
@@ -1,8 +1,60 @@
 /**
  * Client-side Encryption Service
  * Using Web Crypto API for AES-256-GCM
+ *
+ * Payloads are written as self-describing containers (lib/encryption/container.ts)
+ * carrying the IV, key ID and associated data next to the ciphertext. Legacy
+ * `{encrypted, iv}` pairs (raw base64 ciphertext) still decrypt.
+ *
+ * Large binary data (Uint8Array, Blob, ReadableStream) is encrypted frame by
+ * frame in lib/encryption/streaming.ts.
+ *
+ * Twin keys can be backed up under a passphrase (PBKDF2) or split into Shamir
+ * recovery shares (lib/encryption/shamir.ts) for trusted wallets to hold.
  */
 
+import {
+  ALGORITHMS,
+  buildContainerHeader,
+  isContainer,
+  parseContainer,
+  serializeContainer,
+} from '@/lib/encryption/container';
+import { combineShares, splitSecret } from '@/lib/encryption/shamir';
+import { unwrapKey, wrapKey, type WalletKeyPair } from '@/lib/encryption/envelope';
+
+export {
+  decryptBlob,
+  decryptBytes,
+  decryptStream,
+  encryptBlob,
+  encryptBytes,
+  encryptStream,
+  generateNoncePrefix,
+  StreamDecryptionError,
+} from '@/lib/encryption/streaming';
+
+// Characters per String.fromCharCode call; spreading a whole payload overflows the stack
+const BASE64_BATCH = 0x8000;
+
+/**
+ * Base64-encode bytes of any size
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_BATCH) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_BATCH));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
 /**
  * Generate encryption key
  */
@@ -22,14 +74,14 @@ export async function generateEncryptionKey(): Promise<CryptoKey> {
  */
 export async function exportKey(key: CryptoKey): Promise<string> {
   const exported = await crypto.subtle.exportKey('raw', key);
-  return btoa(String.fromCharCode(...new Uint8Array(exported)));
+  return bytesToBase64(new Uint8Array(exported));
 }
 
 /**
  * Import key from string
  */
 export async function importKey(keyString: string): Promise<CryptoKey> {
-  const keyData = Uint8Array.from(atob(keyString), c => c.charCodeAt(0));
+  const keyData = base64ToBytes(keyString);
   return await crypto.subtle.importKey(
     'raw',
     keyData,
@@ -43,83 +95,362 @@ export async function importKey(keyString: string): Promise<CryptoKey> {
 }
 
 /**
- * Encrypt data
+ * Short key fingerprint (first 8 bytes of SHA-256 of the raw key), stored in containers
+ * so a wrong key is reported as such instead of as corrupted data
  */
-export async function encryptData(
-  data: string,
-  key: CryptoKey
-): Promise<{ encrypted: string; iv: string }> {
-  const encoder = new TextEncoder();
-  const dataBuffer = encoder.encode(data);
-  
+export async function computeKeyId(key: CryptoKey): Promise<string> {
+  const raw = await crypto.subtle.exportKey('raw', key);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+  return Array.from(digest.subarray(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toBytes(data: string | Uint8Array): Uint8Array<ArrayBuffer> {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+}
+
+/**
+ * Encrypt into a binary container
+ * @param aad - Optional associated data (e.g. the twin ID), stored in clear but authenticated
+ */
+export async function encryptToContainer(
+  data: string | Uint8Array,
+  key: CryptoKey,
+  aad?: string | Uint8Array
+): Promise<Uint8Array<ArrayBuffer>> {
   const iv = crypto.getRandomValues(new Uint8Array(12));
-  
+  const header = buildContainerHeader({
+    algorithm: ALGORITHMS.AES_256_GCM,
+    iv,
+    keyId: await computeKeyId(key),
+    aad: aad === undefined ? undefined : toBytes(aad),
+  });
+
   const encryptedBuffer = await crypto.subtle.encrypt(
     {
       name: 'AES-GCM',
       iv: iv,
+      additionalData: header,
+    },
+    key,
+    toBytes(data)
+  );
+
+  return serializeContainer(header, new Uint8Array(encryptedBuffer));
+}
+
+/**
+ * Decrypt a binary container
+ */
+export async function decryptContainer(
+  bytes: Uint8Array,
+  key: CryptoKey
+): Promise<{ plaintext: Uint8Array<ArrayBuffer>; aad: Uint8Array<ArrayBuffer>; keyId: string }> {
+  const container = parseContainer(bytes);
+
+  const keyId = await computeKeyId(key);
+  if (container.keyId && container.keyId !== keyId) {
+    throw new Error(`Ciphertext was encrypted with key ${container.keyId}, not ${keyId}`);
+  }
+
+  // parseContainer only accepts known algorithms; AES-256-GCM is the only one so far
+  const decryptedBuffer = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: container.iv,
+      additionalData: container.header,
     },
     key,
-    dataBuffer
+    container.ciphertext
   );
 
+  return { plaintext: new Uint8Array(decryptedBuffer), aad: container.aad, keyId: container.keyId };
+}
+
+/**
+ * Encrypt data
+ * `encrypted` is a base64 container; `iv` is returned for callers that still store it
+ */
+export async function encryptData(
+  data: string,
+  key: CryptoKey,
+  aad?: string
+): Promise<{ encrypted: string; iv: string }> {
+  const container = await encryptToContainer(data, key, aad);
+
   return {
-    encrypted: btoa(String.fromCharCode(...new Uint8Array(encryptedBuffer))),
-    iv: btoa(String.fromCharCode(...iv)),
+    encrypted: bytesToBase64(container),
+    iv: bytesToBase64(parseContainer(container).iv),
   };
 }
 
 /**
  * Decrypt data
+ * Accepts a container (base64 or raw bytes) or a legacy base64 ciphertext plus its IV
  */
 export async function decryptData(
-  encrypted: string,
+  encrypted: string | Uint8Array,
   key: CryptoKey,
-  iv: string
+  iv?: string
 ): Promise<string> {
-  const encryptedData = Uint8Array.from(atob(encrypted), c => c.charCodeAt(0));
-  const ivData = Uint8Array.from(atob(iv), c => c.charCodeAt(0));
+  const encryptedData = typeof encrypted === 'string' ? base64ToBytes(encrypted) : encrypted;
+  const decoder = new TextDecoder();
+
+  if (isContainer(encryptedData)) {
+    const { plaintext } = await decryptContainer(encryptedData, key);
+    return decoder.decode(plaintext);
+  }
 
+  if (!iv) {
+    throw new Error('Legacy ciphertext needs its IV to decrypt');
+  }
   const decryptedBuffer = await crypto.subtle.decrypt(
     {
       name: 'AES-GCM',
-      iv: ivData,
+      iv: base64ToBytes(iv),
     },
     key,
-    encryptedData
+    new Uint8Array(encryptedData)
   );
 
-  const decoder = new TextDecoder();
   return decoder.decode(decryptedBuffer);
 }
 
 /**
  * Generate key pair and encrypt data in one go
  */
-export async function encryptDataWithNewKey(data: string): Promise<{
+export async function encryptDataWithNewKey(data: string, aad?: string): Promise<{
   encrypted: string;
   iv: string;
   key: string;
+  keyId: string;
 }> {
   const key = await generateEncryptionKey();
-  const { encrypted, iv } = await encryptData(data, key);
+  const { encrypted, iv } = await encryptData(data, key, aad);
   const exportedKey = await exportKey(key);
 
   return {
     encrypted,
     iv,
     key: exportedKey,
+    keyId: await computeKeyId(key),
   };
 }
 
 /**
  * Decrypt data with key string
+ * `iv` is only needed for legacy ciphertexts written before containers
  */
 export async function decryptDataWithKeyString(
-  encrypted: string,
+  encrypted: string | Uint8Array,
   keyString: string,
-  iv: string
+  iv?: string
 ): Promise<string> {
   const key = await importKey(keyString);
   return await decryptData(encrypted, key, iv);
 }
+
+// ===== Key backup =====
+
+const BACKUP_VERSION = 1;
+const BACKUP_AAD = new TextEncoder().encode('ai-twin-key-backup v1');
+export const PASSPHRASE_KDF_ITERATIONS = 600_000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+const SHARE_PREFIX = 'aitwin-share:';
+const SHARE_VERSION = 1;
+const SEALED_SHARE_PREFIX = 'aitwin-sealed-share:';
+const SEALED_SHARE_CONTEXT = 'recovery-share';
+
+/**
+ * Passphrase-protected export of twin keys (JSON, safe to store anywhere)
+ */
+export interface KeyBackup {
+  version: number;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export class BackupDecryptionError extends Error {
+  constructor(message: string) {
+    super(`Cannot restore backup: ${message}`);
+    this.name = 'BackupDecryptionError';
+  }
+}
+
+export class ShareRecoveryError extends Error {
+  constructor(message: string) {
+    super(`Cannot recover key from shares: ${message}`);
+    this.name = 'ShareRecoveryError';
+  }
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase.normalize('NFKC')), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt twin keys (twin ID → base64 key) under a passphrase
+ */
+export async function exportKeysWithPassphrase(keys: Record<string, string>, passphrase: string): Promise<string> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePassphraseKey(passphrase, salt, PASSPHRASE_KDF_ITERATIONS);
+  const plaintext = new TextEncoder().encode(JSON.stringify({ keys, exportedAt: new Date().toISOString() }));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: BACKUP_AAD }, key, plaintext);
+
+  const backup: KeyBackup = {
+    version: BACKUP_VERSION,
+    kdf: 'PBKDF2-SHA256',
+    iterations: PASSPHRASE_KDF_ITERATIONS,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+/**
+ * Decrypt a passphrase backup back into twin ID → base64 key
+ */
+export async function importKeysWithPassphrase(backupJson: string, passphrase: string): Promise<Record<string, string>> {
+  let backup: KeyBackup;
+  try {
+    backup = JSON.parse(backupJson);
+  } catch {
+    throw new BackupDecryptionError('file is not a key backup');
+  }
+  if (backup.version !== BACKUP_VERSION || backup.kdf !== 'PBKDF2-SHA256') {
+    throw new BackupDecryptionError(`unsupported backup format (version ${backup.version}, ${backup.kdf})`);
+  }
+  if (!Number.isInteger(backup.iterations) || backup.iterations < 100_000 || backup.iterations > 10_000_000) {
+    throw new BackupDecryptionError(`implausible iteration count ${backup.iterations}`);
+  }
+
+  const key = await derivePassphraseKey(passphrase, base64ToBytes(backup.salt), backup.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(backup.iv), additionalData: BACKUP_AAD },
+      key,
+      base64ToBytes(backup.ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)).keys;
+  } catch {
+    throw new BackupDecryptionError('wrong passphrase or damaged backup');
+  }
+}
+
+/**
+ * Split a twin key into `count` recovery shares, any `threshold` of which rebuild it
+ * Share layout: version | threshold | index | key ID (8) | twin ID length | twin ID | share bytes
+ */
+export async function splitKeyIntoShares(
+  keyString: string,
+  twinId: string,
+  threshold: number,
+  count: number
+): Promise<string[]> {
+  const keyId = hexToBytes(await computeKeyId(await importKey(keyString)));
+  const twinIdBytes = new TextEncoder().encode(twinId);
+  if (twinIdBytes.length > 0xff) {
+    throw new Error('Twin ID too long for a recovery share');
+  }
+
+  return splitSecret(base64ToBytes(keyString), threshold, count).map(share => {
+    const bytes = new Uint8Array(3 + keyId.length + 1 + twinIdBytes.length + share.data.length);
+    let offset = 0;
+    bytes[offset++] = SHARE_VERSION;
+    bytes[offset++] = threshold;
+    bytes[offset++] = share.index;
+    bytes.set(keyId, offset); offset += keyId.length;
+    bytes[offset++] = twinIdBytes.length;
+    bytes.set(twinIdBytes, offset); offset += twinIdBytes.length;
+    bytes.set(share.data, offset);
+    return SHARE_PREFIX + bytesToBase64(bytes);
+  });
+}
+
+function parseShare(share: string) {
+  const text = share.trim();
+  if (!text.startsWith(SHARE_PREFIX)) {
+    throw new ShareRecoveryError('not a recovery share');
+  }
+  const bytes = base64ToBytes(text.slice(SHARE_PREFIX.length));
+  if (bytes.length < 13 || bytes[0] !== SHARE_VERSION) {
+    throw new ShareRecoveryError('unsupported or damaged share');
+  }
+  const twinIdLength = bytes[11];
+  return {
+    threshold: bytes[1],
+    index: bytes[2],
+    keyId: Array.from(bytes.subarray(3, 11), byte => byte.toString(16).padStart(2, '0')).join(''),
+    twinId: new TextDecoder().decode(bytes.subarray(12, 12 + twinIdLength)),
+    data: bytes.slice(12 + twinIdLength),
+  };
+}
+
+/**
+ * Rebuild a twin key from recovery shares; the result is checked against the key ID in the shares
+ */
+export async function combineKeyShares(shares: string[]): Promise<{ twinId: string; key: string }> {
+  const parsed = shares.filter(share => share.trim()).map(parseShare);
+  if (parsed.length === 0) {
+    throw new ShareRecoveryError('no shares given');
+  }
+
+  const { threshold, keyId, twinId } = parsed[0];
+  if (parsed.some(share => share.keyId !== keyId || share.twinId !== twinId || share.threshold !== threshold)) {
+    throw new ShareRecoveryError('shares belong to different keys');
+  }
+  if (parsed.length < threshold) {
+    throw new ShareRecoveryError(`${threshold} shares are needed, got ${parsed.length}`);
+  }
+
+  let key: string;
+  try {
+    key = bytesToBase64(combineShares(parsed));
+  } catch (error: any) {
+    throw new ShareRecoveryError(error.message);
+  }
+  if (await computeKeyId(await importKey(key)) !== keyId) {
+    throw new ShareRecoveryError('shares are damaged (recovered key does not match)');
+  }
+  return { twinId, key };
+}
+
+/**
+ * Seal a share to a trustee's X25519 public key (see lib/encryption/envelope.ts) so only they can read it
+ */
+export async function sealShareForTrustee(share: string, trusteePublicKey: string): Promise<string> {
+  const sealed = await wrapKey(new TextEncoder().encode(share.trim()), base64ToBytes(trusteePublicKey), SEALED_SHARE_CONTEXT);
+  return SEALED_SHARE_PREFIX + bytesToBase64(sealed);
+}
+
+/**
+ * Open a share sealed to this wallet
+ */
+export async function openSealedShare(sealedShare: string, keyPair: WalletKeyPair): Promise<string> {
+  const text = sealedShare.trim();
+  if (!text.startsWith(SEALED_SHARE_PREFIX)) {
+    throw new ShareRecoveryError('not a sealed recovery share');
+  }
+  const share = await unwrapKey(base64ToBytes(text.slice(SEALED_SHARE_PREFIX.length)), keyPair, SEALED_SHARE_CONTEXT);
+  return new TextDecoder().decode(share);
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16));
+}
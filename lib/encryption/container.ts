@@ -0,0 +1,135 @@
+/**
+ * Ciphertext Container
+ * Self-describing binary envelope for encrypted payloads, so a blob stored on
+ * Walrus can be decrypted from the blob and the key alone.
+ *
+ * Layout (all lengths big-endian):
+ *   magic "AITC" (4) | version (u8) | algorithm (u8)
+ *   iv length (u8)     | iv
+ *   key ID length (u8) | key ID (UTF-8)
+ *   AAD length (u16)   | associated data
+ *   ciphertext (rest, including the AES-GCM tag)
+ *
+ * Everything before the ciphertext is the header. It is passed to AES-GCM as
+ * additional data, so changing the algorithm, key ID or AAD breaks decryption.
+ * New algorithms get a new ID; readers keep supporting the old ones.
+ */
+
+const MAGIC = [0x41, 0x49, 0x54, 0x43]; // "AITC"
+export const CONTAINER_VERSION = 1;
+
+export const ALGORITHMS = {
+  AES_256_GCM: 1,
+} as const;
+
+export type AlgorithmId = typeof ALGORITHMS[keyof typeof ALGORITHMS];
+
+export interface CiphertextContainer {
+  version: number;
+  algorithm: AlgorithmId;
+  iv: Uint8Array<ArrayBuffer>;
+  keyId: string;
+  aad: Uint8Array<ArrayBuffer>;
+  header: Uint8Array<ArrayBuffer>; // Serialized header, used as AES-GCM additional data
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+export class ContainerFormatError extends Error {
+  constructor(message: string) {
+    super(`Invalid ciphertext container: ${message}`);
+    this.name = 'ContainerFormatError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function isContainer(bytes: Uint8Array): boolean {
+  return bytes.length >= MAGIC.length && MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Serialize the header for a payload (needed before encryption, as AAD)
+ */
+export function buildContainerHeader(fields: {
+  algorithm: AlgorithmId;
+  iv: Uint8Array;
+  keyId: string;
+  aad?: Uint8Array;
+}): Uint8Array<ArrayBuffer> {
+  const keyId = encoder.encode(fields.keyId);
+  const aad = fields.aad ?? new Uint8Array(0);
+  if (fields.iv.length > 0xff || keyId.length > 0xff || aad.length > 0xffff) {
+    throw new ContainerFormatError('iv, key ID or associated data too long');
+  }
+
+  const header = new Uint8Array(MAGIC.length + 2 + 1 + fields.iv.length + 1 + keyId.length + 2 + aad.length);
+  const view = new DataView(header.buffer);
+  let offset = 0;
+
+  header.set(MAGIC, offset); offset += MAGIC.length;
+  header[offset++] = CONTAINER_VERSION;
+  header[offset++] = fields.algorithm;
+  header[offset++] = fields.iv.length;
+  header.set(fields.iv, offset); offset += fields.iv.length;
+  header[offset++] = keyId.length;
+  header.set(keyId, offset); offset += keyId.length;
+  view.setUint16(offset, aad.length); offset += 2;
+  header.set(aad, offset);
+
+  return header;
+}
+
+/**
+ * Header followed by ciphertext
+ */
+export function serializeContainer(header: Uint8Array, ciphertext: Uint8Array): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(header.length + ciphertext.length);
+  bytes.set(header, 0);
+  bytes.set(ciphertext, header.length);
+  return bytes;
+}
+
+export function parseContainer(bytes: Uint8Array): CiphertextContainer {
+  if (!isContainer(bytes)) {
+    throw new ContainerFormatError('missing magic number');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = MAGIC.length;
+  const need = (count: number) => {
+    if (offset + count > bytes.length) throw new ContainerFormatError('truncated header');
+  };
+
+  need(3);
+  const version = bytes[offset++];
+  if (version !== CONTAINER_VERSION) {
+    throw new ContainerFormatError(`unsupported version ${version}`);
+  }
+  const algorithm = bytes[offset++] as AlgorithmId;
+  if (!Object.values(ALGORITHMS).includes(algorithm)) {
+    throw new ContainerFormatError(`unknown algorithm ${algorithm}`);
+  }
+
+  const ivLength = bytes[offset++];
+  need(ivLength + 1);
+  const iv = bytes.slice(offset, offset + ivLength); offset += ivLength;
+
+  const keyIdLength = bytes[offset++];
+  need(keyIdLength + 2);
+  const keyId = decoder.decode(bytes.subarray(offset, offset + keyIdLength)); offset += keyIdLength;
+
+  const aadLength = view.getUint16(offset); offset += 2;
+  need(aadLength);
+  const aad = bytes.slice(offset, offset + aadLength); offset += aadLength;
+
+  return {
+    version,
+    algorithm,
+    iv,
+    keyId,
+    aad,
+    header: bytes.slice(0, offset),
+    ciphertext: bytes.slice(offset),
+  };
+}
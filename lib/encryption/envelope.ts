@@ -0,0 +1,183 @@
+/**
+ * Envelope Encryption
+ * Wraps a twin's data key to a buyer's X25519 public key (ECIES) so it can be
+ * stored in `AccessToken.encrypted_key` and only the buyer can recover it.
+ *
+ * Wallets don't expose encryption keys, so each wallet gets a deterministic
+ * X25519 key pair derived from its signature over a fixed message. Sui wallet
+ * signatures (Ed25519, RFC 6979 secp256k1) are deterministic, so the same wallet
+ * always re-derives the same key pair. Wallets whose signatures aren't (zkLogin,
+ * passkeys) are caught on first derivation, which signs twice, and a fingerprint
+ * of the public key is kept so a later derivation that differs fails clearly.
+ *
+ * Wrapped key layout:
+ *   version (u8) | ephemeral public key (32) | iv (12) | AES-GCM(data key) + tag
+ * AAD = "ai-twin-key:" + twin ID, so a wrapped key only opens for its own twin.
+ */
+
+import { x25519 } from '@noble/curves/ed25519';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { fromBase64, normalizeSuiAddress } from '@mysten/sui/utils';
+
+export const WRAPPED_KEY_VERSION = 1;
+const PUBLIC_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const HEADER_LENGTH = 1 + PUBLIC_KEY_LENGTH + IV_LENGTH;
+const FINGERPRINT_STORAGE_KEY = 'walletKeyFingerprints';
+
+export const KEY_DERIVATION_MESSAGE =
+  'AI Twins encryption key\n\nSigning this message derives the key that unlocks AI twins you buy. ' +
+  'Only sign it on this site.';
+
+const encoder = new TextEncoder();
+
+export type SignPersonalMessage = (message: Uint8Array) => Promise<{ signature: string }>;
+
+export interface WalletKeyPair {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+}
+
+export class KeyUnwrapError extends Error {
+  constructor(message: string) {
+    super(`Cannot unwrap key: ${message}`);
+    this.name = 'KeyUnwrapError';
+  }
+}
+
+export class WalletKeyError extends Error {
+  constructor(message: string) {
+    super(`Cannot derive encryption key: ${message}`);
+    this.name = 'WalletKeyError';
+  }
+}
+
+async function signAndDerive(signPersonalMessage: SignPersonalMessage): Promise<WalletKeyPair> {
+  const { signature } = await signPersonalMessage(encoder.encode(KEY_DERIVATION_MESSAGE));
+  const privateKey = hkdf(sha256, fromBase64(signature), encoder.encode('ai-twin-wallet-key'), encoder.encode('x25519 v1'), 32);
+  return { privateKey, publicKey: x25519.getPublicKey(privateKey) };
+}
+
+/**
+ * Public key fingerprint; enough to recognise the key without storing it
+ */
+export function publicKeyFingerprint(publicKey: Uint8Array): string {
+  return bytesToHex(sha256(publicKey)).slice(0, 32);
+}
+
+// Fingerprints are kept in localStorage per wallet (for demo purposes)
+function loadFingerprints(): Record<string, string> {
+  return JSON.parse(localStorage.getItem(FINGERPRINT_STORAGE_KEY) || '{}');
+}
+
+/**
+ * Derive the wallet's X25519 key pair from its signature over KEY_DERIVATION_MESSAGE.
+ * The first derivation for a wallet signs twice to check the signature is deterministic.
+ */
+export async function deriveWalletKeyPair(
+  address: string,
+  signPersonalMessage: SignPersonalMessage
+): Promise<WalletKeyPair> {
+  const owner = normalizeSuiAddress(address);
+  const keyPair = await signAndDerive(signPersonalMessage);
+  const fingerprint = publicKeyFingerprint(keyPair.publicKey);
+  const fingerprints = loadFingerprints();
+
+  if (fingerprints[owner]) {
+    if (fingerprints[owner] !== fingerprint) {
+      throw new WalletKeyError(
+        'this wallet produced a different key than before. Its signatures are not deterministic, so it cannot receive twin keys'
+      );
+    }
+    return keyPair;
+  }
+
+  const again = await signAndDerive(signPersonalMessage);
+  if (publicKeyFingerprint(again.publicKey) !== fingerprint) {
+    throw new WalletKeyError(
+      'this wallet signs the same message differently each time (e.g. zkLogin or a passkey), so it cannot receive twin keys'
+    );
+  }
+
+  localStorage.setItem(FINGERPRINT_STORAGE_KEY, JSON.stringify({ ...fingerprints, [owner]: fingerprint }));
+  return keyPair;
+}
+
+function wrapContext(twinId: string): Uint8Array<ArrayBuffer> {
+  return encoder.encode(`ai-twin-key:${twinId}`);
+}
+
+async function wrappingKey(sharedSecret: Uint8Array, ephemeralPublicKey: Uint8Array, recipientPublicKey: Uint8Array) {
+  const salt = new Uint8Array(PUBLIC_KEY_LENGTH * 2);
+  salt.set(ephemeralPublicKey, 0);
+  salt.set(recipientPublicKey, PUBLIC_KEY_LENGTH);
+  const keyBytes = hkdf(sha256, sharedSecret, salt, encoder.encode('ai-twin-key-wrap v1'), 32);
+  return crypto.subtle.importKey('raw', new Uint8Array(keyBytes), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Wrap a data key to a recipient's X25519 public key
+ */
+export async function wrapKey(
+  dataKey: Uint8Array,
+  recipientPublicKey: Uint8Array,
+  twinId: string
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (recipientPublicKey.length !== PUBLIC_KEY_LENGTH) {
+    throw new Error('Recipient public key must be 32 bytes (X25519)');
+  }
+
+  const ephemeralPrivateKey = x25519.utils.randomPrivateKey();
+  const ephemeralPublicKey = x25519.getPublicKey(ephemeralPrivateKey);
+  const sharedSecret = x25519.getSharedSecret(ephemeralPrivateKey, recipientPublicKey);
+
+  const key = await wrappingKey(sharedSecret, ephemeralPublicKey, recipientPublicKey);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: wrapContext(twinId) },
+    key,
+    new Uint8Array(dataKey)
+  ));
+
+  const wrapped = new Uint8Array(HEADER_LENGTH + ciphertext.length);
+  wrapped[0] = WRAPPED_KEY_VERSION;
+  wrapped.set(ephemeralPublicKey, 1);
+  wrapped.set(iv, 1 + PUBLIC_KEY_LENGTH);
+  wrapped.set(ciphertext, HEADER_LENGTH);
+  return wrapped;
+}
+
+/**
+ * Recover a data key with the recipient's X25519 private key
+ */
+export async function unwrapKey(
+  wrapped: Uint8Array,
+  keyPair: WalletKeyPair,
+  twinId: string
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (wrapped.length <= HEADER_LENGTH) {
+    throw new KeyUnwrapError('wrapped key is empty or truncated');
+  }
+  if (wrapped[0] !== WRAPPED_KEY_VERSION) {
+    throw new KeyUnwrapError(`unsupported version ${wrapped[0]}`);
+  }
+
+  const ephemeralPublicKey = wrapped.slice(1, 1 + PUBLIC_KEY_LENGTH);
+  const iv = wrapped.slice(1 + PUBLIC_KEY_LENGTH, HEADER_LENGTH);
+  const ciphertext = wrapped.slice(HEADER_LENGTH);
+
+  const sharedSecret = x25519.getSharedSecret(keyPair.privateKey, ephemeralPublicKey);
+  const key = await wrappingKey(sharedSecret, ephemeralPublicKey, keyPair.publicKey);
+
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: wrapContext(twinId) },
+      key,
+      ciphertext
+    ));
+  } catch {
+    throw new KeyUnwrapError('key was wrapped for another wallet or twin');
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Key Vault
+ * Keeps twin encryption keys in IndexedDB, wrapped (AES-256-GCM) under a key
+ * derived from the wallet's signature over a fixed challenge. Only wrapped keys
+ * are ever written to disk; the wrapping key lives in memory for the session
+ * and is dropped when the vault is locked or the page is closed.
+ *
+ * Each wrapped key is bound to its owner and twin ID through the AAD, and each
+ * owner has a verifier record so an unlock with a different wallet (or one whose
+ * signatures aren't deterministic) fails up front instead of on first use.
+ */
+
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { fromBase64, normalizeSuiAddress } from '@mysten/sui/utils';
+import { suiClient } from '@/lib/sui/contract';
+import { fetchOwnedTwins } from '@/lib/services/twinRecoveryService';
+
+export const VAULT_CHALLENGE =
+  'AI Twins key vault\n\nSigning this message unlocks the encryption keys of your AI twins on this device. ' +
+  'Only sign it on this site.';
+
+const DB_NAME = 'aiTwinKeyVault';
+const DB_VERSION = 2;
+const KEY_STORE = 'keys';
+const PENDING_STORE = 'pendingKeys'; // Keys of transactions not yet confirmed, e.g. a key rotation
+const VERIFIER_STORE = 'verifiers';
+const VERIFIER_PLAINTEXT = 'ai-twin-key-vault v1';
+const IV_LENGTH = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export type SignPersonalMessage = (message: Uint8Array) => Promise<{ signature: string }>;
+
+interface WrappedKeyRecord {
+  id: string; // `${owner}:${twinId}`
+  owner: string;
+  twinId: string;
+  iv: Uint8Array<ArrayBuffer>;
+  wrapped: Uint8Array<ArrayBuffer>;
+  storedAt: string;
+}
+
+interface VerifierRecord {
+  owner: string;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Key vault is locked. Unlock it with your wallet to use twin keys.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class VaultUnlockError extends Error {
+  constructor(message: string) {
+    super(`Cannot unlock key vault: ${message}`);
+    this.name = 'VaultUnlockError';
+  }
+}
+
+// ===== Session state =====
+
+const sessions = new Map<string, CryptoKey>();
+const pendingUnlocks = new Map<string, Promise<void>>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to lock/unlock changes (e.g. with useSyncExternalStore)
+ */
+export function subscribeVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function isVaultUnlocked(address: string): boolean {
+  return sessions.has(normalizeSuiAddress(address));
+}
+
+function sessionKey(address: string): CryptoKey {
+  const key = sessions.get(normalizeSuiAddress(address));
+  if (!key) throw new VaultLockedError();
+  return key;
+}
+
+// ===== IndexedDB =====
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(KEY_STORE)) {
+          db.createObjectStore(KEY_STORE, { keyPath: 'id' }).createIndex('owner', 'owner');
+        }
+        if (!db.objectStoreNames.contains(VERIFIER_STORE)) {
+          db.createObjectStore(VERIFIER_STORE, { keyPath: 'owner' });
+        }
+        if (!db.objectStoreNames.contains(PENDING_STORE)) {
+          db.createObjectStore(PENDING_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ===== Wrapping =====
+
+async function deriveWrappingKey(signature: string): Promise<CryptoKey> {
+  const keyBytes = hkdf(sha256, fromBase64(signature), encoder.encode('ai-twin-key-vault'), encoder.encode('aes-gcm wrapping key v1'), 32);
+  return crypto.subtle.importKey('raw', new Uint8Array(keyBytes), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+async function seal(key: CryptoKey, plaintext: string, aad: string) {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(aad) },
+    key,
+    encoder.encode(plaintext)
+  );
+  return { iv, ciphertext: new Uint8Array(ciphertext) };
+}
+
+async function open(key: CryptoKey, iv: Uint8Array<ArrayBuffer>, ciphertext: Uint8Array<ArrayBuffer>, aad: string) {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(aad) },
+    key,
+    ciphertext
+  );
+  return decoder.decode(plaintext);
+}
+
+// ===== Lock / unlock =====
+
+async function unlock(owner: string, signPersonalMessage: SignPersonalMessage) {
+  const { signature } = await signPersonalMessage(encoder.encode(VAULT_CHALLENGE));
+  const key = await deriveWrappingKey(signature);
+
+  const verifier = await withStore<VerifierRecord | undefined>(VERIFIER_STORE, 'readonly', store => store.get(owner));
+  if (verifier) {
+    try {
+      await open(key, verifier.iv, verifier.ciphertext, owner);
+    } catch {
+      throw new VaultUnlockError('the signature does not match the one this vault was created with');
+    }
+  } else {
+    const { iv, ciphertext } = await seal(key, VERIFIER_PLAINTEXT, owner);
+    await withStore(VERIFIER_STORE, 'readwrite', store => store.put({ owner, iv, ciphertext } satisfies VerifierRecord));
+  }
+
+  sessions.set(owner, key);
+  await migratePlaintextKeys(owner);
+  console.log('🔓 Key vault unlocked for', owner);
+  notify();
+}
+
+/**
+ * Unlock the vault for this wallet (prompts for one signature; no-op if already unlocked)
+ */
+export async function unlockVault(address: string, signPersonalMessage: SignPersonalMessage): Promise<void> {
+  const owner = normalizeSuiAddress(address);
+  if (sessions.has(owner)) return;
+
+  let pending = pendingUnlocks.get(owner);
+  if (!pending) {
+    pending = unlock(owner, signPersonalMessage).finally(() => pendingUnlocks.delete(owner));
+    pendingUnlocks.set(owner, pending);
+  }
+  return pending;
+}
+
+/**
+ * Forget the wrapping key for one wallet, or for all wallets
+ */
+export function lockVault(address?: string) {
+  if (address) {
+    sessions.delete(normalizeSuiAddress(address));
+  } else {
+    sessions.clear();
+  }
+  console.log('🔒 Key vault locked');
+  notify();
+}
+
+// ===== Keys =====
+
+// Pending keys get their own AAD so a pending record can't be passed off as a current one
+function recordAad(storeName: string, id: string): string {
+  return storeName === PENDING_STORE ? `pending:${id}` : id;
+}
+
+async function putKey(storeName: string, address: string, twinId: string, keyString: string): Promise<void> {
+  const owner = normalizeSuiAddress(address);
+  const id = `${owner}:${twinId}`;
+  const { iv, ciphertext } = await seal(sessionKey(owner), keyString, recordAad(storeName, id));
+
+  await withStore(storeName, 'readwrite', store => store.put({
+    id,
+    owner,
+    twinId,
+    iv,
+    wrapped: ciphertext,
+    storedAt: new Date().toISOString(),
+  } satisfies WrappedKeyRecord));
+}
+
+async function readKey(storeName: string, address: string, twinId: string): Promise<string | null> {
+  const owner = normalizeSuiAddress(address);
+  const key = sessionKey(owner);
+  const id = `${owner}:${twinId}`;
+
+  const record = await withStore<WrappedKeyRecord | undefined>(storeName, 'readonly', store => store.get(id));
+  return record ? open(key, record.iv, record.wrapped, recordAad(storeName, id)) : null;
+}
+
+/**
+ * Wrap and store a twin key (base64 raw AES key)
+ */
+export async function storeTwinKey(address: string, twinId: string, keyString: string): Promise<void> {
+  await putKey(KEY_STORE, address, twinId, keyString);
+}
+
+/**
+ * Unwrap a twin key; null if the vault holds no key for the twin
+ */
+export async function getTwinKey(address: string, twinId: string): Promise<string | null> {
+  return readKey(KEY_STORE, address, twinId);
+}
+
+/**
+ * Hold a twin's next key while the transaction that switches to it is pending;
+ * the current key stays in place until promotePendingTwinKey()
+ */
+export async function storePendingTwinKey(address: string, twinId: string, keyString: string): Promise<void> {
+  await putKey(PENDING_STORE, address, twinId, keyString);
+}
+
+export async function getPendingTwinKey(address: string, twinId: string): Promise<string | null> {
+  return readKey(PENDING_STORE, address, twinId);
+}
+
+/**
+ * Make the pending key the twin's current key (once its transaction is confirmed)
+ */
+export async function promotePendingTwinKey(address: string, twinId: string): Promise<void> {
+  const keyString = await getPendingTwinKey(address, twinId);
+  if (!keyString) {
+    throw new Error(`No pending key for ${twinId}`);
+  }
+  await storeTwinKey(address, twinId, keyString);
+  await discardPendingTwinKey(address, twinId);
+}
+
+export async function discardPendingTwinKey(address: string, twinId: string): Promise<void> {
+  await withStore(PENDING_STORE, 'readwrite', store => store.delete(`${normalizeSuiAddress(address)}:${twinId}`));
+}
+
+/**
+ * Unwrap every key held for this wallet, keyed by twin ID
+ */
+export async function getTwinKeys(address: string): Promise<Record<string, string>> {
+  const owner = normalizeSuiAddress(address);
+  const key = sessionKey(owner);
+
+  const records = await withStore<WrappedKeyRecord[]>(KEY_STORE, 'readonly', store => store.index('owner').getAll(owner));
+  const entries = await Promise.all(
+    records.map(async record => [record.twinId, await open(key, record.iv, record.wrapped, record.id)] as const)
+  );
+  return Object.fromEntries(entries);
+}
+
+export async function deleteTwinKey(address: string, twinId: string): Promise<void> {
+  await withStore(KEY_STORE, 'readwrite', store => store.delete(`${normalizeSuiAddress(address)}:${twinId}`));
+}
+
+/**
+ * Move plaintext `encryptionKey`s out of the `aiTwins` localStorage entry into the vault.
+ * Only twins this wallet created or whose AITwinNFT it owns are moved; other wallets'
+ * keys stay where they are until their own wallet unlocks.
+ * @returns number of keys migrated
+ */
+export async function migratePlaintextKeys(address: string): Promise<number> {
+  const owner = normalizeSuiAddress(address);
+  const twins: Array<{ id: string; creator?: string; encryptionKey?: string }> =
+    JSON.parse(localStorage.getItem('aiTwins') || '[]');
+  const withKeys = twins.filter(t => t.encryptionKey);
+  if (withKeys.length === 0) return 0;
+
+  // Legacy twins that were never listed don't record a creator; fall back to NFT ownership
+  let ownedTwinIds = new Set<string>();
+  if (withKeys.some(t => !t.creator || normalizeSuiAddress(t.creator) !== owner)) {
+    try {
+      ownedTwinIds = new Set((await fetchOwnedTwins(suiClient, owner)).map(t => t.twinId));
+    } catch (error) {
+      console.error('Failed to look up owned twins, migrating by creator only:', error);
+    }
+  }
+
+  const mine = withKeys.filter(t =>
+    (t.creator && normalizeSuiAddress(t.creator) === owner) || ownedTwinIds.has(t.id)
+  );
+  if (mine.length === 0) return 0;
+
+  for (const twin of mine) {
+    await storeTwinKey(address, twin.id, twin.encryptionKey!);
+  }
+
+  for (const twin of mine) {
+    delete twin.encryptionKey;
+  }
+  localStorage.setItem('aiTwins', JSON.stringify(twins));
+  console.log(`🔐 Moved ${mine.length} twin key(s) from localStorage into the key vault`);
+  return mine.length;
+}
@@ -0,0 +1,112 @@
+/**
+ * Shamir Secret Sharing over GF(256)
+ * Splits a secret into `count` shares so that any `threshold` of them rebuild
+ * it and fewer reveal nothing. Each byte of the secret is the constant term of
+ * its own random polynomial of degree `threshold - 1`; share i holds every
+ * polynomial evaluated at x = i.
+ *
+ * Arithmetic uses the AES field (x^8 + x^4 + x^3 + x + 1) with generator 3.
+ */
+
+export interface SecretShare {
+  index: number; // x coordinate, 1-255
+  data: Uint8Array<ArrayBuffer>;
+}
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    // Multiply by the generator 3: x * 2 (reduced) xor x
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < EXP.length; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split a secret into `count` shares, any `threshold` of which recover it
+ */
+export function splitSecret(secret: Uint8Array, threshold: number, count: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || count < threshold || count > 255) {
+    throw new Error('Shares need 2 <= threshold <= count <= 255');
+  }
+  if (secret.length === 0) {
+    throw new Error('Cannot split an empty secret');
+  }
+
+  const shares: SecretShare[] = Array.from({ length: count }, (_, i) => ({
+    index: i + 1,
+    data: new Uint8Array(secret.length),
+  }));
+  const coefficients = new Uint8Array(threshold);
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    coefficients[0] = secret[byte];
+    crypto.getRandomValues(coefficients.subarray(1));
+
+    for (const share of shares) {
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = mul(y, share.index) ^ coefficients[c];
+      }
+      share.data[byte] = y;
+    }
+  }
+
+  coefficients.fill(0);
+  return shares;
+}
+
+/**
+ * Rebuild the secret from at least `threshold` shares (Lagrange interpolation at x = 0)
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array<ArrayBuffer> {
+  if (shares.length < 2) {
+    throw new Error('At least two shares are needed');
+  }
+
+  const length = shares[0].data.length;
+  const indices = new Set<number>();
+  for (const share of shares) {
+    if (share.index < 1 || share.index > 255 || indices.has(share.index)) {
+      throw new Error('Shares must have distinct indices between 1 and 255');
+    }
+    if (share.data.length !== length) {
+      throw new Error('Shares have different lengths');
+    }
+    indices.add(share.index);
+  }
+
+  // Lagrange basis at 0: prod(x_j / (x_j - x_i)); subtraction is xor in GF(256)
+  const basis = shares.map(share =>
+    shares.reduce(
+      (acc, other) => (other === share ? acc : mul(acc, div(other.index, other.index ^ share.index))),
+      1
+    )
+  );
+
+  const secret = new Uint8Array(length);
+  for (let byte = 0; byte < length; byte++) {
+    let value = 0;
+    shares.forEach((share, i) => {
+      value ^= mul(share.data[byte], basis[i]);
+    });
+    secret[byte] = value;
+  }
+  return secret;
+}
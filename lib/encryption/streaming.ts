@@ -0,0 +1,257 @@
+/**
+ * Streaming AES-256-GCM Encryption
+ * Encrypts binary data in fixed-size frames so files of any size can be
+ * processed without holding the whole payload in memory.
+ *
+ * Format:
+ *   header  = "AITS" | version (u8) | frame size (u32 BE) | nonce prefix (8 bytes)
+ *   frame i = AES-GCM(plaintext[i]) with
+ *             nonce = nonce prefix | i (u32 BE)
+ *             AAD   = header | i (u32 BE) | final flag (u8)
+ *
+ * Every frame but the last holds exactly `frameSize` plaintext bytes. Binding
+ * the frame index and the final flag into the AAD means reordered, dropped,
+ * duplicated or truncated frames all fail authentication.
+ */
+
+const MAGIC = [0x41, 0x49, 0x54, 0x53]; // "AITS"
+export const STREAM_VERSION = 1;
+const NONCE_PREFIX_LENGTH = 8;
+const HEADER_LENGTH = MAGIC.length + 1 + 4 + NONCE_PREFIX_LENGTH;
+const TAG_LENGTH = 16;
+const MAX_FRAMES = 0xffffffff;
+
+export const DEFAULT_FRAME_SIZE = 64 * 1024;
+const MAX_FRAME_SIZE = 16 * 1024 * 1024;
+
+export class StreamDecryptionError extends Error {
+  constructor(message: string) {
+    super(`Stream decryption failed: ${message}`);
+    this.name = 'StreamDecryptionError';
+  }
+}
+
+export interface StreamEncryptionOptions {
+  frameSize?: number;
+  // Random unless given. Only pass one to re-encrypt the same plaintext with the same
+  // key (a resumed upload): a prefix that covers two different plaintexts breaks GCM.
+  noncePrefix?: Uint8Array;
+}
+
+type Bytes = Uint8Array<ArrayBuffer>;
+type BinaryInput = Uint8Array | Blob | ReadableStream<Uint8Array>;
+
+function buildHeader(frameSize: number, noncePrefix: Bytes): Bytes {
+  const header = new Uint8Array(HEADER_LENGTH);
+  header.set(MAGIC, 0);
+  header[4] = STREAM_VERSION;
+  new DataView(header.buffer).setUint32(5, frameSize);
+  header.set(noncePrefix, 9);
+  return header;
+}
+
+function frameNonce(noncePrefix: Bytes, index: number): Bytes {
+  const nonce = new Uint8Array(NONCE_PREFIX_LENGTH + 4);
+  nonce.set(noncePrefix, 0);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index);
+  return nonce;
+}
+
+function frameAad(header: Bytes, index: number, final: boolean): Bytes {
+  const aad = new Uint8Array(header.length + 5);
+  aad.set(header, 0);
+  const view = new DataView(aad.buffer);
+  view.setUint32(header.length, index);
+  view.setUint8(header.length + 4, final ? 1 : 0);
+  return aad;
+}
+
+/**
+ * Growable byte buffer for regrouping stream chunks into frames
+ */
+class FrameBuffer {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  push(chunk: Uint8Array) {
+    if (chunk.length === 0) return;
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  take(count: number): Bytes {
+    const out = new Uint8Array(count);
+    let offset = 0;
+    while (offset < count) {
+      const chunk = this.chunks[0];
+      const needed = count - offset;
+      if (chunk.length <= needed) {
+        out.set(chunk, offset);
+        offset += chunk.length;
+        this.chunks.shift();
+      } else {
+        out.set(chunk.subarray(0, needed), offset);
+        this.chunks[0] = chunk.subarray(needed);
+        offset += needed;
+      }
+    }
+    this.length -= count;
+    return out;
+  }
+}
+
+function toStream(input: BinaryInput): ReadableStream<Uint8Array> {
+  if (input instanceof ReadableStream) return input;
+  if (input instanceof Blob) return input.stream();
+  return new Blob([new Uint8Array(input)]).stream();
+}
+
+/**
+ * A random nonce prefix, for callers that keep it to re-encrypt the same plaintext
+ */
+export function generateNoncePrefix(): Bytes {
+  return crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH));
+}
+
+/**
+ * Encrypt a stream of bytes into the framed format
+ */
+export function encryptStream(
+  input: BinaryInput,
+  key: CryptoKey,
+  options: StreamEncryptionOptions = {}
+): ReadableStream<Bytes> {
+  const frameSize = options.frameSize ?? DEFAULT_FRAME_SIZE;
+  if (!Number.isInteger(frameSize) || frameSize < 1 || frameSize > MAX_FRAME_SIZE) {
+    throw new Error(`frameSize must be between 1 and ${MAX_FRAME_SIZE} bytes`);
+  }
+
+  if (options.noncePrefix && options.noncePrefix.length !== NONCE_PREFIX_LENGTH) {
+    throw new Error(`noncePrefix must be ${NONCE_PREFIX_LENGTH} bytes`);
+  }
+  const noncePrefix = options.noncePrefix ? new Uint8Array(options.noncePrefix) : generateNoncePrefix();
+  const header = buildHeader(frameSize, noncePrefix);
+  const buffer = new FrameBuffer();
+  let index = 0;
+
+  const sealFrame = async (plaintext: Bytes, final: boolean): Promise<Bytes> => {
+    if (index >= MAX_FRAMES) throw new Error('Stream too long');
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: frameNonce(noncePrefix, index), additionalData: frameAad(header, index, final) },
+      key,
+      plaintext
+    );
+    index++;
+    return new Uint8Array(ciphertext);
+  };
+
+  return toStream(input).pipeThrough(new TransformStream<Uint8Array, Bytes>({
+    start(controller) {
+      controller.enqueue(header);
+    },
+    async transform(chunk, controller) {
+      buffer.push(chunk);
+      // Keep at least one byte back: only the end of input decides which frame is final
+      while (buffer.length > frameSize) {
+        controller.enqueue(await sealFrame(buffer.take(frameSize), false));
+      }
+    },
+    async flush(controller) {
+      controller.enqueue(await sealFrame(buffer.take(buffer.length), true));
+    },
+  }));
+}
+
+/**
+ * Decrypt a framed stream; errors the stream on tampering or truncation
+ */
+export function decryptStream(input: BinaryInput, key: CryptoKey): ReadableStream<Bytes> {
+  const buffer = new FrameBuffer();
+  let header: Bytes | null = null;
+  let noncePrefix: Bytes;
+  let frameLength = 0;
+  let index = 0;
+
+  const openFrame = async (ciphertext: Bytes, final: boolean): Promise<Bytes> => {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: frameNonce(noncePrefix, index), additionalData: frameAad(header!, index, final) },
+        key,
+        ciphertext
+      );
+      index++;
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new StreamDecryptionError(
+        final ? 'final frame failed authentication (wrong key, tampered or truncated data)' : `frame ${index} failed authentication`
+      );
+    }
+  };
+
+  const readHeader = () => {
+    const candidate = buffer.take(HEADER_LENGTH);
+    if (!MAGIC.every((byte, i) => candidate[i] === byte)) {
+      throw new StreamDecryptionError('not an encrypted stream');
+    }
+    if (candidate[4] !== STREAM_VERSION) {
+      throw new StreamDecryptionError(`unsupported version ${candidate[4]}`);
+    }
+    const frameSize = new DataView(candidate.buffer).getUint32(5);
+    if (frameSize < 1 || frameSize > MAX_FRAME_SIZE) {
+      throw new StreamDecryptionError(`invalid frame size ${frameSize}`);
+    }
+    header = candidate;
+    noncePrefix = candidate.slice(9, 9 + NONCE_PREFIX_LENGTH);
+    frameLength = frameSize + TAG_LENGTH;
+  };
+
+  return toStream(input).pipeThrough(new TransformStream<Uint8Array, Bytes>({
+    async transform(chunk, controller) {
+      buffer.push(chunk);
+      if (!header) {
+        if (buffer.length < HEADER_LENGTH) return;
+        readHeader();
+      }
+      while (buffer.length > frameLength) {
+        controller.enqueue(await openFrame(buffer.take(frameLength), false));
+      }
+    },
+    async flush(controller) {
+      if (!header) {
+        throw new StreamDecryptionError('missing header');
+      }
+      if (buffer.length < TAG_LENGTH) {
+        throw new StreamDecryptionError('stream is truncated');
+      }
+      controller.enqueue(await openFrame(buffer.take(buffer.length), true));
+    },
+  }));
+}
+
+/**
+ * Encrypt a Blob (or bytes) into an encrypted Blob
+ */
+export async function encryptBlob(
+  input: BinaryInput,
+  key: CryptoKey,
+  options: StreamEncryptionOptions = {}
+): Promise<Blob> {
+  const encrypted = await new Response(encryptStream(input, key, options)).blob();
+  return new Blob([encrypted], { type: 'application/octet-stream' });
+}
+
+/**
+ * Decrypt an encrypted Blob, optionally restoring the original MIME type
+ */
+export async function decryptBlob(input: BinaryInput, key: CryptoKey, type: string = ''): Promise<Blob> {
+  const decrypted = await new Response(decryptStream(input, key)).blob();
+  return new Blob([decrypted], { type });
+}
+
+export async function encryptBytes(data: Uint8Array, key: CryptoKey, options: StreamEncryptionOptions = {}): Promise<Bytes> {
+  return new Uint8Array(await (await encryptBlob(data, key, options)).arrayBuffer());
+}
+
+export async function decryptBytes(data: Uint8Array, key: CryptoKey): Promise<Bytes> {
+  return new Uint8Array(await (await decryptBlob(data, key)).arrayBuffer());
+}
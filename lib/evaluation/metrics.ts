@@ -0,0 +1,132 @@
+/**
+ * Fidelity Metrics
+ * Local, model-free comparisons between a twin's answer and the creator's own
+ * text: stylometric features for how it is written, and term overlap for what
+ * it says. Scores are 0-1 and only meaningful relative to each other (across
+ * twin versions, or across twins evaluated the same way).
+ */
+
+import { tokenize } from '@/lib/retrieval/bm25';
+
+// Frequent words whose relative use is a classic authorship signal
+const FUNCTION_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'but', 'or', 'so', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'from', 'by',
+  'about', 'as', 'that', 'this', 'it', 'is', 'was', 'be', 'have', 'had', 'not', 'just', 'really', 'very',
+  'i', 'me', 'my', 'we', 'our', 'you', 'your', 'they', 'what', 'which', 'when', 'if', 'because', 'then',
+  'there', 'all', 'some', 'more', 'can', 'would', 'will', 'do',
+]);
+const FIRST_PERSON = new Set(['i', 'me', 'my', 'mine', 'myself', 'we', 'us', 'our', 'ours']);
+
+// Type-token ratio falls as texts get longer; compare equal-length windows
+const RICHNESS_WINDOW = 150;
+// Reference terms an answer should cover
+const KEY_TERMS = 10;
+
+export interface StyleFeatures {
+  sentenceLength: number; // Words per sentence
+  wordLength: number; // Characters per word
+  vocabularyRichness: number; // Distinct words per word, over the first RICHNESS_WINDOW words
+  exclamationRate: number; // Per sentence
+  questionRate: number; // Per sentence
+  commaRate: number; // Per word
+  firstPersonRate: number; // Per word
+  contractionRate: number; // Per word
+  functionWords: Map<string, number>; // Relative frequencies
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[’‘]/g, "'").match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) ?? [];
+}
+
+function sentenceCount(text: string): number {
+  return Math.max(1, text.split(/[.!?]+(?:\s|$)/).filter(s => s.trim().length > 0).length);
+}
+
+export function styleFeatures(text: string): StyleFeatures {
+  const tokens = words(text);
+  const count = Math.max(1, tokens.length);
+  const sentences = sentenceCount(text);
+  const window = tokens.slice(0, RICHNESS_WINDOW);
+
+  const functionWords = new Map<string, number>();
+  for (const word of tokens) {
+    if (FUNCTION_WORDS.has(word)) functionWords.set(word, (functionWords.get(word) ?? 0) + 1 / count);
+  }
+
+  return {
+    sentenceLength: tokens.length / sentences,
+    wordLength: tokens.reduce((sum, word) => sum + word.length, 0) / count,
+    vocabularyRichness: new Set(window).size / Math.max(1, window.length),
+    exclamationRate: (text.match(/!/g)?.length ?? 0) / sentences,
+    questionRate: (text.match(/\?/g)?.length ?? 0) / sentences,
+    commaRate: (text.match(/,/g)?.length ?? 0) / count,
+    firstPersonRate: tokens.filter(word => FIRST_PERSON.has(word)).length / count,
+    contractionRate: tokens.filter(word => word.includes("'")).length / count,
+    functionWords,
+  };
+}
+
+// 1 when equal, falling towards 0 as one value dwarfs the other
+function ratioSimilarity(a: number, b: number): number {
+  const max = Math.max(a, b);
+  return max === 0 ? 1 : Math.min(a, b) / max;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of a) dot += weight * (b.get(term) ?? 0);
+  const norm = (v: Map<string, number>) => Math.sqrt([...v.values()].reduce((sum, x) => sum + x * x, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * How alike two texts are written: half scalar features, half function-word profile
+ */
+export function styleSimilarity(answer: string, reference: string): number {
+  const a = styleFeatures(answer);
+  const b = styleFeatures(reference);
+  const scalars = [
+    ratioSimilarity(a.sentenceLength, b.sentenceLength),
+    ratioSimilarity(a.wordLength, b.wordLength),
+    ratioSimilarity(a.vocabularyRichness, b.vocabularyRichness),
+    ratioSimilarity(a.exclamationRate, b.exclamationRate),
+    ratioSimilarity(a.questionRate, b.questionRate),
+    ratioSimilarity(a.commaRate, b.commaRate),
+    ratioSimilarity(a.firstPersonRate, b.firstPersonRate),
+    ratioSimilarity(a.contractionRate, b.contractionRate),
+  ];
+  const scalarScore = scalars.reduce((sum, x) => sum + x, 0) / scalars.length;
+  return 0.5 * scalarScore + 0.5 * cosine(a.functionWords, b.functionWords);
+}
+
+function termFrequencies(text: string): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const term of tokenize(text)) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+  return frequencies;
+}
+
+/**
+ * How much of the reference's substance the answer covers: mean of term-frequency
+ * cosine and recall of the reference's most frequent terms (stemmed, no stopwords)
+ */
+export function contentSimilarity(answer: string, reference: string): number {
+  const a = termFrequencies(answer);
+  const b = termFrequencies(reference);
+  const keyTerms = [...b.entries()].sort((x, y) => y[1] - x[1]).slice(0, KEY_TERMS).map(([term]) => term);
+  const recall = keyTerms.length === 0 ? 0 : keyTerms.filter(term => a.has(term)).length / keyTerms.length;
+  return 0.5 * cosine(a, b) + 0.5 * recall;
+}
+
+/**
+ * Frequent content words of a text, unstemmed, for building a question about it
+ */
+export function topicWords(text: string, limit: number = 3): string[] {
+  const counts = new Map<string, number>();
+  for (const word of words(text)) {
+    if (word.length > 4 && !word.includes("'") && tokenize(word).length > 0) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()].sort((x, y) => y[1] - x[1]).slice(0, limit).map(([word]) => word);
+}
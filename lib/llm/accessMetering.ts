@@ -0,0 +1,215 @@
+/**
+ * Access Metering (server side)
+ * Enforces the allowance of LIMITED and TEMPORARY purchases for /api/groq.
+ *
+ * The terms come from the buyer's AccessToken: its access type, `expires_at`
+ * and the message and token limits copied from the AccessRequest filed with the
+ * payment, so editing the listing later doesn't change a sale. Usage is counted
+ * per wallet, twin and purchase (`purchase_id`): a new purchase starts a fresh
+ * allowance, while the tokens re-minted by a key rotation keep it.
+ *
+ * Each request reserves its prompt plus `max_tokens` against the allowance and
+ * settles with the usage the provider reports. Counts are kept in memory per
+ * server instance, like the chat quota (usagePolicy.ts).
+ * Multi-instance deployments should move `AccessMeter` to a shared store.
+ */
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { ACCESS_TYPE_LIMITED, findAccessToken, type TwinAccessToken } from '@/lib/services/accessGrantService';
+import { AccessQuotaError, allowanceProblem, isMetered, type Allowance } from '@/lib/services/usageMeteringService';
+import { fetchTwinOwner, suiClient } from '@/lib/sui/contract';
+import { ChatRejectedError, type ChatPurpose } from './usagePolicy';
+
+// Tokens and owners are read from chain at most this often per wallet and twin
+const LOOKUP_TTL_MS = 60 * 1000;
+// Guard and memory calls a message may bring along: the classifier, the summary and
+// fact extraction, two attempts each. Beyond that they'd be free chat in JSON.
+const SIDE_CALLS_PER_MESSAGE = 6;
+
+// The holder's newest token for the twin minted by `issuer`, expired ones included
+export type AccessTokenLookup = (owner: string, twinId: string, issuer: string) => Promise<TwinAccessToken | null>;
+export type TwinOwnerLookup = (twinId: string) => Promise<string | null>;
+
+interface PurchaseUsage {
+  messages: number;
+  sideCalls: number; // Guard and memory calls
+  tokens: number;
+}
+
+interface CachedLookup<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+// A request counted against a purchase, until it is settled
+export interface AccessReservation {
+  key: string;
+  tokens: number;
+  message: boolean; // Otherwise a side call
+  allowance: Allowance; // Including this request's reservation
+}
+
+export class AccessMeter {
+  private readonly usage = new Map<string, PurchaseUsage>();
+  private readonly tokens = new Map<string, CachedLookup<TwinAccessToken | null>>();
+  private readonly owners = new Map<string, CachedLookup<string | null>>();
+
+  constructor(
+    private readonly lookupToken: AccessTokenLookup,
+    private readonly lookupOwner: TwinOwnerLookup,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  private async cached<T>(cache: Map<string, CachedLookup<T>>, key: string, fetch: () => Promise<T>): Promise<T> {
+    const hit = cache.get(key);
+    if (hit && this.now() - hit.fetchedAt < LOOKUP_TTL_MS) return hit.value;
+    const value = await fetch();
+    cache.set(key, { value, fetchedAt: this.now() });
+    return value;
+  }
+
+  private creator(twinId: string): Promise<string | null> {
+    return this.cached(this.owners, twinId, () => this.lookupOwner(twinId));
+  }
+
+  /**
+   * The wallet's token for the twin. Only tokens minted by the twin's registered owner
+   * count: anyone can create a look-alike token for themselves.
+   */
+  private async token(address: string, twinId: string): Promise<TwinAccessToken | null> {
+    const creator = await this.creator(twinId);
+    // Twins that aren't registered on-chain can't have been sold
+    if (!creator) return null;
+    return this.cached(this.tokens, `${address}:${twinId}`, () =>
+      this.lookupToken(address, twinId, normalizeSuiAddress(creator))
+    );
+  }
+
+  private usageKey(address: string, token: TwinAccessToken): string {
+    return `${address}:${token.twinId}:${token.purchaseId}`;
+  }
+
+  private allowanceOf(address: string, token: TwinAccessToken): Allowance {
+    const usage = this.usage.get(this.usageKey(address, token));
+    const limited = token.accessType === ACCESS_TYPE_LIMITED;
+    return {
+      accessType: token.accessType,
+      expiresAt: token.expiresAt,
+      messagesUsed: usage?.messages ?? 0,
+      // 0 on the token means no cap
+      messageLimit: limited && token.messageLimit > 0 ? token.messageLimit : undefined,
+      tokensUsed: usage?.tokens ?? 0,
+      tokenLimit: limited && token.tokenLimit > 0 ? token.tokenLimit : undefined,
+    };
+  }
+
+  /**
+   * The wallet's allowance for the twin, or null when its chats aren't metered
+   * (full access, or no AccessToken at all)
+   */
+  async allowance(address: string, twinId: string): Promise<Allowance | null> {
+    const owner = normalizeSuiAddress(address);
+    const token = await this.token(owner, twinId);
+    return token && isMetered(token.accessType) ? this.allowanceOf(owner, token) : null;
+  }
+
+  /**
+   * Check the wallet may chat with the twin and reserve `promptTokens` plus up to
+   * `maxTokens` of its allowance. Returns null for unmetered chats, otherwise the
+   * reservation and the reply limit that still fits the token allowance.
+   * Throws AccessQuotaError when the allowance is used up or expired, and
+   * ChatRejectedError when the twin isn't registered (404) or the wallet neither
+   * owns it nor holds a token for it (403).
+   */
+  async reserve(
+    address: string,
+    twinId: string,
+    purpose: ChatPurpose,
+    promptTokens: number,
+    maxTokens: number
+  ): Promise<{ reservation: AccessReservation; maxTokens: number } | null> {
+    const owner = normalizeSuiAddress(address);
+    const creator = await this.creator(twinId);
+    // An unregistered ID would be an unmetered way around the twin binding
+    if (!creator) {
+      throw new ChatRejectedError(404, 'twin is not registered on-chain');
+    }
+    if (normalizeSuiAddress(creator) === owner) return null;
+
+    const token = await this.token(owner, twinId);
+    if (!token) {
+      throw new ChatRejectedError(403, 'no access token for this twin');
+    }
+    if (!isMetered(token.accessType)) return null;
+
+    const allowance = this.allowanceOf(owner, token);
+    const key = this.usageKey(owner, token);
+    const usage = this.usage.get(key) ?? { messages: 0, sideCalls: 0, tokens: 0 };
+    const message = purpose === 'reply';
+
+    const problem = allowanceProblem(allowance);
+    // With the messages used up, only the side calls of counted messages are still let through
+    if (problem && (message || problem !== 'messages')) {
+      throw new AccessQuotaError(problem, allowance);
+    }
+    // Side calls go with a message: the next one while messages remain, the counted ones after
+    if (!message && allowance.messageLimit !== undefined) {
+      const messages = Math.min(allowance.messagesUsed + 1, allowance.messageLimit);
+      if (usage.sideCalls >= SIDE_CALLS_PER_MESSAGE * messages) {
+        throw new AccessQuotaError('messages', allowance);
+      }
+    }
+
+    let replyTokens = maxTokens;
+    if (allowance.tokenLimit !== undefined) {
+      const remaining = allowance.tokenLimit - allowance.tokensUsed - promptTokens;
+      if (remaining < 1) {
+        throw new AccessQuotaError('tokens', allowance);
+      }
+      replyTokens = Math.min(maxTokens, remaining);
+    }
+
+    const tokens = promptTokens + replyTokens;
+    usage.tokens += tokens;
+    if (message) usage.messages += 1;
+    else usage.sideCalls += 1;
+    this.usage.set(key, usage);
+
+    return {
+      reservation: { key, tokens, message, allowance: this.allowanceOf(owner, token) },
+      maxTokens: replyTokens,
+    };
+  }
+
+  /**
+   * Replace a reservation with the tokens actually used. Failed requests
+   * (`counted` false) give back the message or side call as well.
+   */
+  settle(reservation: AccessReservation, used: number, counted: boolean = true): Allowance {
+    const usage = this.usage.get(reservation.key);
+    if (usage) {
+      usage.tokens = Math.max(0, usage.tokens - reservation.tokens + used);
+      if (!counted && reservation.message) usage.messages = Math.max(0, usage.messages - 1);
+      if (!counted && !reservation.message) usage.sideCalls = Math.max(0, usage.sideCalls - 1);
+    }
+    return {
+      ...reservation.allowance,
+      messagesUsed: usage?.messages ?? 0,
+      tokensUsed: usage?.tokens ?? 0,
+    };
+  }
+}
+
+let sharedMeter: AccessMeter | null = null;
+
+/**
+ * The meter /api/groq and /api/allowance share, reading tokens and owners from chain
+ */
+export function getAccessMeter(): AccessMeter {
+  sharedMeter ??= new AccessMeter(
+    // Expired tokens too, so their holders get "expired" rather than "no access"
+    (owner, twinId, issuer) => findAccessToken(suiClient, owner, twinId, { includeExpired: true, issuer }),
+    twinId => fetchTwinOwner(suiClient, twinId)
+  );
+  return sharedMeter;
+}
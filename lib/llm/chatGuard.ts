@@ -0,0 +1,99 @@
+/**
+ * Chat Guard (server side)
+ * The pattern checks /api/groq runs on twin replies: prompt injection, requests
+ * for the system prompt and for abusive content on the buyer's message, threats
+ * and self-harm encouragement on the reply. They run where a modified client
+ * can't skip them, and what they block is filed in the creator's guard log by
+ * the route. The browser adds the forbidden-topic, classifier and leak checks
+ * (chatGuardService.ts).
+ */
+
+export type GuardCategory = 'prompt_injection' | 'prompt_leak' | 'forbidden_topic' | 'abusive_content';
+
+export interface GuardVerdict {
+  category: GuardCategory;
+  reason: string;
+}
+
+export class ChatBlockedError extends Error {
+  constructor(
+    public readonly category: GuardCategory,
+    public readonly reason: string,
+    public readonly stage: 'input' | 'output'
+  ) {
+    super(`Chat blocked: ${reason}`);
+    this.name = 'ChatBlockedError';
+  }
+
+  /**
+   * What the twin says instead of the blocked reply
+   */
+  get refusal(): string {
+    return REFUSALS[this.category];
+  }
+}
+
+const REFUSALS: Record<GuardCategory, string> = {
+  prompt_injection: "I'll stay myself, thanks. Happy to keep talking, though.",
+  prompt_leak: "How I was set up stays private, but I'm happy to keep talking.",
+  forbidden_topic: "That's a topic I don't discuss. Ask me about something else?",
+  abusive_content: "I won't say that. Let's talk about something else.",
+};
+
+const INPUT_PATTERNS: { category: GuardCategory; pattern: RegExp; reason: string }[] = [
+  {
+    category: 'prompt_injection',
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(previous|prior|above|earlier|all|your|system|these)\b.{0,20}\b(instructions?|prompts?|rules|directions|guidelines)\b/i,
+    reason: 'asked the twin to drop its instructions',
+  },
+  {
+    category: 'prompt_injection',
+    pattern: /\b(developer|debug|god|admin|jailbreak|unrestricted) mode\b|\b(you are now|act as|pretend to be|become)\b.{0,30}\b(dan|jailbroken|unfiltered|uncensored|unrestricted|without (any )?(rules|restrictions|filters))\b/i,
+    reason: 'tried to switch the twin into an unrestricted persona',
+  },
+  {
+    category: 'prompt_leak',
+    pattern: /\b(reveal|show|print|repeat|output|tell me|give me|what is|what's|what are|share|dump|copy|paste|recite|leak)\b.{0,40}\b(system prompt|system message|initial prompt|hidden prompt|original prompt|your (instructions|prompt|personality (profile|description|prompt)|rules|configuration|setup))\b/i,
+    reason: 'asked for the system prompt',
+  },
+  {
+    category: 'prompt_leak',
+    pattern: /\b(repeat|print|output|quote)\b.{0,30}\b(everything|the text|all (the )?text|the words|verbatim)\b.{0,30}\b(above|before|so far)\b/i,
+    reason: 'asked the twin to repeat its prompt',
+  },
+  {
+    category: 'abusive_content',
+    pattern: /\b(write|say|generate|make|compose|create|tell|post)\b.{0,40}\b(racist|sexist|homophobic|transphobic|hateful|slurs?|threatening|harassing|defamatory|obscene)\b/i,
+    reason: 'asked for hateful or harassing content',
+  },
+  {
+    category: 'abusive_content',
+    pattern: /\bhow (do|can|to|would)\b.{0,20}\b(make|build|synthesi[sz]e)\b.{0,20}\b(bomb|explosives?|nerve agent|bioweapon)\b/i,
+    reason: 'asked for weapons instructions',
+  },
+];
+
+const ABUSIVE_OUTPUT: RegExp[] = [
+  /\b(i('| wi)ll|i am going to|i'm going to) (kill|hurt|find|destroy) you\b/i,
+  /\b(kill|hurt) yourself\b/i,
+  /\byou (should|deserve to) die\b/i,
+];
+
+/**
+ * Check the buyer's message against the input patterns. Null when it may go through.
+ */
+export function screenInput(message: string): GuardVerdict | null {
+  for (const { category, pattern, reason } of INPUT_PATTERNS) {
+    if (pattern.test(message)) return { category, reason };
+  }
+  return null;
+}
+
+/**
+ * Check a (partial) reply for threats and self-harm encouragement. Null when it may be sent.
+ */
+export function screenOutput(reply: string): GuardVerdict | null {
+  return ABUSIVE_OUTPUT.some(pattern => pattern.test(reply))
+    ? { category: 'abusive_content', reason: 'reply contained a threat or self-harm encouragement' }
+    : null;
+}
@@ -0,0 +1,122 @@
+/**
+ * Chat Guard Log (server side)
+ * Collects the chat attempts the guard blocked, in /api/groq or in buyers'
+ * browsers, so each twin's creator can review them from any device.
+ *
+ * The creator is resolved from the twin's on-chain owner by the route, never
+ * taken from the report, and the reporting wallet comes from its session.
+ * Entries are kept in memory per server instance and capped per creator.
+ * Multi-instance deployments should move `GuardLog` to a shared store.
+ */
+
+import type { BlockedChatAttempt } from '@/lib/services/chatGuardService';
+import type { GuardCategory } from './chatGuard';
+
+const MAX_ENTRIES_PER_CREATOR = 500;
+const MAX_EXCERPT_CHARS = 200;
+const MAX_REASON_CHARS = 200;
+const MAX_NAME_CHARS = 100;
+// A wallet blocked this often in a minute is flooding the log, not chatting
+const MAX_REPORTS_PER_MINUTE = 30;
+const MINUTE_MS = 60 * 1000;
+
+const CATEGORIES: GuardCategory[] = ['prompt_injection', 'prompt_leak', 'forbidden_topic', 'abusive_content'];
+const STAGES = ['input', 'output'];
+
+export class GuardReportRejectedError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly reason: string
+  ) {
+    super(`Guard report rejected: ${reason}`);
+    this.name = 'GuardReportRejectedError';
+  }
+}
+
+export type GuardReport = Pick<BlockedChatAttempt, 'twinId' | 'twinName' | 'category' | 'stage' | 'reason' | 'excerpt'>;
+
+function requireString(value: unknown, name: string, maxLength: number): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new GuardReportRejectedError(400, `${name} must be a non-empty string`);
+  }
+  return value.slice(0, maxLength);
+}
+
+/**
+ * Validate a report body; long text fields are cut to size
+ */
+export function parseGuardReport(body: any): GuardReport {
+  const { twinId, twinName, category, stage, reason, excerpt } = body ?? {};
+
+  if (!CATEGORIES.includes(category)) {
+    throw new GuardReportRejectedError(400, `category must be one of ${CATEGORIES.join(', ')}`);
+  }
+  if (!STAGES.includes(stage)) {
+    throw new GuardReportRejectedError(400, 'stage must be "input" or "output"');
+  }
+
+  return {
+    twinId: requireString(twinId, 'twinId', MAX_NAME_CHARS),
+    twinName: requireString(twinName, 'twinName', MAX_NAME_CHARS),
+    category,
+    stage,
+    reason: requireString(reason, 'reason', MAX_REASON_CHARS),
+    excerpt: typeof excerpt === 'string' ? excerpt.slice(0, MAX_EXCERPT_CHARS) : '',
+  };
+}
+
+export class GuardLog {
+  private readonly entries = new Map<string, BlockedChatAttempt[]>();
+  private readonly reporters = new Map<string, { startedAt: number; reports: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Add a report to the creator's log; throws GuardReportRejectedError (429) when the
+   * reporting wallet sends too many
+   */
+  record(creator: string, user: string, report: GuardReport): BlockedChatAttempt {
+    const now = this.now();
+    let window = this.reporters.get(user);
+    if (!window || now - window.startedAt >= MINUTE_MS) {
+      window = { startedAt: now, reports: 0 };
+      this.reporters.set(user, window);
+    }
+    if (window.reports >= MAX_REPORTS_PER_MINUTE) {
+      throw new GuardReportRejectedError(429, 'too many reports, try again in a minute');
+    }
+    window.reports++;
+
+    const entry: BlockedChatAttempt = {
+      ...report,
+      id: `blocked_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      creator,
+      user,
+      blockedAt: new Date(now).toISOString(),
+    };
+    const log = [...(this.entries.get(creator) ?? []), entry].slice(-MAX_ENTRIES_PER_CREATOR);
+    this.entries.set(creator, log);
+    return entry;
+  }
+
+  /**
+   * Blocked attempts on a creator's twins, newest first
+   */
+  list(creator: string): BlockedChatAttempt[] {
+    return [...(this.entries.get(creator) ?? [])].reverse();
+  }
+
+  clear(creator: string) {
+    this.entries.delete(creator);
+  }
+}
+
+let sharedLog: GuardLog | null = null;
+
+/**
+ * The log /api/guard-log and /api/groq share
+ */
+export function getGuardLog(): GuardLog {
+  sharedLog ??= new GuardLog();
+  return sharedLog;
+}
@@ -0,0 +1,107 @@
+/**
+ * LLM Provider Registry (server side)
+ * Builds the providers this deployment has configured and resolves which one
+ * (and which model) serves a request. Use from API routes only.
+ *
+ * Environment:
+ * - GROQ_API_KEY                    enables `groq` (GROQ_MODELS: comma-separated override)
+ * - LLM_BASE_URL                      enables `local`, any OpenAI-compatible server
+ *   LLM_API_KEY, LLM_MODELS           optional key; models, first is the default
+ * - LLM_ENABLE_MOCK=true              enables `mock`
+ * - LLM_PROVIDER                      default provider id (else the first configured one)
+ *
+ * Twins may name a provider and model; anything not configured here is rejected,
+ * so the model lists double as the allowlist. Keys are server-only: never
+ * give them a NEXT_PUBLIC_ name, which Next.js inlines into the browser bundle.
+ */
+
+import { MockProvider } from './mockProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { LLMProviderError, type LLMProvider, type ProviderInfo } from './types';
+
+export * from './types';
+
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+const GROQ_DEFAULT_MODELS = ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant'];
+
+function envList(name: string): string[] {
+  return (process.env[name] || '').split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Providers configured for this deployment, in preference order
+ */
+export function getProviders(): LLMProvider[] {
+  const providers: LLMProvider[] = [];
+
+  if (process.env.NEXT_PUBLIC_GROQ_API_KEY) {
+    console.warn('⚠️ NEXT_PUBLIC_GROQ_API_KEY is exposed to browsers and ignored; rename it to GROQ_API_KEY and rotate the key');
+  }
+
+  const groqKey = process.env.GROQ_API_KEY;
+  if (groqKey) {
+    const models = envList('GROQ_MODELS');
+    providers.push(new OpenAICompatibleProvider({
+      id: 'groq',
+      label: 'Groq',
+      baseUrl: GROQ_BASE_URL,
+      apiKey: groqKey,
+      models: models.length > 0 ? models : GROQ_DEFAULT_MODELS,
+    }));
+  }
+
+  const localUrl = process.env.LLM_BASE_URL;
+  if (localUrl) {
+    const models = envList('LLM_MODELS');
+    providers.push(new OpenAICompatibleProvider({
+      id: 'local',
+      label: 'Local (OpenAI-compatible)',
+      baseUrl: localUrl,
+      apiKey: process.env.LLM_API_KEY,
+      models: models.length > 0 ? models : ['llama3.1'],
+    }));
+  }
+
+  if (process.env.LLM_ENABLE_MOCK === 'true') {
+    providers.push(new MockProvider());
+  }
+
+  return providers;
+}
+
+function getDefaultProvider(providers: LLMProvider[]): LLMProvider | undefined {
+  const preferred = process.env.LLM_PROVIDER;
+  return providers.find(p => p.id === preferred) ?? providers[0];
+}
+
+/**
+ * Pick the provider and model for a request: the twin's choice if this deployment
+ * offers it, otherwise the deployment default
+ */
+export function resolveProvider(providerId?: string, model?: string): { provider: LLMProvider; model: string } {
+  const providers = getProviders();
+  if (providers.length === 0) {
+    throw new LLMProviderError(500, 'No LLM provider configured');
+  }
+
+  const provider = providerId ? providers.find(p => p.id === providerId) : getDefaultProvider(providers);
+  if (!provider) {
+    throw new LLMProviderError(400, `LLM provider "${providerId}" is not available`);
+  }
+  if (model && !provider.models.includes(model)) {
+    throw new LLMProviderError(400, `Model "${model}" is not available on ${provider.label}`);
+  }
+
+  return { provider, model: model || provider.models[0] };
+}
+
+/**
+ * Providers and models a creator can choose from
+ */
+export function listProviders(): { providers: ProviderInfo[]; defaultProvider: string | null } {
+  const providers = getProviders();
+  return {
+    providers: providers.map(p => ({ id: p.id, label: p.label, models: p.models, defaultModel: p.models[0] })),
+    defaultProvider: getDefaultProvider(providers)?.id ?? null,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Mock Provider
+ * Deterministic replies for offline development and demos: the same messages
+ * always produce the same answer, with no network access. In JSON mode it replies
+ * with the request's `jsonExample` (a minimal valid object for the caller's schema).
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { estimateTokens } from './tokens';
+import type { ChatRequest, LLMProvider } from './types';
+
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+  readonly label = 'Mock (offline)';
+  readonly models = ['mock-echo'];
+
+  private reply(request: ChatRequest): string {
+    const digest = bytesToHex(sha256(new TextEncoder().encode(JSON.stringify(request.messages)))).slice(0, 8);
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    const excerpt = lastUser.length > 120 ? `${lastUser.slice(0, 120)}...` : lastUser;
+
+    if (request.json) {
+      return JSON.stringify(request.jsonExample ?? { mock: true, digest, prompt: excerpt });
+    }
+    return `Mock reply ${digest}. You said: ${excerpt}`;
+  }
+
+  private reportUsage(request: ChatRequest, reply: string) {
+    request.onUsage?.({
+      promptTokens: request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+      completionTokens: estimateTokens(reply),
+    });
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const reply = this.reply(request);
+    this.reportUsage(request, reply);
+    return reply;
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const reply = this.reply(request);
+    for (const word of reply.split(/(?<= )/)) {
+      if (request.signal?.aborted) return;
+      yield word;
+    }
+    this.reportUsage(request, reply);
+  }
+}
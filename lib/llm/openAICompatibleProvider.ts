@@ -0,0 +1,105 @@
+/**
+ * OpenAI-compatible Provider
+ * Any server speaking `POST /chat/completions`: Groq, OpenAI, or a local
+ * Ollama (`http://localhost:11434/v1`) or llama.cpp (`http://localhost:8080/v1`) server.
+ */
+
+import { readServerSentEvents } from '@/lib/sse';
+import { LLMProviderError, type ChatRequest, type LLMProvider } from './types';
+
+function reportUsage(request: ChatRequest, usage: any) {
+  if (typeof usage?.prompt_tokens === 'number' && typeof usage?.completion_tokens === 'number') {
+    request.onUsage?.({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens });
+  }
+}
+
+/**
+ * Our status for a failed upstream call. The upstream's own status would mean something
+ * else to our clients: a 401 for our API key would read as an expired wallet session.
+ * Rate limits and outages are 503 (try again later), anything else 502.
+ */
+function gatewayStatus(upstreamStatus: number): number {
+  return upstreamStatus === 429 || upstreamStatus >= 500 ? 503 : 502;
+}
+
+export interface OpenAICompatibleConfig {
+  id: string;
+  label: string;
+  baseUrl: string; // Up to and including `/v1`
+  apiKey?: string; // Local servers usually need none
+  models: string[];
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly models: string[];
+
+  constructor(private readonly config: OpenAICompatibleConfig) {
+    this.id = config.id;
+    this.label = config.label;
+    this.models = config.models;
+  }
+
+  private async request(request: ChatRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream,
+          // The last chunk then carries the usage, as non-streamed replies do
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+          ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal: request.signal,
+      });
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      throw new LLMProviderError(503, `${this.label} is unreachable: ${error.message}`);
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      console.error(`${this.label} returned ${response.status}:`, error.error?.message);
+      throw new LLMProviderError(gatewayStatus(response.status), error.error?.message || `${this.label} request failed`);
+    }
+    return response;
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const data = await (await this.request(request, false)).json();
+    reportUsage(request, data.usage);
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  async *stream(request: ChatRequest): AsyncGenerator<string> {
+    const response = await this.request(request, true);
+    if (!response.body) {
+      throw new LLMProviderError(502, `${this.label} returned no stream`);
+    }
+
+    for await (const event of readServerSentEvents(response.body)) {
+      if (event.data === '[DONE]') return;
+
+      const chunk = JSON.parse(event.data);
+      if (chunk.error) {
+        throw new LLMProviderError(502, chunk.error.message || `${this.label} stream failed`);
+      }
+      // Groq reports streamed usage under `x_groq`
+      reportUsage(request, chunk.usage ?? chunk.x_groq?.usage);
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) yield content as string;
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * JSON Schemas for Model Output
+ * Small composable validators for structured LLM replies. Each validator
+ * returns the list of problems it found, phrased so they can be sent back to
+ * the model as correction feedback.
+ */
+
+export type Schema<T> = {
+  check(value: unknown, path: string): string[];
+  describe(): string; // Shape shown to the model in the prompt
+  example(): T; // Smallest value that passes check(); the mock provider replies with it
+  readonly _type?: T; // Type carrier only
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function at(path: string): string {
+  return path || 'value';
+}
+
+export function integer(options: { min?: number; max?: number } = {}): Schema<number> {
+  const range = options.min !== undefined && options.max !== undefined ? ` ${options.min}-${options.max}` : '';
+  return {
+    check(value, path) {
+      if (typeof value !== 'number' || !Number.isInteger(value)) return [`${at(path)} must be an integer`];
+      if (options.min !== undefined && value < options.min) return [`${at(path)} must be at least ${options.min}`];
+      if (options.max !== undefined && value > options.max) return [`${at(path)} must be at most ${options.max}`];
+      return [];
+    },
+    describe: () => `integer${range}`,
+    example: () => options.min ?? Math.min(0, options.max ?? 0),
+  };
+}
+
+export function string(options: { minLength?: number; maxLength?: number } = {}): Schema<string> {
+  return {
+    check(value, path) {
+      if (typeof value !== 'string') return [`${at(path)} must be a string`];
+      if (options.minLength !== undefined && value.trim().length < options.minLength) {
+        return [`${at(path)} must not be empty`];
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        return [`${at(path)} must be at most ${options.maxLength} characters`];
+      }
+      return [];
+    },
+    describe: () => 'string',
+    example: () => 'mock'.padEnd(options.minLength ?? 0, '.').slice(0, options.maxLength),
+  };
+}
+
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, path) {
+      return values.includes(value as T) ? [] : [`${at(path)} must be one of ${values.map(v => `"${v}"`).join(', ')}`];
+    },
+    describe: () => values.map(v => `"${v}"`).join(' | '),
+    example: () => values[0],
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { maxItems?: number } = {}): Schema<T[]> {
+  return {
+    check(value, path) {
+      if (!Array.isArray(value)) return [`${at(path)} must be an array`];
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        return [`${at(path)} must have at most ${options.maxItems} items`];
+      }
+      return value.flatMap((v, i) => item.check(v, `${at(path)}[${i}]`));
+    },
+    describe: () => `${item.describe()}[]`,
+    example: () => [],
+  };
+}
+
+export function object<S extends Record<string, Schema<any>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    check(value, path) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${at(path)} must be an object`];
+      return Object.entries(shape).flatMap(([key, schema]) =>
+        schema.check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key)
+      );
+    },
+    describe: () => `{ ${Object.entries(shape).map(([key, schema]) => `"${key}": ${schema.describe()}`).join(', ')} }`,
+    example: () =>
+      Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.example()])) as {
+        [K in keyof S]: Infer<S[K]>;
+      },
+  };
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+/**
+ * Parse a model reply as JSON and validate it
+ */
+export function parseWithSchema<T>(schema: Schema<T>, reply: string): ValidationResult<T> {
+  let value: unknown;
+  try {
+    // JSON mode replies are bare objects; others may wrap them in prose or a code fence
+    const match = reply.match(/\{[\s\S]*\}/);
+    value = JSON.parse(match ? match[0] : reply);
+  } catch {
+    return { ok: false, errors: ['reply is not valid JSON'] };
+  }
+
+  const errors = schema.check(value, '');
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: value as T };
+}
@@ -0,0 +1,12 @@
+/**
+ * Token Estimates
+ * Rough token counts for budgeting without shipping a tokenizer per model:
+ * about four characters per token for English text, which slightly
+ * over-counts for most Llama-family tokenizers.
+ */
+
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
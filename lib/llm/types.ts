@@ -0,0 +1,52 @@
+/**
+ * LLM Provider Types
+ * Shared interface for every chat backend (Groq, OpenAI-compatible servers, mock)
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Token counts as reported by the provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  json?: boolean; // Ask for a single JSON object as the reply
+  jsonExample?: unknown; // A valid reply of the expected shape; only the mock provider uses it
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void; // Called once the provider reports usage, if it does
+}
+
+export interface LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly models: string[]; // First entry is the default
+  chat(request: ChatRequest): Promise<string>;
+  stream(request: ChatRequest): AsyncGenerator<string>; // Yields text deltas
+}
+
+// What the browser gets to see about a provider
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  models: string[];
+  defaultModel: string;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly reason: string
+  ) {
+    super(`LLM request failed: ${reason}`);
+    this.name = 'LLMProviderError';
+  }
+}
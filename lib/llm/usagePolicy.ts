@@ -0,0 +1,215 @@
+/**
+ * LLM Usage Policy (server side)
+ * Request validation, token caps and per-wallet rate limits for /api/groq.
+ *
+ * Every call must carry a wallet session, so spend is attributed to a wallet.
+ * Each request reserves its estimated prompt tokens plus `max_tokens` up front
+ * and gives back what the reply didn't use. Limits are kept in memory per
+ * server instance, like the upload quota (lib/walrus/uploadPolicy.ts).
+ */
+
+import { estimateTokens } from './tokens';
+import type { ChatMessage } from './types';
+
+export interface ChatLimits {
+  maxTokensPerRequest: number; // Cap on `max_tokens`
+  maxInputChars: number; // All message contents together
+  maxMessages: number;
+  requestsPerMinute: number;
+  dailyTokens: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getChatLimits(): ChatLimits {
+  return {
+    maxTokensPerRequest: envNumber('LLM_MAX_TOKENS', 1024),
+    maxInputChars: envNumber('LLM_MAX_INPUT_CHARS', 48_000),
+    maxMessages: envNumber('LLM_MAX_MESSAGES', 100),
+    requestsPerMinute: envNumber('LLM_REQUESTS_PER_MINUTE', 20),
+    dailyTokens: envNumber('LLM_DAILY_TOKEN_LIMIT', 200_000),
+  };
+}
+
+export class ChatRejectedError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly reason: string,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(`Chat request rejected: ${reason}`);
+    this.name = 'ChatRejectedError';
+  }
+}
+
+// What a call is for: only replies count as messages of a metered purchase
+export type ChatPurpose = 'reply' | 'guard' | 'memory';
+
+export interface ValidatedChatRequest {
+  messages: ChatMessage[];
+  provider?: string;
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+  json: boolean;
+  jsonExample?: unknown;
+  stream: boolean;
+  twinId?: string; // Twin the call is for; required for free text, metered against the wallet's AccessToken
+  purpose: ChatPurpose;
+}
+
+const ROLES = ['system', 'user', 'assistant'];
+const PURPOSES: ChatPurpose[] = ['reply', 'guard', 'memory'];
+
+/**
+ * Validate a request body; `max_tokens` above the cap is lowered to the cap
+ */
+export function parseChatRequest(body: any, limits: ChatLimits): ValidatedChatRequest {
+  const { messages, options = {} } = body ?? {};
+
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new ChatRejectedError(400, 'messages must be a non-empty array');
+  }
+  if (messages.length > limits.maxMessages) {
+    throw new ChatRejectedError(400, `at most ${limits.maxMessages} messages per request`);
+  }
+  let inputChars = 0;
+  for (const message of messages) {
+    if (!ROLES.includes(message?.role) || typeof message.content !== 'string') {
+      throw new ChatRejectedError(400, 'each message needs a role and string content');
+    }
+    inputChars += message.content.length;
+  }
+  const jsonExample = options.json ? options.json_example : undefined;
+  if (jsonExample !== undefined) {
+    inputChars += JSON.stringify(jsonExample).length;
+  }
+  if (inputChars > limits.maxInputChars) {
+    throw new ChatRejectedError(413, `prompt is ${inputChars} characters, limit is ${limits.maxInputChars}`);
+  }
+
+  const temperature = options.temperature ?? 0.7;
+  if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+    throw new ChatRejectedError(400, 'temperature must be between 0 and 2');
+  }
+  const requested = options.max_tokens ?? limits.maxTokensPerRequest;
+  if (!Number.isInteger(requested) || requested < 1) {
+    throw new ChatRejectedError(400, 'max_tokens must be a positive integer');
+  }
+  const purpose = options.purpose ?? 'reply';
+  if (!PURPOSES.includes(purpose)) {
+    throw new ChatRejectedError(400, `purpose must be one of ${PURPOSES.join(', ')}`);
+  }
+  // Guard and memory calls don't count as messages, so they can't be free-form chat
+  if (purpose !== 'reply' && !options.json) {
+    throw new ChatRejectedError(400, `${purpose} calls must ask for a JSON reply`);
+  }
+  const twinId = typeof options.twin_id === 'string' && options.twin_id ? options.twin_id : undefined;
+  // Free-form chat is twin chat: it is bound to a twin the wallet may talk to, and metered
+  if (!options.json && !twinId) {
+    throw new ChatRejectedError(400, 'free-text chat must name its twin (twin_id)');
+  }
+
+  return {
+    messages: messages.map((m: ChatMessage) => ({ role: m.role, content: m.content })),
+    provider: typeof options.provider === 'string' ? options.provider : undefined,
+    model: typeof options.model === 'string' ? options.model : undefined,
+    temperature,
+    maxTokens: Math.min(requested, limits.maxTokensPerRequest),
+    json: Boolean(options.json),
+    jsonExample,
+    stream: Boolean(options.stream),
+    twinId,
+    purpose,
+  };
+}
+
+/**
+ * Tokens a request may use at most: its prompt plus the reply limit
+ */
+export function reservationFor(request: ValidatedChatRequest): number {
+  return request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0) + request.maxTokens;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface UsageWindow {
+  minuteStartedAt: number;
+  requests: number;
+  dayStartedAt: number;
+  tokens: number;
+}
+
+export interface ChatUsage {
+  tokensUsed: number;
+  tokensRemaining: number;
+  requestsRemaining: number; // In the current minute
+  resetsAt: number; // Daily token window
+}
+
+export class ChatQuota {
+  private readonly windows = new Map<string, UsageWindow>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  private window(address: string): UsageWindow {
+    const now = this.now();
+    let window = this.windows.get(address);
+    if (!window) {
+      window = { minuteStartedAt: now, requests: 0, dayStartedAt: now, tokens: 0 };
+      this.windows.set(address, window);
+    }
+    if (now - window.minuteStartedAt >= MINUTE_MS) {
+      window.minuteStartedAt = now;
+      window.requests = 0;
+    }
+    if (now - window.dayStartedAt >= DAY_MS) {
+      window.dayStartedAt = now;
+      window.tokens = 0;
+    }
+    return window;
+  }
+
+  /**
+   * Count a request and its token reservation against the address, or throw 429
+   */
+  reserve(address: string, tokens: number, limits: ChatLimits): ChatUsage {
+    const window = this.window(address);
+
+    if (window.requests + 1 > limits.requestsPerMinute) {
+      const retryAfter = Math.ceil((window.minuteStartedAt + MINUTE_MS - this.now()) / 1000);
+      throw new ChatRejectedError(429, `rate limit of ${limits.requestsPerMinute} requests per minute reached`, retryAfter);
+    }
+    if (window.tokens + tokens > limits.dailyTokens) {
+      const retryAfter = Math.ceil((window.dayStartedAt + DAY_MS - this.now()) / 1000);
+      throw new ChatRejectedError(429, `daily limit of ${limits.dailyTokens} tokens reached`, retryAfter);
+    }
+
+    window.requests += 1;
+    window.tokens += tokens;
+    return this.usage(address, limits);
+  }
+
+  /**
+   * Replace a reservation with the tokens actually used (0 when the provider failed)
+   */
+  settle(address: string, reserved: number, used: number) {
+    const window = this.windows.get(address);
+    if (!window) return;
+    window.tokens = Math.max(0, window.tokens - reserved + Math.min(used, reserved));
+  }
+
+  usage(address: string, limits: ChatLimits): ChatUsage {
+    const window = this.window(address);
+    return {
+      tokensUsed: window.tokens,
+      tokensRemaining: Math.max(0, limits.dailyTokens - window.tokens),
+      requestsRemaining: Math.max(0, limits.requestsPerMinute - window.requests),
+      resetsAt: window.dayStartedAt + DAY_MS,
+    };
+  }
+}
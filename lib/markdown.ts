@@ -0,0 +1,337 @@
+/**
+ * Markdown Parser
+ * Parses the Markdown subset twins answer with (paragraphs, headings, lists,
+ * block quotes, code, tables, emphasis, links) into a small syntax tree that
+ * components/ui/Markdown.tsx renders as React elements.
+ *
+ * There is no HTML pass-through: tags in a reply stay literal text, and links
+ * are kept only for http(s) and mailto URLs. Unclosed constructs (an open code
+ * fence, a half-typed `**`) parse as something sensible, so replies can be
+ * rendered while they are still streaming in.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'hr' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Parse Markdown text into blocks
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_DELIMITER.test(lines[i + 1]);
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line)
+    || LIST_ITEM.test(line) || isTableStart(lines, i);
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      // Runs to the closing fence, or to the end while the reply is still streaming
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', lang: fence[2], text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    // Checked before lists: `- - -` and `* * *` are rules, not items
+    if (RULE.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      i = parseTable(lines, i, blocks);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines, i))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n').trim()) });
+  }
+
+  return blocks;
+}
+
+function parseList(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+  const first = lines[start].match(LIST_ITEM)!;
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownBlock[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = lines[i].match(LIST_ITEM);
+    if (!marker || /\d/.test(marker[2]) !== ordered) break;
+
+    // Continuation lines are indented to the item's content
+    const indent = marker[0].length;
+    const item = [lines[i].slice(indent)];
+    i++;
+
+    while (i < lines.length) {
+      const next = lines[i];
+      if (!next.trim()) {
+        // A blank line ends the list unless the item or list carries on after it
+        const following = lines.slice(i + 1).find(l => l.trim());
+        if (following === undefined || !(/^\s{2,}/.test(following) || LIST_ITEM.test(following))) break;
+        item.push('');
+        i++;
+      } else if (/^\s{2,}/.test(next)) {
+        item.push(next.replace(new RegExp(`^ {0,${indent}}`), ''));
+        i++;
+      } else if (!startsBlock(lines, i) && item[item.length - 1].trim()) {
+        item.push(next); // Lazy continuation of the item's paragraph
+        i++;
+      } else {
+        break;
+      }
+    }
+
+    items.push(parseBlocks(item));
+    // Blank lines before a sibling item were consumed with the item
+  }
+
+  blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items });
+  return i;
+}
+
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  // Escaped pipes stay in the cell
+  return row.split(/(?<!\\)\|/).map(cell => cell.replace(/\\\|/g, '|').trim());
+}
+
+function parseTable(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+  const header = splitRow(lines[start]);
+  const align: TableAlign[] = splitRow(lines[start + 1]).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+  });
+
+  const rows: MarkdownInline[][][] = [];
+  let i = start + 2;
+  while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+    const cells = splitRow(lines[i]);
+    rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+    i++;
+  }
+
+  blocks.push({
+    type: 'table',
+    align: header.map((_, column) => align[column] ?? null),
+    header: header.map(cell => parseInline(cell)),
+    rows,
+  });
+  return i;
+}
+
+/**
+ * The URL if it is safe to link to, otherwise null
+ */
+export function safeHref(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}_]/u.test(char);
+
+/**
+ * Index of the delimiter that closes one opened at `from`, or -1.
+ * Underscores only open and close at word boundaries, so snake_case stays text.
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    // A single `*` or `_` does not close on part of a `**` or `__` run
+    let runEnd = index;
+    while (text[runEnd] === delimiter[0]) runEnd++;
+    if (delimiter.length === 1 && runEnd - index > 1) {
+      index = text.indexOf(delimiter, runEnd);
+      continue;
+    }
+
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    if (index > from && !/\s/.test(before) && (delimiter[0] !== '_' || !isWordChar(after))) {
+      return index;
+    }
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Parse inline formatting within one block
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && /[\\`*_{}[\]()#+\-.!|~>]/.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      // Replies use single newlines as line breaks
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        push({ type: 'code', text: text.slice(i + ticks.length, end).replace(/^ (.+) $/, '$1') });
+        i = end + ticks.length;
+        continue;
+      }
+      buffer += ticks;
+      i += ticks.length;
+      continue;
+    }
+
+    const link = rest.match(/^!?\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)/);
+    if (link) {
+      // Images are shown as links; loading remote images would let replies track readers
+      const href = safeHref(link[2]);
+      const label = link[1] || link[2];
+      if (href) {
+        push({ type: 'link', href, children: parseInline(label) });
+      } else {
+        push({ type: 'text', text: label });
+      }
+      i += link[0].length;
+      continue;
+    }
+
+    const url = !isWordChar(text[i - 1]) && rest.match(/^https?:\/\/[^\s<>"'`]+/);
+    if (url) {
+      const bare = url[0].replace(/[.,;:!?)\]]+$/, '');
+      const href = safeHref(bare);
+      if (href) {
+        push({ type: 'link', href, children: [{ type: 'text', text: bare }] });
+        i += bare.length;
+        continue;
+      }
+    }
+
+    const delimiter = ['**', '__', '~~', '*', '_'].find(d => rest.startsWith(d));
+    const canOpen = delimiter
+      && text[i + delimiter.length] !== undefined
+      && !/\s/.test(text[i + delimiter.length])
+      && (delimiter[0] !== '_' || !isWordChar(text[i - 1]));
+    if (delimiter && canOpen) {
+      const end = findClosing(text, delimiter, i + delimiter.length);
+      if (end !== -1) {
+        const type = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+        push({ type, children: parseInline(text.slice(i + delimiter.length, end)) });
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    // Unmatched delimiters are plain text
+    const literal = delimiter ?? char;
+    buffer += literal;
+    i += literal.length;
+  }
+
+  flush();
+  return nodes;
+}
@@ -0,0 +1,82 @@
+/**
+ * Personality Profile
+ * The structured description of a twin: traits, voice, expertise, opinions,
+ * boundaries and example answers. Generated from the training data in JSON
+ * mode, edited by the creator, stored inside the encrypted training data and
+ * compiled into the personality text of the twin's system prompt.
+ */
+
+import { array, object, string, type Infer } from '@/lib/llm/schema';
+
+// Bump when fields are added or change meaning
+export const PROFILE_SCHEMA_VERSION = 1;
+
+const text = string({ minLength: 1, maxLength: 500 });
+const shortText = string({ minLength: 1, maxLength: 120 });
+
+export const personalityProfileSchema = object({
+  summary: string({ minLength: 1, maxLength: 1500 }), // Who the person is, in a few sentences
+  speakingStyle: string({ maxLength: 800 }), // Sentence length, tone, humour, formality
+  traits: array(shortText, { maxItems: 15 }),
+  vocabulary: array(shortText, { maxItems: 30 }), // Characteristic words and phrasings
+  catchphrases: array(shortText, { maxItems: 15 }),
+  expertise: array(shortText, { maxItems: 20 }),
+  opinions: array(object({ topic: shortText, stance: text }), { maxItems: 20 }),
+  boundaries: array(text, { maxItems: 15 }), // What the twin won't do or discuss
+  examples: array(object({ question: text, answer: string({ minLength: 1, maxLength: 1500 }) }), { maxItems: 10 }),
+});
+
+export type PersonalityProfileContent = Infer<typeof personalityProfileSchema>;
+
+export interface PersonalityProfile extends PersonalityProfileContent {
+  schemaVersion: number;
+  version: number; // Incremented on every saved edit
+  updatedAt: string;
+}
+
+export function emptyPersonalityProfile(summary: string = ''): PersonalityProfile {
+  return {
+    summary,
+    speakingStyle: '',
+    traits: [],
+    vocabulary: [],
+    catchphrases: [],
+    expertise: [],
+    opinions: [],
+    boundaries: [],
+    examples: [],
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    version: 1,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Check an edited profile against the schema; returns the problems found
+ */
+export function validatePersonalityProfile(profile: PersonalityProfileContent): string[] {
+  return personalityProfileSchema.check(profile, '');
+}
+
+function section(title: string, lines: string[]): string {
+  return lines.length > 0 ? `${title}:\n${lines.map(line => `- ${line}`).join('\n')}` : '';
+}
+
+/**
+ * Personality text for the system prompt (see twinSystemPrompt in lib/groq.ts)
+ */
+export function compilePersonality(profile: PersonalityProfileContent, name?: string): string {
+  const examples = profile.examples.map(e => `Q: ${e.question}\nA: ${e.answer}`).join('\n\n');
+
+  return [
+    name ? `${name}. ${profile.summary}` : profile.summary,
+    profile.speakingStyle && `Speaking style: ${profile.speakingStyle}`,
+    section('Traits', profile.traits),
+    section('Characteristic words and phrasing', profile.vocabulary),
+    section('Catchphrases (use sparingly)', profile.catchphrases.map(c => `"${c}"`)),
+    section('Knows a lot about', profile.expertise),
+    section('Opinions', profile.opinions.map(o => `${o.topic}: ${o.stance}`)),
+    section('Boundaries (always respect these)', profile.boundaries),
+    examples && `Example answers in this person's voice:\n${examples}`,
+  ].filter(Boolean).join('\n\n');
+}
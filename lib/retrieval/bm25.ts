@@ -0,0 +1,97 @@
+/**
+ * BM25 Index
+ * Okapi BM25 keyword ranking over text chunks, built in memory in the browser
+ * so decrypted training data never leaves the device.
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Frequent English words that carry no meaning for ranking
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'do',
+  'does', 'for', 'from', 'had', 'has', 'have', 'just', 'not', 'some', 'tell',
+  'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our',
+  'she', 'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Lowercased word stems without stopwords; plurals and common suffixes are folded
+ * so "gardening" matches "garden" and "projects" matches "project"
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().normalize('NFKD').match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter(w => !STOPWORDS.has(w)).map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word
+    .replace(/(ing|edly|ed|ly)$/, '')
+    .replace(/ies$/, 'y')
+    .replace(/([^s])s$/, '$1');
+}
+
+export interface IndexedDocument<T> {
+  item: T;
+  terms: Map<string, number>; // Term frequencies
+  length: number;
+}
+
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+}
+
+export class BM25Index<T> {
+  private readonly documents: IndexedDocument<T>[] = [];
+  private readonly documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(private readonly textOf: (item: T) => string) {}
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  add(item: T) {
+    const tokens = tokenize(this.textOf(item));
+    const terms = new Map<string, number>();
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) ?? 0) + 1);
+    }
+    for (const term of terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+
+    this.documents.push({ item, terms, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Best matches for a query, highest score first; documents sharing no term are left out
+   */
+  search(query: string, limit: number = 5): SearchResult<T>[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.documents.length === 0) return [];
+
+    const count = this.documents.length;
+    const averageLength = this.totalLength / count || 1;
+    const results: SearchResult<T>[] = [];
+
+    for (const document of this.documents) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = document.terms.get(term);
+        if (!frequency) continue;
+        const df = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * document.length / averageLength));
+      }
+      if (score > 0) results.push({ item: document.item, score });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Text Chunker
+ * Splits a twin's training corpus into overlapping passages of roughly equal
+ * size, on sentence boundaries, remembering which source each came from.
+ */
+
+export interface TextChunk {
+  id: string;
+  source: string;
+  text: string;
+}
+
+export interface ChunkOptions {
+  targetWords?: number;
+  overlapWords?: number;
+}
+
+// CreateTwinModal marks each file's text with `--- From <name> ---`
+const SOURCE_MARKER = /^-{3} From (.+?) -{3}$/gm;
+
+/**
+ * Split the corpus at source markers; text before the first marker is the bio
+ */
+export function splitSources(corpus: string, defaultSource: string = 'Bio'): { source: string; text: string }[] {
+  const sources: { source: string; text: string }[] = [];
+  let source = defaultSource;
+  let start = 0;
+
+  for (const match of corpus.matchAll(SOURCE_MARKER)) {
+    sources.push({ source, text: corpus.slice(start, match.index) });
+    source = match[1];
+    start = match.index! + match[0].length;
+  }
+  sources.push({ source, text: corpus.slice(start) });
+
+  return sources.filter(s => s.text.trim().length > 0);
+}
+
+function sentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=\S)/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+function wordCount(text: string): number {
+  return text.split(' ').length;
+}
+
+/**
+ * Pack sentences into chunks of about `targetWords`, repeating the last
+ * `overlapWords` worth of sentences at the start of the next chunk
+ */
+export function chunkText(source: string, text: string, options: ChunkOptions = {}): TextChunk[] {
+  const targetWords = options.targetWords ?? 120;
+  const overlapWords = options.overlapWords ?? 30;
+  const chunks: TextChunk[] = [];
+  let current: string[] = [];
+  let words = 0;
+
+  const flush = () => {
+    chunks.push({ id: `${source}#${chunks.length}`, source, text: current.join(' ') });
+    // Carry trailing sentences over as overlap
+    const overlap: string[] = [];
+    let overlapCount = 0;
+    for (let i = current.length - 1; i > 0 && overlapCount < overlapWords; i--) {
+      overlap.unshift(current[i]);
+      overlapCount += wordCount(current[i]);
+    }
+    current = overlap;
+    words = overlapCount;
+  };
+
+  for (const sentence of sentences(text)) {
+    const count = wordCount(sentence);
+    if (words > 0 && words + count > targetWords) flush();
+    current.push(sentence);
+    words += count;
+  }
+  if (current.length > 0 && (chunks.length === 0 || words > overlapWords)) {
+    chunks.push({ id: `${source}#${chunks.length}`, source, text: current.join(' ') });
+  }
+
+  return chunks;
+}
@@ -0,0 +1,418 @@
+/**
+ * Seal-style Policy Encryption
+ * Encrypts blobs under an identity derived from the twin ID. Only a key server
+ * can release the matching decryption key, and it does so only after the caller
+ * proves (with a wallet signature) that they hold a valid AccessToken for the
+ * twin, or that they own the twin's AITwinNFT.
+ *
+ * Scheme (per blob):
+ * - Identity key pair: X25519, private key = HKDF(master secret, identity), held by the key server
+ * - Encryption: ephemeral X25519 key + identity public key -> ECDH -> HKDF -> AES-256-GCM
+ * - Decryption: key server performs the ECDH for the blob's ephemeral key after the policy check
+ *
+ * The key server never hands out the identity private key, only the per-blob
+ * shared secret, so a released key cannot decrypt other blobs of the same twin.
+ *
+ * `LocalKeyServer` is a stand-in for Seal's key servers. It runs in-process
+ * (offline tests) or behind `app/api/seal/route.ts` (dev deployments).
+ */
+
+import { x25519 } from '@noble/curves/ed25519';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { fromBase64, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import type { SuiClient } from '@mysten/sui/client';
+import { CONTRACT_CONFIG, fetchTwinOwner, isAccessTokenRetired, suiClient } from '@/lib/sui/contract';
+
+const SEAL_MAGIC = [0x53, 0x45, 0x41, 0x4c]; // "SEAL"
+export const SEAL_VERSION = 1;
+const IV_LENGTH = 12;
+const PUBLIC_KEY_LENGTH = 32;
+// Key requests are signed with a timestamp and expire quickly to prevent replay
+const KEY_REQUEST_MAX_AGE_MS = 5 * 60_000;
+const KEY_REQUEST_MAX_SKEW_MS = 60_000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class SealAccessDeniedError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Seal access denied: ${reason}`);
+    this.name = 'SealAccessDeniedError';
+  }
+}
+
+export interface SealedObject {
+  version: number;
+  identity: string;
+  ephemeralPublicKey: Uint8Array;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * A decryption key request, signed by the requester's wallet
+ */
+export interface KeyRequest {
+  identity: string;
+  ephemeralPublicKey: string; // base64
+  requester: string;
+  accessTokenId?: string;
+  timestamp: number;
+  signature: string;
+}
+
+export interface SealKeyServer {
+  getPublicKey(identity: string): Promise<Uint8Array>;
+  /** Returns the ECDH shared secret for the request's ephemeral key */
+  deriveKey(request: KeyRequest): Promise<Uint8Array>;
+}
+
+export interface AccessCheck {
+  twinId: string;
+  requester: string;
+  accessTokenId?: string;
+}
+
+/**
+ * Decides whether a requester may decrypt a twin's data
+ * Throws SealAccessDeniedError when access is not allowed
+ */
+export interface AccessPolicyVerifier {
+  verify(check: AccessCheck): Promise<void>;
+}
+
+export interface SealCredentials {
+  requester: string;
+  accessTokenId?: string;
+  signPersonalMessage: (message: Uint8Array) => Promise<{ signature: string }>;
+}
+
+/**
+ * Identity a twin's blobs are encrypted under
+ */
+export function twinIdentity(twinId: string, packageId: string = CONTRACT_CONFIG.PACKAGE_ID): string {
+  return `${packageId}::${twinId}`;
+}
+
+/**
+ * The exact text a requester signs to ask for a decryption key
+ */
+export function buildKeyRequestMessage(request: Omit<KeyRequest, 'signature'>): string {
+  return [
+    'Seal decryption key request',
+    `identity: ${request.identity}`,
+    `ephemeral: ${request.ephemeralPublicKey}`,
+    `requester: ${request.requester}`,
+    `access token: ${request.accessTokenId || 'none'}`,
+    `timestamp: ${request.timestamp}`,
+  ].join('\n');
+}
+
+// ===== Client =====
+
+/**
+ * Encrypt data so that only holders of a valid AccessToken for the twin can decrypt it
+ */
+export async function sealEncrypt(
+  data: Uint8Array<ArrayBuffer>,
+  twinId: string,
+  keyServer: SealKeyServer = sealKeyServer
+): Promise<Uint8Array<ArrayBuffer>> {
+  const identity = twinIdentity(twinId);
+  const identityPublicKey = await keyServer.getPublicKey(identity);
+
+  const ephemeralSecret = x25519.utils.randomPrivateKey();
+  const ephemeralPublicKey = x25519.getPublicKey(ephemeralSecret);
+  const sharedSecret = x25519.getSharedSecret(ephemeralSecret, identityPublicKey);
+
+  const key = await deriveBlobKey(sharedSecret, ephemeralPublicKey, identity);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(identity) }, key, data)
+  );
+
+  return serializeSealedObject({ version: SEAL_VERSION, identity, ephemeralPublicKey, iv, ciphertext });
+}
+
+/**
+ * Decrypt a sealed object after proving access to the key server
+ */
+export async function sealDecrypt(
+  sealed: Uint8Array,
+  credentials: SealCredentials,
+  keyServer: SealKeyServer = sealKeyServer
+): Promise<Uint8Array<ArrayBuffer>> {
+  const object = parseSealedObject(sealed);
+
+  const unsigned = {
+    identity: object.identity,
+    ephemeralPublicKey: toBase64(object.ephemeralPublicKey),
+    requester: credentials.requester,
+    accessTokenId: credentials.accessTokenId,
+    timestamp: Date.now(),
+  };
+  const { signature } = await credentials.signPersonalMessage(encoder.encode(buildKeyRequestMessage(unsigned)));
+  const sharedSecret = await keyServer.deriveKey({ ...unsigned, signature });
+
+  const key = await deriveBlobKey(sharedSecret, object.ephemeralPublicKey, object.identity);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: object.iv, additionalData: encoder.encode(object.identity) },
+    key,
+    object.ciphertext
+  );
+  return new Uint8Array(plaintext);
+}
+
+export function isSealedObject(bytes: Uint8Array): boolean {
+  return bytes.length > SEAL_MAGIC.length && SEAL_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Layout: magic(4) | version(1) | identity length(u16) | identity | ephemeral key(32) | iv(12) | ciphertext
+ */
+export function serializeSealedObject(object: SealedObject): Uint8Array<ArrayBuffer> {
+  const identity = encoder.encode(object.identity);
+  const out = new Uint8Array(4 + 1 + 2 + identity.length + PUBLIC_KEY_LENGTH + IV_LENGTH + object.ciphertext.length);
+  const view = new DataView(out.buffer);
+
+  let offset = 0;
+  out.set(SEAL_MAGIC, offset); offset += 4;
+  view.setUint8(offset, object.version); offset += 1;
+  view.setUint16(offset, identity.length); offset += 2;
+  out.set(identity, offset); offset += identity.length;
+  out.set(object.ephemeralPublicKey, offset); offset += PUBLIC_KEY_LENGTH;
+  out.set(object.iv, offset); offset += IV_LENGTH;
+  out.set(object.ciphertext, offset);
+
+  return out;
+}
+
+export function parseSealedObject(bytes: Uint8Array): SealedObject {
+  if (!isSealedObject(bytes)) {
+    throw new Error('Not a sealed object');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 4;
+  const version = view.getUint8(offset); offset += 1;
+  if (version !== SEAL_VERSION) {
+    throw new Error(`Unsupported sealed object version: ${version}`);
+  }
+
+  const identityLength = view.getUint16(offset); offset += 2;
+  const identity = decoder.decode(bytes.subarray(offset, offset + identityLength)); offset += identityLength;
+  const ephemeralPublicKey = bytes.slice(offset, offset + PUBLIC_KEY_LENGTH); offset += PUBLIC_KEY_LENGTH;
+  const iv = bytes.slice(offset, offset + IV_LENGTH); offset += IV_LENGTH;
+  const ciphertext = bytes.slice(offset);
+
+  if (ephemeralPublicKey.length !== PUBLIC_KEY_LENGTH || iv.length !== IV_LENGTH) {
+    throw new Error('Truncated sealed object');
+  }
+  return { version, identity, ephemeralPublicKey, iv, ciphertext };
+}
+
+async function deriveBlobKey(sharedSecret: Uint8Array, ephemeralPublicKey: Uint8Array, identity: string): Promise<CryptoKey> {
+  const keyBytes = hkdf(sha256, sharedSecret, ephemeralPublicKey, encoder.encode(`seal-blob-key:${identity}`), 32);
+  return crypto.subtle.importKey('raw', new Uint8Array(keyBytes), { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+// ===== Key servers =====
+
+/**
+ * In-process key server holding the master secret
+ */
+export class LocalKeyServer implements SealKeyServer {
+  private readonly packageId: string;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly masterSecret: Uint8Array,
+    private readonly verifier: AccessPolicyVerifier,
+    options: { packageId?: string; now?: () => number } = {}
+  ) {
+    if (masterSecret.length < 32) {
+      throw new Error('Seal master secret must be at least 32 bytes');
+    }
+    this.packageId = options.packageId ?? CONTRACT_CONFIG.PACKAGE_ID;
+    this.now = options.now ?? Date.now;
+  }
+
+  async getPublicKey(identity: string): Promise<Uint8Array> {
+    this.twinIdFromIdentity(identity);
+    return x25519.getPublicKey(this.identitySecret(identity));
+  }
+
+  async deriveKey(request: KeyRequest): Promise<Uint8Array> {
+    const twinId = this.twinIdFromIdentity(request.identity);
+
+    const age = this.now() - request.timestamp;
+    if (age > KEY_REQUEST_MAX_AGE_MS || age < -KEY_REQUEST_MAX_SKEW_MS) {
+      throw new SealAccessDeniedError('key request expired');
+    }
+
+    const { signature, ...unsigned } = request;
+    try {
+      await verifyPersonalMessageSignature(encoder.encode(buildKeyRequestMessage(unsigned)), signature, {
+        address: request.requester,
+      });
+    } catch {
+      throw new SealAccessDeniedError('invalid request signature');
+    }
+
+    await this.verifier.verify({
+      twinId,
+      requester: request.requester,
+      accessTokenId: request.accessTokenId,
+    });
+
+    const ephemeralPublicKey = fromBase64(request.ephemeralPublicKey);
+    if (ephemeralPublicKey.length !== PUBLIC_KEY_LENGTH) {
+      throw new SealAccessDeniedError('malformed ephemeral key');
+    }
+    return x25519.getSharedSecret(this.identitySecret(request.identity), ephemeralPublicKey);
+  }
+
+  private identitySecret(identity: string): Uint8Array {
+    return hkdf(sha256, this.masterSecret, encoder.encode('seal-identity-key'), encoder.encode(identity), 32);
+  }
+
+  private twinIdFromIdentity(identity: string): string {
+    const prefix = `${this.packageId}::`;
+    if (!identity.startsWith(prefix) || identity.length === prefix.length) {
+      throw new SealAccessDeniedError('identity does not belong to this package');
+    }
+    return identity.slice(prefix.length);
+  }
+}
+
+/**
+ * Client for a key server exposed over HTTP (see app/api/seal/route.ts)
+ */
+export class HttpKeyServer implements SealKeyServer {
+  constructor(private readonly baseUrl: string = '/api/seal') {}
+
+  async getPublicKey(identity: string): Promise<Uint8Array> {
+    const response = await fetch(`${this.baseUrl}?identity=${encodeURIComponent(identity)}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch Seal public key');
+    }
+    return fromBase64(data.publicKey);
+  }
+
+  async deriveKey(request: KeyRequest): Promise<Uint8Array> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    const data = await response.json();
+    if (response.status === 403) {
+      throw new SealAccessDeniedError(data.error || 'access denied');
+    }
+    if (!response.ok) {
+      throw new Error(data.error || 'Seal key request failed');
+    }
+    return fromBase64(data.key);
+  }
+}
+
+export const sealKeyServer: SealKeyServer = new HttpKeyServer();
+
+// ===== Access policies =====
+
+/**
+ * Checks access against on-chain objects:
+ * - an active, unexpired access_token::AccessToken for the twin owned by the requester and
+ *   minted by the twin's registered owner (anyone can create an object that looks like a token), or
+ * - the twin's ai_twin_nft::AITwinNFT owned by the requester (creators read their own data)
+ */
+export class OnChainAccessVerifier implements AccessPolicyVerifier {
+  constructor(
+    private readonly client: SuiClient = suiClient,
+    private readonly packageId: string = CONTRACT_CONFIG.PACKAGE_ID
+  ) {}
+
+  async verify({ twinId, requester, accessTokenId }: AccessCheck): Promise<void> {
+    const owner = normalizeSuiAddress(requester);
+
+    if (accessTokenId) {
+      const object = await this.client.getObject({
+        id: accessTokenId,
+        options: { showContent: true, showOwner: true },
+      });
+
+      const content = object.data?.content;
+      if (!content || content.dataType !== 'moveObject' || content.type !== `${this.packageId}::access_token::AccessToken`) {
+        throw new SealAccessDeniedError('object is not an AccessToken');
+      }
+
+      const tokenOwner = object.data?.owner;
+      if (!tokenOwner || typeof tokenOwner !== 'object' || !('AddressOwner' in tokenOwner) ||
+          normalizeSuiAddress(tokenOwner.AddressOwner) !== owner) {
+        throw new SealAccessDeniedError('AccessToken is not owned by the requester');
+      }
+
+      const fields = content.fields as any;
+      if (fields.twin_id !== twinId) {
+        throw new SealAccessDeniedError('AccessToken is for a different twin');
+      }
+      if (!fields.is_active) {
+        throw new SealAccessDeniedError('AccessToken has been revoked');
+      }
+      if (Number(fields.expires_at) <= Math.floor(Date.now() / 1000)) {
+        throw new SealAccessDeniedError('AccessToken has expired');
+      }
+      if (await isAccessTokenRetired(this.client, twinId, object.data!.objectId)) {
+        throw new SealAccessDeniedError('AccessToken was replaced by a newer grant');
+      }
+      const creator = await fetchTwinOwner(this.client, twinId);
+      if (!creator || normalizeSuiAddress(fields.original_seller) !== creator) {
+        throw new SealAccessDeniedError('AccessToken was not issued by the owner of the twin');
+      }
+      return;
+    }
+
+    const owned = await this.client.getOwnedObjects({
+      owner,
+      filter: { StructType: `${this.packageId}::ai_twin_nft::AITwinNFT` },
+      options: { showContent: true },
+    });
+    const ownsTwin = owned.data.some(obj => {
+      const content = obj.data?.content;
+      return content?.dataType === 'moveObject' && (content.fields as any).twin_id === twinId;
+    });
+    if (!ownsTwin) {
+      throw new SealAccessDeniedError('requester holds no AccessToken or AITwinNFT for this twin');
+    }
+  }
+}
+
+/**
+ * Offline policy for tests and local development
+ */
+export class InMemoryAccessVerifier implements AccessPolicyVerifier {
+  private readonly grants = new Map<string, { expiresAt: number; active: boolean }>();
+
+  grant(twinId: string, address: string, expiresAt: number = Number.POSITIVE_INFINITY) {
+    this.grants.set(this.key(twinId, address), { expiresAt, active: true });
+  }
+
+  revoke(twinId: string, address: string) {
+    const grant = this.grants.get(this.key(twinId, address));
+    if (grant) grant.active = false;
+  }
+
+  async verify({ twinId, requester }: AccessCheck): Promise<void> {
+    const grant = this.grants.get(this.key(twinId, requester));
+    if (!grant) throw new SealAccessDeniedError('no access grant');
+    if (!grant.active) throw new SealAccessDeniedError('access revoked');
+    if (grant.expiresAt <= Date.now()) throw new SealAccessDeniedError('access expired');
+  }
+
+  private key(twinId: string, address: string) {
+    return `${twinId}|${normalizeSuiAddress(address)}`;
+  }
+}
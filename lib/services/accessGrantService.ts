@@ -0,0 +1,420 @@
+/**
+ * Access Grant Service - Delivers a twin's data key to buyers inside their AccessToken
+ *
+ * Flow:
+ * 1. The buyer signs the key-derivation message, then pays; the payment transaction also
+ *    files an on-chain AccessRequest (access_token::request_access) carrying their
+ *    X25519 public key, owned by the seller
+ * 2. The creator (the only party holding the twin's data key) lists the AccessRequests
+ *    they own, wraps the key to each buyer's public key and calls access_token::grant_access,
+ *    which consumes the request and mints the AccessToken with the key in `encrypted_key`
+ * 3. The chat page reads the buyer's AccessToken and unwraps the key client-side
+ */
+
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient, type EventId, type SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress, SUI_TYPE_ARG } from '@mysten/sui/utils';
+import { CONTRACT_CONFIG, isAccessTokenRetired } from '@/lib/sui/contract';
+import { creatorShareInMist } from '@/lib/services/purchaseService';
+import type { AccessTerms } from '@/lib/services/usageMeteringService';
+import { base64ToBytes, bytesToBase64, importKey } from '@/lib/encryption';
+import {
+  KeyUnwrapError,
+  publicKeyFingerprint,
+  unwrapKey,
+  wrapKey,
+  type WalletKeyPair,
+} from '@/lib/encryption/envelope';
+
+export const ACCESS_TYPE_FULL = 1;
+export const ACCESS_TYPE_LIMITED = 2;
+export const ACCESS_TYPE_TEMPORARY = 3;
+
+// `expires_at` is always set on-chain, so full access gets a 100 year term
+export const LIFETIME_ACCESS_DAYS = 36500;
+
+// Placeholder listing ID for purchases made outside the on-chain marketplace
+const NO_LISTING_ID = normalizeSuiAddress('0x0');
+
+export interface AccessGrantRequest {
+  id: string; // AccessRequest object ID; becomes the token's `purchase_id`
+  twinId: string;
+  buyer: string;
+  seller: string;
+  buyerPublicKey: Uint8Array; // X25519 public key
+  accessType: number;
+  durationDays: number;
+  messageLimit: number; // LIMITED access allowance; 0 means no cap
+  tokenLimit: number;
+  requestedAt: number; // Unix seconds
+  purchaseDigest: string; // The payment transaction that filed the request
+}
+
+export interface TwinAccessToken {
+  objectId: string;
+  twinId: string;
+  owner: string;
+  accessType: number;
+  grantedAt: number; // Unix seconds
+  expiresAt: number; // Unix seconds
+  messageLimit: number; // LIMITED access allowance; 0 means no cap
+  tokenLimit: number;
+  isActive: boolean;
+  encryptedKey: Uint8Array;
+  recipientPublicKey: Uint8Array; // Empty for tokens minted before it was recorded
+  purchaseId: string; // The AccessRequest the token was granted for; re-grants keep it
+  originalSeller: string; // Wallet that minted it; only the twin's registered owner can
+}
+
+/**
+ * Add the buyer's AccessRequest to a transaction (the purchase transaction, so the
+ * request is only filed together with the payment)
+ */
+export function addAccessRequest(
+  tx: Transaction,
+  params: {
+    twinId: string;
+    seller: string;
+    buyerPublicKey: Uint8Array;
+    accessType?: number;
+    durationDays?: number;
+    messageLimit?: number;
+    tokenLimit?: number;
+  }
+): Transaction {
+  tx.moveCall({
+    target: `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::request_access`,
+    arguments: [
+      tx.pure.vector('u8', Array.from(new TextEncoder().encode(params.twinId))),
+      tx.pure.address(normalizeSuiAddress(params.seller)),
+      tx.pure.vector('u8', Array.from(params.buyerPublicKey)),
+      tx.pure.u8(params.accessType ?? ACCESS_TYPE_FULL),
+      tx.pure.u64(params.durationDays ?? LIFETIME_ACCESS_DAYS),
+      tx.pure.u64(params.messageLimit ?? 0),
+      tx.pure.u64(params.tokenLimit ?? 0),
+      tx.object.clock(),
+    ],
+  });
+
+  return tx;
+}
+
+function parseAccessRequest(object: SuiObjectResponse, seller: string): AccessGrantRequest | null {
+  const content = object.data?.content;
+  if (content?.dataType !== 'moveObject' || content.type !== `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::AccessRequest`) {
+    return null;
+  }
+
+  const fields = content.fields as any;
+  return {
+    id: object.data!.objectId,
+    twinId: fields.twin_id,
+    buyer: normalizeSuiAddress(fields.buyer),
+    seller,
+    buyerPublicKey: new Uint8Array(fields.buyer_public_key),
+    accessType: Number(fields.access_type),
+    durationDays: Number(fields.duration_days),
+    messageLimit: Number(fields.message_limit),
+    tokenLimit: Number(fields.token_limit),
+    requestedAt: Number(fields.requested_at),
+    purchaseDigest: object.data!.previousTransaction ?? '',
+  };
+}
+
+/**
+ * Open AccessRequests for twins sold by this address (requests are owned by the seller
+ * until granted)
+ */
+export async function fetchPendingGrants(client: SuiClient, seller: string): Promise<AccessGrantRequest[]> {
+  const owner = normalizeSuiAddress(seller);
+  const requests: AccessGrantRequest[] = [];
+  let cursor: string | null | undefined = undefined;
+
+  do {
+    const page = await client.getOwnedObjects({
+      owner,
+      filter: { StructType: `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::AccessRequest` },
+      options: { showContent: true, showPreviousTransaction: true },
+      cursor,
+    });
+
+    for (const obj of page.data) {
+      const request = parseAccessRequest(obj, owner);
+      if (request) requests.push(request);
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return requests.sort((a, b) => a.requestedAt - b.requestedAt);
+}
+
+// What the creator currently sells a twin for
+export interface ListingTerms {
+  price: number; // SUI
+  accessTerms?: AccessTerms; // Unset on listings from before access types: full access
+}
+
+/**
+ * Why a request shouldn't be granted, or an empty list when it checks out.
+ * The buyer files the terms and the payment themselves, so before granting the
+ * creator checks that the terms are the listing's and that the purchase transaction
+ * paid the creator's share of its price, for this one request.
+ */
+export async function verifyAccessRequest(
+  client: SuiClient,
+  request: AccessGrantRequest,
+  listing: ListingTerms | null
+): Promise<string[]> {
+  if (!listing) {
+    return ['This twin is not listed for sale'];
+  }
+
+  const problems: string[] = [];
+  const terms = listing.accessTerms ?? { accessType: ACCESS_TYPE_FULL, durationDays: LIFETIME_ACCESS_DAYS };
+  if (
+    request.accessType !== terms.accessType ||
+    request.durationDays !== terms.durationDays ||
+    request.messageLimit !== (terms.messageLimit ?? 0) ||
+    request.tokenLimit !== (terms.tokenLimit ?? 0)
+  ) {
+    problems.push('The requested terms differ from your listing');
+  }
+
+  if (!request.purchaseDigest) {
+    return [...problems, 'The payment transaction of this request is unknown'];
+  }
+  const payment = await client.getTransactionBlock({
+    digest: request.purchaseDigest,
+    options: { showEffects: true, showBalanceChanges: true, showObjectChanges: true },
+  });
+  if (payment.effects?.status.status !== 'success') {
+    return [...problems, 'The payment transaction failed'];
+  }
+
+  const paid = (payment.balanceChanges ?? [])
+    .filter(change =>
+      change.coinType === SUI_TYPE_ARG &&
+      typeof change.owner === 'object' &&
+      'AddressOwner' in change.owner &&
+      normalizeSuiAddress(change.owner.AddressOwner) === request.seller
+    )
+    .reduce((sum, change) => sum + BigInt(change.amount), BigInt(0));
+  if (paid < BigInt(creatorShareInMist(listing.price))) {
+    problems.push(`The payment is below your share of the ${listing.price} SUI price`);
+  }
+
+  // One payment, one grant: several requests filed together would share it
+  const requestType = `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::AccessRequest`;
+  const filed = (payment.objectChanges ?? []).filter(
+    change => change.type === 'created' && change.objectType === requestType
+  ).length;
+  if (filed !== 1) {
+    problems.push(`The payment filed ${filed} access requests`);
+  }
+
+  return problems;
+}
+
+/**
+ * Wrap the twin's data key to the buyer and build the transaction that grants their request
+ */
+export async function createGrantAccessTransaction(
+  request: AccessGrantRequest,
+  dataKey: string, // Base64 raw AES key, as stored in the creator's key vault
+  tx: Transaction = new Transaction() // Pass a transaction to grant several requests at once
+): Promise<Transaction> {
+  const encryptedKey = await wrapKey(base64ToBytes(dataKey), request.buyerPublicKey, request.twinId);
+
+  tx.moveCall({
+    target: `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::grant_access`,
+    arguments: [
+      tx.object(CONTRACT_CONFIG.ACCESS_REGISTRY),
+      tx.object(CONTRACT_CONFIG.AI_TWIN_REGISTRY),
+      tx.object(request.id),
+      tx.pure.vector('u8', Array.from(encryptedKey)),
+      tx.pure.id(NO_LISTING_ID),
+      tx.object.clock(),
+    ],
+  });
+  tx.setSender(request.seller);
+
+  return tx;
+}
+
+/**
+ * Re-grant a token with a new data key (after a key rotation). The key is wrapped to the
+ * public key the old token was issued to; the access type, `expires_at`, allowance and
+ * purchase carry over, so usage counted against the purchase still applies. The old
+ * token is retired on-chain, so it stops giving access.
+ */
+export async function createRegrantTransaction(
+  token: TwinAccessToken,
+  dataKey: string,
+  tx: Transaction = new Transaction()
+): Promise<Transaction> {
+  if (token.recipientPublicKey.length === 0) {
+    throw new Error(`AccessToken ${token.objectId} doesn't record its holder's public key`);
+  }
+  const encryptedKey = await wrapKey(base64ToBytes(dataKey), token.recipientPublicKey, token.twinId);
+
+  tx.moveCall({
+    target: `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::regrant_access`,
+    arguments: [
+      tx.object(CONTRACT_CONFIG.ACCESS_REGISTRY),
+      tx.object(CONTRACT_CONFIG.AI_TWIN_REGISTRY),
+      tx.pure.vector('u8', Array.from(new TextEncoder().encode(token.twinId))),
+      tx.pure.address(token.owner),
+      tx.pure.u8(token.accessType),
+      tx.pure.u64(token.expiresAt),
+      tx.pure.u64(token.messageLimit),
+      tx.pure.u64(token.tokenLimit),
+      tx.pure.vector('u8', Array.from(encryptedKey)),
+      tx.pure.vector('u8', Array.from(token.recipientPublicKey)),
+      tx.pure.id(token.purchaseId),
+      tx.pure.id(NO_LISTING_ID),
+      tx.pure.id(token.objectId),
+      tx.object.clock(),
+    ],
+  });
+
+  return tx;
+}
+
+function parseAccessToken(object: SuiObjectResponse): TwinAccessToken | null {
+  const content = object.data?.content;
+  if (content?.dataType !== 'moveObject' || content.type !== `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::AccessToken`) {
+    return null;
+  }
+
+  // The `owner` field isn't updated by transfer_access, so prefer the object's actual owner
+  const fields = content.fields as any;
+  const objectOwner = object.data?.owner;
+  const owner = objectOwner && typeof objectOwner === 'object' && 'AddressOwner' in objectOwner
+    ? objectOwner.AddressOwner
+    : fields.owner;
+
+  return {
+    objectId: object.data!.objectId,
+    twinId: fields.twin_id,
+    owner: normalizeSuiAddress(owner),
+    accessType: Number(fields.access_type),
+    grantedAt: Number(fields.granted_at),
+    expiresAt: Number(fields.expires_at),
+    messageLimit: Number(fields.message_limit ?? 0),
+    tokenLimit: Number(fields.token_limit ?? 0),
+    isActive: Boolean(fields.is_active),
+    encryptedKey: new Uint8Array(Array.isArray(fields.encrypted_key) ? fields.encrypted_key : []),
+    recipientPublicKey: new Uint8Array(Array.isArray(fields.recipient_public_key) ? fields.recipient_public_key : []),
+    purchaseId: fields.purchase_id,
+    originalSeller: normalizeSuiAddress(fields.original_seller),
+  };
+}
+
+function isUsable(token: TwinAccessToken, now: number = Math.floor(Date.now() / 1000)): boolean {
+  return token.isActive && token.expiresAt > now && token.encryptedKey.length > 0;
+}
+
+/**
+ * Find the newest active, unexpired AccessToken for the twin that carries a wrapped key
+ * (after a key rotation the buyer holds tokens for both keys; the old one is retired)
+ * `includeExpired` also considers expired tokens, so callers can tell "expired" from "none".
+ * `issuer` only considers tokens minted by that wallet (the twin's owner), so a token the
+ * holder minted for themselves can't shadow the real one.
+ */
+export async function findAccessToken(
+  client: SuiClient,
+  owner: string,
+  twinId: string,
+  options: { includeExpired?: boolean; issuer?: string } = {}
+): Promise<TwinAccessToken | null> {
+  const issuer = options.issuer && normalizeSuiAddress(options.issuer);
+  const candidates: TwinAccessToken[] = [];
+  let cursor: string | null | undefined = undefined;
+
+  do {
+    const page = await client.getOwnedObjects({
+      owner: normalizeSuiAddress(owner),
+      filter: { StructType: `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::AccessToken` },
+      options: { showContent: true, showOwner: true },
+      cursor,
+    });
+
+    for (const obj of page.data) {
+      const token = parseAccessToken(obj);
+      if (!token || token.twinId !== twinId) continue;
+      if (issuer && token.originalSeller !== issuer) continue;
+      if (!(options.includeExpired ? isUsable(token, 0) : isUsable(token))) continue;
+      candidates.push(token);
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  // Newest first, skipping tokens a re-grant replaced
+  candidates.sort((a, b) => b.grantedAt - a.grantedAt);
+  for (const token of candidates) {
+    if (!(await isAccessTokenRetired(client, twinId, token.objectId))) return token;
+  }
+  return null;
+}
+
+/**
+ * The newest active, unexpired AccessToken of each holder of the twin (found through AccessGranted
+ * events); revoked, retired and expired tokens, and tokens not minted by `issuer`, are left out
+ */
+export async function fetchActiveAccessTokens(
+  client: SuiClient,
+  twinId: string,
+  issuer: string
+): Promise<TwinAccessToken[]> {
+  const tokenIds: string[] = [];
+  let cursor: EventId | null | undefined = undefined;
+
+  do {
+    const page = await client.queryEvents({
+      query: { MoveEventType: `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::AccessGranted` },
+      cursor,
+    });
+    for (const event of page.data) {
+      const granted = event.parsedJson as { token_id: string; twin_id: string };
+      if (granted.twin_id === twinId) tokenIds.push(granted.token_id);
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  const tokens: TwinAccessToken[] = [];
+  // multiGetObjects accepts at most 50 IDs per call
+  for (let i = 0; i < tokenIds.length; i += 50) {
+    const objects = await client.multiGetObjects({ ids: tokenIds.slice(i, i + 50), options: { showContent: true, showOwner: true } });
+    for (const object of objects) {
+      const token = parseAccessToken(object);
+      if (token && isUsable(token) && token.originalSeller === normalizeSuiAddress(issuer)) tokens.push(token);
+    }
+  }
+  const retired = await Promise.all(tokens.map(token => isAccessTokenRetired(client, twinId, token.objectId)));
+
+  const newestPerOwner = new Map<string, TwinAccessToken>();
+  for (const [i, token] of tokens.entries()) {
+    if (retired[i]) continue;
+    const current = newestPerOwner.get(token.owner);
+    if (!current || token.grantedAt > current.grantedAt) newestPerOwner.set(token.owner, token);
+  }
+  return [...newestPerOwner.values()];
+}
+
+/**
+ * Unwrap the twin's data key from an AccessToken
+ */
+export async function unwrapTwinKey(token: TwinAccessToken, keyPair: WalletKeyPair): Promise<CryptoKey> {
+  if (
+    token.recipientPublicKey.length > 0 &&
+    publicKeyFingerprint(token.recipientPublicKey) !== publicKeyFingerprint(keyPair.publicKey)
+  ) {
+    throw new KeyUnwrapError(
+      'this access token was issued to a different encryption key than this wallet derives now. Request access again from this wallet'
+    );
+  }
+  const dataKey = await unwrapKey(token.encryptedKey, keyPair, token.twinId);
+  return importKey(bytesToBase64(dataKey));
+}
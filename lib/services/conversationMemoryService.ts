@@ -0,0 +1,255 @@
+/**
+ * Conversation Memory Service - Keeps twin chats inside the model's context
+ *
+ * Flow:
+ * 1. Each turn sends only the most recent messages verbatim (within a token budget)
+ * 2. Older messages are folded into a running summary stored with the thread
+ *    (`chatMemory_<twinId>`), once enough of them pile up
+ * 3. Durable facts the user shares ("I'm a nurse", "call me Sam") go into a per-user
+ *    memory (`userMemory_<twinId>_<address>`) that the twin recalls in later sessions
+ *
+ * The summary and facts go into the system prompt (see `TwinMemory` in lib/groq.ts).
+ */
+
+import { chatWithSchema, type GroqMessage, type TwinMemory, type TwinModelChoice } from '@/lib/groq';
+import { array, object, string } from '@/lib/llm/schema';
+import { estimateTokens } from '@/lib/llm/tokens';
+
+export const KEEP_RECENT_MESSAGES = 8;
+export const HISTORY_TOKEN_BUDGET = 3000;
+// Fold once this much unsummarized history sits outside the recent window
+const FOLD_THRESHOLD_TOKENS = 1200;
+const MAX_SUMMARY_WORDS = 250;
+const MAX_USER_FACTS = 40;
+const MAX_FACTS_PER_REPLY = 20;
+// Display history kept in localStorage; older messages survive only in the summary
+export const MAX_STORED_MESSAGES = 200;
+
+// Only run fact extraction on messages that talk about the user
+const PERSONAL_STATEMENT = /\b(i am|i'm|i've|i was|i have|i live|i work|i like|i love|i hate|i prefer|my|mine|call me)\b/i;
+
+export interface ThreadMessage {
+  id: string;
+  type: 'user' | 'ai';
+  content: string;
+}
+
+export interface ThreadMemory {
+  summary: string;
+  foldedIds: string[]; // Messages folded into the summary, the newest MAX_STORED_MESSAGES
+  summarizedThroughId?: string | null; // Memory saved before foldedIds: the last folded message
+  updatedAt: string;
+}
+
+export interface UserFact {
+  fact: string;
+  learnedAt: string;
+}
+
+interface MemoryUpdateOptions {
+  twinId: string;
+  address?: string;
+  authToken: string;
+  llm?: TwinModelChoice;
+}
+
+// Memory calls are billed to the wallet and metered against its AccessToken for the twin
+function meteredAs(options: MemoryUpdateOptions) {
+  return { authToken: options.authToken, twinId: options.twinId, purpose: 'memory' as const };
+}
+
+function threadKey(twinId: string): string {
+  return `chatMemory_${twinId}`;
+}
+
+function userKey(twinId: string, address: string): string {
+  return `userMemory_${twinId}_${address.toLowerCase()}`;
+}
+
+export function loadThreadMemory(twinId: string): ThreadMemory {
+  return JSON.parse(localStorage.getItem(threadKey(twinId)) || 'null')
+    ?? { summary: '', foldedIds: [], updatedAt: new Date(0).toISOString() };
+}
+
+function saveThreadMemory(twinId: string, memory: ThreadMemory) {
+  localStorage.setItem(threadKey(twinId), JSON.stringify(memory));
+}
+
+export function loadUserFacts(twinId: string, address?: string): UserFact[] {
+  if (!address) return [];
+  return JSON.parse(localStorage.getItem(userKey(twinId, address)) || '[]');
+}
+
+/**
+ * Forget what the twin learned about this user
+ */
+export function clearUserFacts(twinId: string, address: string) {
+  localStorage.removeItem(userKey(twinId, address));
+}
+
+/**
+ * Messages after the last folded one. Folded messages are matched by ID, so one
+ * that was trimmed from the stored history doesn't make the others look new.
+ */
+function unsummarized(messages: ThreadMessage[], memory: ThreadMemory): ThreadMessage[] {
+  const folded = new Set(memory.foldedIds ?? []);
+  if (memory.summarizedThroughId) folded.add(memory.summarizedThroughId);
+
+  let lastFolded = -1;
+  messages.forEach((message, index) => {
+    if (folded.has(message.id)) lastFolded = index;
+  });
+  return messages.slice(lastFolded + 1);
+}
+
+function toGroqMessage(message: ThreadMessage): GroqMessage {
+  return { role: message.type === 'user' ? 'user' : 'assistant', content: message.content };
+}
+
+/**
+ * History and memory for the next turn: the newest unsummarized messages that fit
+ * the budget, plus the thread summary and the user's facts
+ */
+export function buildTwinContext(
+  twinId: string,
+  messages: ThreadMessage[],
+  address?: string
+): { history: GroqMessage[]; memory: TwinMemory } {
+  const thread = loadThreadMemory(twinId);
+  const candidates = unsummarized(messages, thread).slice(-KEEP_RECENT_MESSAGES);
+
+  const history: GroqMessage[] = [];
+  let tokens = 0;
+  for (const message of [...candidates].reverse()) {
+    tokens += estimateTokens(message.content);
+    if (tokens > HISTORY_TOKEN_BUDGET && history.length > 0) break;
+    history.unshift(toGroqMessage(message));
+  }
+
+  return {
+    history,
+    memory: {
+      summary: thread.summary || undefined,
+      facts: loadUserFacts(twinId, address).map(f => f.fact),
+    },
+  };
+}
+
+/**
+ * Messages to keep in localStorage: the newest MAX_STORED_MESSAGES, but never
+ * one that hasn't been folded into the summary yet
+ */
+export function messagesToStore<T extends ThreadMessage>(twinId: string, messages: T[]): T[] {
+  if (messages.length <= MAX_STORED_MESSAGES) return messages;
+  const pending = unsummarized(messages, loadThreadMemory(twinId)).length;
+  return messages.slice(-Math.max(MAX_STORED_MESSAGES, pending));
+}
+
+const factsField = array(string({ minLength: 1, maxLength: 300 }), { maxItems: MAX_FACTS_PER_REPLY });
+
+const summarySchema = object({
+  summary: string({ minLength: 1, maxLength: MAX_SUMMARY_WORDS * 10 }),
+  facts: factsField,
+});
+
+const factsSchema = object({
+  facts: factsField,
+});
+
+function mergeFacts(twinId: string, address: string, facts: string[]) {
+  const known = loadUserFacts(twinId, address);
+  const seen = new Set(known.map(f => f.fact.toLowerCase()));
+
+  for (const fact of facts) {
+    if (seen.has(fact.trim().toLowerCase())) continue;
+    seen.add(fact.trim().toLowerCase());
+    known.push({ fact: fact.trim(), learnedAt: new Date().toISOString() });
+  }
+  // Oldest facts go first when the memory is full
+  localStorage.setItem(userKey(twinId, address), JSON.stringify(known.slice(-MAX_USER_FACTS)));
+}
+
+const FACTS_INSTRUCTION = 'durable facts the user stated about themselves (name, work, family, preferences, plans), each as a short third-person sentence; leave out small talk and anything about the AI';
+
+/**
+ * Fold history that left the recent window into the summary, if there is enough of it
+ */
+async function foldOldMessages(messages: ThreadMessage[], options: MemoryUpdateOptions) {
+  const thread = loadThreadMemory(options.twinId);
+  const pending = unsummarized(messages, thread);
+  const toFold = pending.slice(0, Math.max(0, pending.length - KEEP_RECENT_MESSAGES));
+  const foldTokens = toFold.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  // Many short messages get folded too, so stored history stays bounded
+  if (foldTokens < FOLD_THRESHOLD_TOKENS && toFold.length < MAX_STORED_MESSAGES / 2) return;
+
+  const transcript = toFold.map(m => `${m.type === 'user' ? 'User' : 'Twin'}: ${m.content}`).join('\n');
+  const result = await chatWithSchema([
+    {
+      role: 'system',
+      content: `You maintain the memory of a conversation between a user and an AI twin. Return ONLY a JSON object {"summary": string, "facts": string[]}. "summary" is the previous summary updated with the new messages, at most ${MAX_SUMMARY_WORDS} words, keeping names, decisions and open questions. "facts" lists ${FACTS_INSTRUCTION}.`,
+    },
+    {
+      role: 'user',
+      content: `Previous summary:\n${thread.summary || '(none)'}\n\nNew messages:\n${transcript}`,
+    },
+  ], summarySchema, { ...options.llm, temperature: 0.2, maxAttempts: 2, ...meteredAs(options) });
+
+  if (!result.ok) {
+    // Leave the messages unsummarized; the next turn retries
+    throw new Error(`Memory summary failed: ${result.error}`);
+  }
+
+  saveThreadMemory(options.twinId, {
+    summary: result.value.summary.trim(),
+    // Stored history keeps at most this many folded messages, so older IDs can go
+    foldedIds: [...(thread.foldedIds ?? []), ...toFold.map(m => m.id)].slice(-MAX_STORED_MESSAGES),
+    updatedAt: new Date().toISOString(),
+  });
+  if (options.address) mergeFacts(options.twinId, options.address, result.value.facts);
+  console.log(`🧠 Folded ${toFold.length} messages into the summary of ${options.twinId}`);
+}
+
+/**
+ * Remember durable facts from the user's latest message
+ */
+async function extractFacts(message: ThreadMessage, options: MemoryUpdateOptions & { address: string }) {
+  if (!PERSONAL_STATEMENT.test(message.content)) return;
+
+  const result = await chatWithSchema([
+    {
+      role: 'system',
+      content: `Return ONLY a JSON object {"facts": string[]} listing ${FACTS_INSTRUCTION}. Return {"facts": []} if there are none.`,
+    },
+    { role: 'user', content: message.content },
+  ], factsSchema, { ...options.llm, temperature: 0, max_tokens: 256, maxAttempts: 2, ...meteredAs(options) });
+
+  if (!result.ok) {
+    // Not worth failing the summary over; the user can say it again
+    console.warn('⚠️ Fact extraction failed:', result.error);
+    return;
+  }
+  mergeFacts(options.twinId, options.address, result.value.facts);
+}
+
+// One update per twin at a time; a turn that lands mid-update is picked up by the next one
+const updating = new Set<string>();
+
+/**
+ * Update thread and user memory after a completed turn (run in the background)
+ */
+export async function updateConversationMemory(messages: ThreadMessage[], options: MemoryUpdateOptions) {
+  if (updating.has(options.twinId)) return;
+  updating.add(options.twinId);
+
+  try {
+    const lastUserMessage = [...messages].reverse().find(m => m.type === 'user');
+    if (lastUserMessage && options.address) {
+      await extractFacts(lastUserMessage, { ...options, address: options.address });
+    }
+    await foldOldMessages(messages, options);
+  } catch (error) {
+    console.error('Conversation memory update failed:', error);
+  } finally {
+    updating.delete(options.twinId);
+  }
+}
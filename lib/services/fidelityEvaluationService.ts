@@ -0,0 +1,311 @@
+/**
+ * Fidelity Evaluation Service - Measures how much a twin sounds like its creator
+ *
+ * Flow:
+ * 1. Hold out a sample of passages from the decrypted training corpus. The sample
+ *    is chosen deterministically per twin, so every version is asked the same things
+ * 2. Turn each held-out passage into the prompt it answers (JSON mode, with a
+ *    keyword fallback)
+ * 3. Ask the twin each prompt, retrieving only from the rest of the corpus
+ * 4. Score each answer against the creator's passage with local style and content
+ *    metrics, and optionally with an LLM judge
+ * 5. Store the report per twin version; the creator can attach the scores to the listing
+ *
+ * Reports are kept in localStorage (for demo purposes), like the chat guard log.
+ * They contain excerpts of the private corpus, so only the aggregate scores ever
+ * go onto a listing.
+ */
+
+import { chatWithSchema, twinChat, type TwinModelChoice } from '@/lib/groq';
+import { array, integer, object, string } from '@/lib/llm/schema';
+import { BM25Index } from '@/lib/retrieval/bm25';
+import { chunkText, splitSources, type TextChunk } from '@/lib/retrieval/chunker';
+import { retrievePassages, type TwinKnowledge } from '@/lib/services/twinKnowledgeService';
+import { compilePersonality, type PersonalityProfile } from '@/lib/personality';
+import { contentSimilarity, styleSimilarity, topicWords } from '@/lib/evaluation/metrics';
+
+// Bump when sampling, prompts or scoring change; reports of different versions don't compare
+export const FIDELITY_EVAL_VERSION = 'fidelity-v1';
+export const DEFAULT_SAMPLE_SIZE = 5;
+
+const REPORTS_KEY = 'fidelityReports';
+const MAX_REPORTS_PER_TWIN = 20;
+const MIN_PASSAGE_WORDS = 40;
+const MAX_STORED_CHARS = 600;
+
+export interface FidelityJudgement {
+  style: number; // 0-100
+  content: number; // 0-100
+  reason: string;
+}
+
+export interface FidelityItem {
+  source: string;
+  prompt: string;
+  reference: string; // The creator's held-out passage (truncated)
+  answer: string; // The twin's reply (truncated)
+  style: number; // 0-100
+  content: number; // 0-100
+  judge?: FidelityJudgement;
+}
+
+export interface FidelityScores {
+  style: number;
+  content: number;
+  judge?: number; // Mean of the judge's style and content, when judged
+  overall: number; // Mean of the scores above
+}
+
+export interface FidelityReport {
+  id: string;
+  twinId: string;
+  twinName: string;
+  profileVersion: number | null; // Personality profile version; null for twins from before profiles
+  blobId: string;
+  llm: string; // provider/model the twin ran on ('default' when unset)
+  sampleSize: number;
+  scores: FidelityScores;
+  items: FidelityItem[];
+  evalVersion: string;
+  evaluatedAt: string;
+}
+
+// What a listing shows: scores only, no corpus excerpts
+export type ListingFidelity = Pick<FidelityReport, 'profileVersion' | 'sampleSize' | 'scores' | 'evalVersion' | 'evaluatedAt'>;
+
+export interface FidelityEvaluationParams {
+  twinId: string;
+  twinName: string;
+  blobId: string;
+  trainingData: {
+    extractedText?: string;
+    bio?: string;
+    personality?: string;
+    personalityProfile?: PersonalityProfile;
+  };
+  llm?: TwinModelChoice;
+  authToken?: string;
+  sampleSize?: number;
+  judge?: boolean; // Also score with an LLM judge (one extra request per item)
+  onProgress?: (step: string) => void;
+}
+
+const promptsSchema = object({
+  prompts: array(string({ minLength: 1, maxLength: 300 }), { maxItems: 20 }),
+});
+
+const judgeSchema = object({
+  style: integer({ min: 0, max: 100 }),
+  content: integer({ min: 0, max: 100 }),
+  reason: string({ maxLength: 300 }),
+});
+
+// FNV-1a; ranks passages in a stable, twin-specific order
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function percent(score: number): number {
+  return Math.round(score * 100);
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : Math.round(values.reduce((sum, x) => sum + x, 0) / values.length);
+}
+
+/**
+ * Split the corpus into held-out passages and the chunks the twin may still retrieve.
+ * Chunks next to a held-out one share overlapping sentences with it, so they are left out too.
+ */
+export function selectHoldout(
+  twinId: string,
+  corpus: string,
+  size: number = DEFAULT_SAMPLE_SIZE
+): { holdout: TextChunk[]; remaining: TextChunk[] } {
+  const bySource = splitSources(corpus).map(({ source, text }) => chunkText(source, text));
+  const candidates = bySource
+    .flatMap((chunks, s) => chunks.map((chunk, i) => ({ chunk, s, i })))
+    .filter(({ chunk }) => chunk.text.split(' ').length >= MIN_PASSAGE_WORDS)
+    .sort((a, b) => hash(`${twinId}:${a.chunk.id}`) - hash(`${twinId}:${b.chunk.id}`));
+
+  const excluded = new Set<string>();
+  const holdout: TextChunk[] = [];
+  for (const { chunk, s, i } of candidates) {
+    if (holdout.length >= size) break;
+    if (excluded.has(chunk.id)) continue;
+    holdout.push(chunk);
+    for (const neighbour of bySource[s].slice(Math.max(0, i - 1), i + 2)) excluded.add(neighbour.id);
+  }
+
+  return { holdout, remaining: bySource.flat().filter(chunk => !excluded.has(chunk.id)) };
+}
+
+/**
+ * The question each passage answers. Falls back to a keyword question per passage
+ * when the model doesn't return one prompt for each.
+ */
+async function writePrompts(passages: TextChunk[], options: { llm?: TwinModelChoice; authToken?: string }): Promise<string[]> {
+  const fallback = passages.map(p => `What do you think about ${topicWords(p.text).join(', ') || p.source}?`);
+  const numbered = passages.map((p, i) => `[${i + 1}] ${p.text}`).join('\n\n');
+
+  const result = await chatWithSchema([
+    {
+      role: 'system',
+      content: `For each numbered excerpt of someone's writing, write the question or request a friend might send them that the excerpt would answer. Address the author as "you", don't quote the excerpt and don't reveal its specific details. Return ONLY a JSON object of the form ${promptsSchema.describe()} with exactly ${passages.length} prompts, in order.`,
+    },
+    { role: 'user', content: numbered },
+  ], promptsSchema, { ...options.llm, temperature: 0.3, authToken: options.authToken });
+
+  if (!result.ok || result.value.prompts.length !== passages.length) {
+    console.warn('⚠️ Fidelity prompts fell back to keywords:', result.ok ? 'wrong prompt count' : result.error);
+    return fallback;
+  }
+  return result.value.prompts;
+}
+
+async function judgeAnswer(
+  prompt: string,
+  answer: string,
+  reference: string,
+  options: { llm?: TwinModelChoice; authToken?: string }
+): Promise<FidelityJudgement | undefined> {
+  const result = await chatWithSchema([
+    {
+      role: 'system',
+      content: `You compare an AI imitation of a person with the person's own writing. Score "style" (voice, tone, sentence rhythm, word choice) and "content" (same facts, opinions and reasoning) from 0 (nothing alike) to 100 (indistinguishable). Judge only likeness to the reference, not quality. Return ONLY a JSON object of the form ${judgeSchema.describe()}.`,
+    },
+    {
+      role: 'user',
+      content: `Prompt: ${prompt}\n\nThe person's own words:\n${reference}\n\nThe imitation's answer:\n${answer}`,
+    },
+  ], judgeSchema, { ...options.llm, temperature: 0, max_tokens: 256, maxAttempts: 2, authToken: options.authToken });
+
+  if (!result.ok) {
+    console.warn('⚠️ Fidelity judge unavailable:', result.error);
+    return undefined;
+  }
+  return result.value;
+}
+
+/**
+ * Evaluate a twin against held-out samples of its creator's writing
+ */
+export async function evaluateTwinFidelity(params: FidelityEvaluationParams): Promise<FidelityReport> {
+  const { twinId, trainingData, llm, authToken } = params;
+  const progress = params.onProgress ?? (() => {});
+
+  const { holdout, remaining } = selectHoldout(
+    twinId,
+    trainingData.extractedText || trainingData.bio || '',
+    params.sampleSize ?? DEFAULT_SAMPLE_SIZE
+  );
+  if (holdout.length === 0) {
+    throw new Error(`The training data has no passages of ${MIN_PASSAGE_WORDS}+ words to hold out`);
+  }
+
+  // Retrieval without the held-out passages; not registered as the twin's chat index
+  const index = new BM25Index<TextChunk>(chunk => chunk.text);
+  remaining.forEach(chunk => index.add(chunk));
+  const knowledge: TwinKnowledge = { twinId, index, sources: [...new Set(remaining.map(c => c.source))] };
+
+  const profile = trainingData.personalityProfile;
+  const personality = (profile && compilePersonality(profile)) || trainingData.personality || 'A helpful AI assistant';
+
+  progress('Writing evaluation prompts...');
+  const prompts = await writePrompts(holdout, { llm, authToken });
+
+  const items: FidelityItem[] = [];
+  for (const [i, passage] of holdout.entries()) {
+    progress(`Asking the twin (${i + 1}/${holdout.length})...`);
+    const prompt = prompts[i];
+    // Plain text, so Markdown markup doesn't count against the style metrics
+    const answer = await twinChat(personality, prompt, [], {
+      llm,
+      authToken,
+      twinId,
+      passages: retrievePassages(knowledge, prompt),
+      plainText: true,
+    });
+
+    const judge = params.judge ? await judgeAnswer(prompt, answer, passage.text, { llm, authToken }) : undefined;
+    items.push({
+      source: passage.source,
+      prompt,
+      reference: passage.text.slice(0, MAX_STORED_CHARS),
+      answer: answer.slice(0, MAX_STORED_CHARS),
+      style: percent(styleSimilarity(answer, passage.text)),
+      content: percent(contentSimilarity(answer, passage.text)),
+      judge,
+    });
+  }
+
+  const judged = items.filter(item => item.judge).map(item => (item.judge!.style + item.judge!.content) / 2);
+  const style = mean(items.map(item => item.style));
+  const content = mean(items.map(item => item.content));
+  const judge = judged.length > 0 ? mean(judged) : undefined;
+
+  const report: FidelityReport = {
+    id: `fidelity_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    twinId,
+    twinName: params.twinName,
+    profileVersion: profile?.version ?? null,
+    blobId: params.blobId,
+    llm: llm?.provider ? `${llm.provider}/${llm.model ?? 'default'}` : 'default',
+    sampleSize: items.length,
+    scores: {
+      style,
+      content,
+      judge,
+      overall: mean(judge === undefined ? [style, content] : [style, content, judge]),
+    },
+    items,
+    evalVersion: FIDELITY_EVAL_VERSION,
+    evaluatedAt: new Date().toISOString(),
+  };
+
+  saveFidelityReport(report);
+  console.log(`🎯 Fidelity of ${twinId} (profile v${report.profileVersion ?? '-'}): ${report.scores.overall}/100`);
+  return report;
+}
+
+function loadReports(): FidelityReport[] {
+  return JSON.parse(localStorage.getItem(REPORTS_KEY) || '[]');
+}
+
+function saveFidelityReport(report: FidelityReport) {
+  const others = loadReports().filter(r => r.twinId !== report.twinId);
+  const own = [...getFidelityReports(report.twinId).reverse(), report].slice(-MAX_REPORTS_PER_TWIN);
+  localStorage.setItem(REPORTS_KEY, JSON.stringify([...others, ...own]));
+}
+
+/**
+ * A twin's reports, newest first
+ */
+export function getFidelityReports(twinId: string): FidelityReport[] {
+  return loadReports().filter(r => r.twinId === twinId).reverse();
+}
+
+/**
+ * Put a report's scores on the twin's marketplace listing; false if the twin isn't listed
+ */
+export function attachReportToListing(report: FidelityReport): boolean {
+  const listings = JSON.parse(localStorage.getItem('marketplaceListings') || '[]');
+  if (!listings.some((l: any) => l.id === report.twinId)) return false;
+
+  const fidelity: ListingFidelity = {
+    profileVersion: report.profileVersion,
+    sampleSize: report.sampleSize,
+    scores: report.scores,
+    evalVersion: report.evalVersion,
+    evaluatedAt: report.evaluatedAt,
+  };
+  localStorage.setItem('marketplaceListings', JSON.stringify(
+    listings.map((l: any) => (l.id === report.twinId ? { ...l, fidelity } : l))
+  ));
+  return true;
+}
@@ -0,0 +1,244 @@
+/**
+ * Key Rotation Service - Replaces a twin's data key after a leak
+ *
+ * Flow:
+ * 1. Fetch the twin's training data (and encrypted source files) from Walrus and decrypt them
+ * 2. Re-encrypt everything under a fresh key and upload it to Walrus
+ * 3. Hold the new key in the vault's pending slot, then in one transaction: point the AITwinNFT
+ *    at the new blob (ai_twin_nft::update_training_data) and mint every active buyer a new
+ *    AccessToken holding the new key, wrapped to them
+ * 4. Once the transaction is confirmed, promote the pending key and update local records;
+ *    if it failed, the pending key is dropped and the current key stays as it was
+ *
+ * Revoked and expired AccessTokens are skipped. Each new token is wrapped to the public
+ * key recorded on the buyer's current one; tokens minted before public keys were recorded
+ * are reported so the creator can ask those buyers to request access again.
+ * Old blobs stay readable with the old key until their storage epochs run out.
+ * If the outcome is unknown (e.g. the page closed while signing), the pending key is kept
+ * and recoverPendingRotation() settles it against the chain on the next attempt.
+ */
+
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { CONTRACT_CONFIG, TransactionFailedError, confirmTransaction, suiClient } from '@/lib/sui/contract';
+import { storeOnWalrus, walrusService } from '@/lib/walrus';
+import {
+  decryptBlob,
+  decryptData,
+  encryptBlob,
+  encryptToContainer,
+  exportKey,
+  generateEncryptionKey,
+  importKey,
+} from '@/lib/encryption';
+import {
+  discardPendingTwinKey,
+  getPendingTwinKey,
+  promotePendingTwinKey,
+  storePendingTwinKey,
+} from '@/lib/encryption/keyVault';
+import { fetchOwnedTwins } from '@/lib/services/twinRecoveryService';
+import { createRegrantTransaction, fetchActiveAccessTokens } from '@/lib/services/accessGrantService';
+
+export interface KeyRotationParams {
+  twinId: string;
+  owner: string;
+  currentKey: string; // Base64 raw AES key
+  authToken: string; // Upload proxy session
+  signAndExecute: (args: { transaction: Transaction }) => Promise<{ digest: string }>;
+  epochs?: number;
+  client?: SuiClient;
+  onProgress?: (step: string) => void;
+}
+
+export interface KeyRotationResult {
+  newKey: string;
+  blobId: string;
+  blobSha256: string;
+  transactionDigest: string;
+  rewrapped: string[]; // Buyer addresses that received a new AccessToken
+  missingPublicKey: string[]; // Active buyers whose token doesn't record their public key
+}
+
+interface SourceFileRef {
+  name: string;
+  type: string;
+  size: number;
+  blobId: string;
+  sha256?: string;
+}
+
+async function fetchBlob(blobId: string, expectedSha256?: string): Promise<Blob> {
+  const blob = await walrusService.retrieveBlob(blobId, { expectedSha256 });
+  if (!blob) {
+    throw new Error(`Blob ${blobId} could not be retrieved from Walrus`);
+  }
+  return blob;
+}
+
+async function decryptsBlob(blobId: string, expectedSha256: string | undefined, keyString: string): Promise<boolean> {
+  const encrypted = new Uint8Array(await (await fetchBlob(blobId, expectedSha256)).arrayBuffer());
+  try {
+    await decryptData(encrypted, await importKey(keyString));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Settle a rotation whose outcome wasn't seen: if the twin's current blob opens with the
+ * pending key, the transaction went through and the key is promoted; otherwise it is dropped.
+ * The key vault must be unlocked for the owner.
+ * @returns true if a pending key was promoted
+ */
+export async function recoverPendingRotation(
+  twinId: string,
+  ownerAddress: string,
+  client: SuiClient = suiClient
+): Promise<boolean> {
+  const owner = normalizeSuiAddress(ownerAddress);
+  const pendingKey = await getPendingTwinKey(owner, twinId);
+  if (!pendingKey) return false;
+
+  const nft = (await fetchOwnedTwins(client, owner)).find(t => t.twinId === twinId);
+  if (!nft) {
+    throw new Error('The AITwinNFT for this twin is not owned by the connected wallet');
+  }
+
+  if (!(await decryptsBlob(nft.blobId, nft.metadata.blobSha256, pendingKey))) {
+    await discardPendingTwinKey(owner, twinId);
+    console.log(`🗑️ Dropped the pending key of ${twinId}: its rotation never reached the chain`);
+    return false;
+  }
+
+  await promotePendingTwinKey(owner, twinId);
+  updateLocalTwinRecords(twinId, nft.blobId, nft.metadata.blobSha256);
+  console.log(`🔄 Completed an earlier rotation of ${twinId}: its key is now current`);
+  return true;
+}
+
+/**
+ * Rotate a twin's key. The key vault must be unlocked for the owner: the new key is held
+ * there as pending while signing and becomes current once the transaction is confirmed.
+ */
+export async function rotateTwinKey(params: KeyRotationParams): Promise<KeyRotationResult> {
+  const { twinId, authToken, epochs = 5, client = suiClient } = params;
+  const owner = normalizeSuiAddress(params.owner);
+  const progress = params.onProgress ?? (() => {});
+
+  // Step 1: current state, from the chain rather than localStorage
+  progress('Looking up the twin NFT...');
+  const nft = (await fetchOwnedTwins(client, owner)).find(t => t.twinId === twinId);
+  if (!nft) {
+    throw new Error('The AITwinNFT for this twin is not owned by the connected wallet');
+  }
+
+  progress('Downloading and decrypting training data...');
+  const oldKey = await importKey(params.currentKey);
+  const encrypted = new Uint8Array(await (await fetchBlob(nft.blobId, nft.metadata.blobSha256)).arrayBuffer());
+  const trainingData = JSON.parse(await decryptData(encrypted, oldKey));
+
+  // Step 2: re-encrypt under a fresh key
+  const newKey = await generateEncryptionKey();
+  const sourceFiles: SourceFileRef[] = trainingData.sourceFiles ?? [];
+
+  for (const [index, file] of sourceFiles.entries()) {
+    progress(`Re-encrypting ${file.name} (${index + 1}/${sourceFiles.length})...`);
+    const plain = await decryptBlob(await fetchBlob(file.blobId, file.sha256), oldKey, file.type);
+    const reEncrypted = new File([await encryptBlob(plain, newKey)], `${file.name}.enc`, {
+      type: 'application/octet-stream',
+    });
+    const stored = await storeOnWalrus(reEncrypted, epochs, { authToken });
+    sourceFiles[index] = { ...file, blobId: stored.blobId, sha256: stored.sha256 };
+  }
+
+  progress('Uploading re-encrypted training data...');
+  const container = await encryptToContainer(
+    JSON.stringify({ ...trainingData, sourceFiles, keyRotatedAt: new Date().toISOString() }),
+    newKey,
+    twinId
+  );
+  const stored = await storeOnWalrus(new Blob([container], { type: 'application/octet-stream' }), epochs, { authToken });
+  const newKeyString = await exportKey(newKey);
+
+  // Step 3: record the new blob and re-grant active buyers in one transaction
+  progress('Finding active access tokens...');
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${CONTRACT_CONFIG.PACKAGE_ID}::ai_twin_nft::update_training_data`,
+    arguments: [
+      tx.object(nft.objectId),
+      tx.pure.string(stored.blobId),
+      tx.pure.string(JSON.stringify({ ...nft.metadata, blobSha256: stored.sha256 })),
+    ],
+  });
+
+  const rewrapped: string[] = [];
+  const missingPublicKey: string[] = [];
+
+  for (const token of await fetchActiveAccessTokens(client, twinId, owner)) {
+    if (token.owner === owner) continue;
+
+    if (token.recipientPublicKey.length === 0) {
+      missingPublicKey.push(token.owner);
+      continue;
+    }
+    await createRegrantTransaction(token, newKeyString, tx);
+    rewrapped.push(token.owner);
+  }
+  tx.setSender(owner);
+
+  // The chain will point at data only the new key opens: keep it before signing
+  await storePendingTwinKey(owner, twinId, newKeyString);
+
+  progress(`Signing transaction (${rewrapped.length} buyer${rewrapped.length === 1 ? '' : 's'} re-granted)...`);
+  const result = await params.signAndExecute({ transaction: tx });
+
+  progress('Waiting for confirmation...');
+  try {
+    await confirmTransaction(client, result.digest);
+  } catch (error) {
+    if (error instanceof TransactionFailedError) {
+      await discardPendingTwinKey(owner, twinId);
+    }
+    throw error;
+  }
+
+  await promotePendingTwinKey(owner, twinId);
+  updateLocalTwinRecords(twinId, stored.blobId, stored.sha256);
+
+  console.log(`🔄 Rotated key of ${twinId}: new blob ${stored.blobId}, ${rewrapped.length} buyer(s) re-granted`);
+  return {
+    newKey: newKeyString,
+    blobId: stored.blobId,
+    blobSha256: stored.sha256,
+    transactionDigest: result.digest,
+    rewrapped,
+    missingPublicKey,
+  };
+}
+
+/**
+ * Point local twin and listing records at the new blob; also scrubs any key or
+ * personality that older listings copied into public marketplaceListings
+ */
+function updateLocalTwinRecords(twinId: string, blobId: string, blobSha256?: string) {
+  const twins = JSON.parse(localStorage.getItem('aiTwins') || '[]');
+  localStorage.setItem('aiTwins', JSON.stringify(
+    twins.map((t: any) => (t.id === twinId ? { ...t, blobId, blobSha256 } : t))
+  ));
+
+  const listings = JSON.parse(localStorage.getItem('marketplaceListings') || '[]');
+  localStorage.setItem('marketplaceListings', JSON.stringify(
+    listings.map((l: any) => {
+      if (l.id !== twinId) return l;
+      const listing = { ...l, blobId, blobSha256 };
+      delete listing.encryptionKey;
+      delete listing.personality;
+      delete listing.personalityProfile;
+      return listing;
+    })
+  ));
+}
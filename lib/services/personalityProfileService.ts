@@ -0,0 +1,151 @@
+/**
+ * Personality Profile Service - Loads and saves a twin's editable personality profile
+ *
+ * Flow:
+ * 1. Decrypt the twin's training data from the blob its AITwinNFT points at
+ * 2. Replace the profile (and the compiled personality text older readers use),
+ *    bump its version and re-encrypt under the twin's existing key
+ * 3. Upload the new blob and point the AITwinNFT at it (ai_twin_nft::update_training_data)
+ *
+ * The key doesn't change, so buyers' AccessTokens keep working: they read the new
+ * blob through its TrainingDataUpdated event (see twinRecoveryService).
+ */
+
+import { Transaction } from '@mysten/sui/transactions';
+import { SuiClient } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { CONTRACT_CONFIG, confirmTransaction, suiClient } from '@/lib/sui/contract';
+import { storeOnWalrus } from '@/lib/walrus';
+import { encryptToContainer, importKey } from '@/lib/encryption';
+import { fetchOwnedTwins, type OnChainTwin } from '@/lib/services/twinRecoveryService';
+import { fetchTrainingData } from '@/lib/services/twinKnowledgeService';
+import {
+  PROFILE_SCHEMA_VERSION,
+  compilePersonality,
+  emptyPersonalityProfile,
+  validatePersonalityProfile,
+  type PersonalityProfile,
+  type PersonalityProfileContent,
+} from '@/lib/personality';
+
+interface TwinDataParams {
+  twinId: string;
+  owner: string;
+  twinKey: string; // Base64 raw AES key, from the key vault
+  client?: SuiClient;
+}
+
+export interface ProfileSaveParams extends TwinDataParams {
+  profile: PersonalityProfileContent;
+  authToken: string; // Upload proxy session
+  signAndExecute: (args: { transaction: Transaction }) => Promise<{ digest: string }>;
+  epochs?: number;
+  onProgress?: (step: string) => void;
+}
+
+export interface ProfileSaveResult {
+  profile: PersonalityProfile;
+  personality: string; // Compiled text, as stored next to the profile
+  blobId: string;
+  blobSha256: string;
+  transactionDigest: string;
+}
+
+async function loadTrainingData(params: TwinDataParams): Promise<{ nft: OnChainTwin; trainingData: any }> {
+  const nft = (await fetchOwnedTwins(params.client ?? suiClient, params.owner)).find(t => t.twinId === params.twinId);
+  if (!nft) {
+    throw new Error('The AITwinNFT for this twin is not owned by the connected wallet');
+  }
+  const key = await importKey(params.twinKey);
+  return { nft, trainingData: await fetchTrainingData(nft.blobId, key, nft.metadata.blobSha256) };
+}
+
+/**
+ * The twin's current profile. Twins created before profiles existed get one
+ * seeded with their personality text as the summary.
+ */
+export async function loadPersonalityProfile(params: TwinDataParams): Promise<PersonalityProfile> {
+  const { trainingData } = await loadTrainingData(params);
+  return trainingData.personalityProfile ?? emptyPersonalityProfile(trainingData.personality ?? '');
+}
+
+/**
+ * Save an edited profile as a new version of the twin's training data
+ */
+export async function savePersonalityProfile(params: ProfileSaveParams): Promise<ProfileSaveResult> {
+  const { twinId, authToken, epochs = 5 } = params;
+  const progress = params.onProgress ?? (() => {});
+
+  const problems = validatePersonalityProfile(params.profile);
+  if (problems.length > 0) {
+    throw new Error(`Invalid profile: ${problems.join('; ')}`);
+  }
+
+  progress('Downloading and decrypting training data...');
+  const { nft, trainingData } = await loadTrainingData(params);
+  const previous: PersonalityProfile | undefined = trainingData.personalityProfile;
+
+  const profile: PersonalityProfile = {
+    ...params.profile,
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    version: (previous?.version ?? 0) + 1,
+    updatedAt: new Date().toISOString(),
+  };
+  const personality = compilePersonality(profile);
+
+  progress('Encrypting and uploading the new version...');
+  const key = await importKey(params.twinKey);
+  const container = await encryptToContainer(
+    JSON.stringify({ ...trainingData, personality, personalityProfile: profile }),
+    key,
+    twinId
+  );
+  const stored = await storeOnWalrus(new Blob([container], { type: 'application/octet-stream' }), epochs, { authToken });
+
+  progress('Updating your twin NFT...');
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${CONTRACT_CONFIG.PACKAGE_ID}::ai_twin_nft::update_training_data`,
+    arguments: [
+      tx.object(nft.objectId),
+      tx.pure.string(stored.blobId),
+      tx.pure.string(JSON.stringify({ ...nft.metadata, blobSha256: stored.sha256 })),
+    ],
+  });
+  tx.setSender(normalizeSuiAddress(params.owner));
+  const result = await params.signAndExecute({ transaction: tx });
+
+  // Local records only move to the new version once the chain has
+  progress('Waiting for confirmation...');
+  await confirmTransaction(params.client ?? suiClient, result.digest);
+
+  updateLocalTwinRecords(twinId, { blobId: stored.blobId, blobSha256: stored.sha256, personality, personalityProfile: profile });
+
+  console.log(`🎭 Saved personality profile v${profile.version} of ${twinId}: blob ${stored.blobId}`);
+  return {
+    profile,
+    personality,
+    blobId: stored.blobId,
+    blobSha256: stored.sha256,
+    transactionDigest: result.digest,
+  };
+}
+
+/**
+ * Point local twin and listing records at the new blob; the profile itself only
+ * goes into the creator's own twin record, never into public listings
+ */
+function updateLocalTwinRecords(
+  twinId: string,
+  update: { blobId: string; blobSha256: string; personality: string; personalityProfile: PersonalityProfile }
+) {
+  const twins = JSON.parse(localStorage.getItem('aiTwins') || '[]');
+  localStorage.setItem('aiTwins', JSON.stringify(
+    twins.map((t: any) => (t.id === twinId ? { ...t, ...update } : t))
+  ));
+
+  const listings = JSON.parse(localStorage.getItem('marketplaceListings') || '[]');
+  localStorage.setItem('marketplaceListings', JSON.stringify(
+    listings.map((l: any) => (l.id === twinId ? { ...l, blobId: update.blobId, blobSha256: update.blobSha256 } : l))
+  ));
+}
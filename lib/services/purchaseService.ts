@@ -38,9 +38,9 @@ export async function createPurchaseTransaction(params: PurchaseParams): Promise
   const tx = new Transaction();
   
   // Convert SUI to MIST (1 SUI = 1,000,000,000 MIST)
-  const totalAmountInMist = Math.floor(price * 1_000_000_000);
-  const platformFeeInMist = Math.floor(totalAmountInMist * 0.1); // 10% platform fee
-  const creatorAmountInMist = totalAmountInMist - platformFeeInMist; // 90% to creator
+  const totalAmountInMist = suiToMist(price);
+  const creatorAmountInMist = creatorShareInMist(price); // 90% to creator
+  const platformFeeInMist = totalAmountInMist - creatorAmountInMist; // 10% platform fee
   
   // Split coins for both payments
   const [platformCoin] = tx.splitCoins(tx.gas, [platformFeeInMist]);
@@ -58,6 +58,15 @@ export async function createPurchaseTransaction(params: PurchaseParams): Promise
   return tx;
 }
 
+/**
+ * What the creator receives of a purchase at `price` SUI, in MIST
+ * (creators compare it with the payment before granting access)
+ */
+export function creatorShareInMist(price: number): number {
+  const totalAmountInMist = suiToMist(price);
+  return totalAmountInMist - Math.floor(totalAmountInMist * 0.1);
+}
+
 /**
  * Verify transaction success
  */
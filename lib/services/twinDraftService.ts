@@ -0,0 +1,91 @@
+/**
+ * Twin Draft Service - Lets a failed twin creation resume its uploads
+ *
+ * Flow:
+ * 1. The first attempt picks the twin ID and key (the key goes into the key vault)
+ *    and records the twin ID here, per wallet
+ * 2. Each source file gets a nonce prefix, recorded under the SHA-256 of its plaintext
+ * 3. A retry reuses the twin ID, key and nonce prefixes, so the files encrypt to the
+ *    same bytes and chunkedUpload.ts finds their stored chunks by digest
+ * 4. The draft is cleared once the twin is minted
+ *
+ * Only the nonce prefixes are in localStorage; the key never leaves the vault. A
+ * prefix is only reused for the same plaintext, as streaming encryption requires.
+ */
+
+import { SuiClient } from '@mysten/sui/client';
+import { bytesToBase64, base64ToBytes, generateNoncePrefix } from '@/lib/encryption';
+import { fetchTwinOwner, suiClient } from '@/lib/sui/contract';
+import { sha256Hex } from '@/lib/walrus/chunkedUpload';
+
+const DRAFT_KEY_PREFIX = 'twinDraft:';
+
+export interface TwinDraft {
+  twinId: string;
+  noncePrefixes: Record<string, string>; // Plaintext SHA-256 → base64 nonce prefix
+  startedAt: string;
+}
+
+function draftKey(address: string): string {
+  return `${DRAFT_KEY_PREFIX}${address}`;
+}
+
+function saveDraft(address: string, draft: TwinDraft) {
+  try {
+    localStorage.setItem(draftKey(address), JSON.stringify(draft));
+  } catch (error) {
+    console.warn('Failed to persist twin draft:', error);
+  }
+}
+
+/**
+ * Start a new draft with a fresh twin ID
+ */
+export function startTwinDraft(address: string): TwinDraft {
+  const draft: TwinDraft = {
+    twinId: `twin_${Date.now()}_${address.slice(-8)}`,
+    noncePrefixes: {},
+    startedAt: new Date().toISOString(),
+  };
+  saveDraft(address, draft);
+  return draft;
+}
+
+/**
+ * The wallet's unfinished draft, or null when there is none or its twin was minted
+ * after all (the page closed before the draft was cleared)
+ */
+export async function resumeTwinDraft(address: string, client: SuiClient = suiClient): Promise<TwinDraft | null> {
+  let draft: TwinDraft | null;
+  try {
+    draft = JSON.parse(localStorage.getItem(draftKey(address)) || 'null');
+  } catch {
+    draft = null;
+  }
+  if (!draft?.twinId) return null;
+
+  if (await fetchTwinOwner(client, draft.twinId)) {
+    clearTwinDraft(address);
+    return null;
+  }
+  return draft;
+}
+
+/**
+ * The nonce prefix to encrypt `file` with: the one an earlier attempt used for the
+ * same content, or a new one recorded for the next attempt
+ */
+export async function draftNoncePrefix(address: string, draft: TwinDraft, file: Blob): Promise<Uint8Array> {
+  const digest = await sha256Hex(file);
+  const saved = draft.noncePrefixes[digest];
+  if (saved) return base64ToBytes(saved);
+
+  const noncePrefix = generateNoncePrefix();
+  draft.noncePrefixes[digest] = bytesToBase64(noncePrefix);
+  saveDraft(address, draft);
+  return noncePrefix;
+}
+
+export function clearTwinDraft(address: string) {
+  localStorage.removeItem(draftKey(address));
+}
@@ -0,0 +1,89 @@
+/**
+ * Twin Knowledge Service - Grounds twin answers in the creator's own data
+ *
+ * Flow:
+ * 1. Decrypt the twin's training data (bio, OCR'd images, text files)
+ * 2. Chunk it into passages and build a BM25 index in memory
+ * 3. For each question, retrieve the top passages and pass them to twinChat,
+ *    which puts them in the system prompt as excerpts to answer from
+ *
+ * Indexes are kept in memory only; the decrypted corpus is never written to storage.
+ */
+
+import { walrusService } from '@/lib/walrus';
+import { decryptData } from '@/lib/encryption';
+import { BM25Index } from '@/lib/retrieval/bm25';
+import { chunkText, splitSources, type TextChunk } from '@/lib/retrieval/chunker';
+import { estimateTokens } from '@/lib/llm/tokens';
+
+export const DEFAULT_PASSAGE_LIMIT = 4;
+export const PASSAGE_TOKEN_BUDGET = 1200;
+
+export interface TwinKnowledge {
+  twinId: string;
+  index: BM25Index<TextChunk>;
+  sources: string[];
+}
+
+export interface RetrievedPassage {
+  source: string;
+  text: string;
+  score: number;
+}
+
+const indexes = new Map<string, TwinKnowledge>();
+
+/**
+ * Download and decrypt a twin's training data
+ */
+export async function fetchTrainingData(blobId: string, key: CryptoKey, expectedSha256?: string): Promise<any> {
+  const blob = await walrusService.retrieveBlob(blobId, { expectedSha256 });
+  if (!blob) {
+    throw new Error('Failed to retrieve training data from Walrus');
+  }
+  return JSON.parse(await decryptData(new Uint8Array(await blob.arrayBuffer()), key));
+}
+
+/**
+ * Index a twin's decrypted training data (replaces any earlier index of the twin)
+ */
+export function buildKnowledgeIndex(twinId: string, trainingData: { extractedText?: string; bio?: string }): TwinKnowledge {
+  // extractedText starts with the bio; older twins may only have the bio
+  const corpus = trainingData.extractedText || trainingData.bio || '';
+  const index = new BM25Index<TextChunk>(chunk => chunk.text);
+  const sources = splitSources(corpus);
+
+  for (const { source, text } of sources) {
+    for (const chunk of chunkText(source, text)) {
+      index.add(chunk);
+    }
+  }
+
+  const knowledge: TwinKnowledge = { twinId, index, sources: sources.map(s => s.source) };
+  indexes.set(twinId, knowledge);
+  console.log(`📚 Indexed ${index.size} passages from ${sources.length} sources for ${twinId}`);
+  return knowledge;
+}
+
+export function getKnowledgeIndex(twinId: string): TwinKnowledge | null {
+  return indexes.get(twinId) ?? null;
+}
+
+/**
+ * Top passages for a question, within the prompt token budget
+ */
+export function retrievePassages(
+  knowledge: TwinKnowledge,
+  question: string,
+  limit: number = DEFAULT_PASSAGE_LIMIT
+): RetrievedPassage[] {
+  const passages: RetrievedPassage[] = [];
+  let tokens = 0;
+
+  for (const { item, score } of knowledge.index.search(question, limit)) {
+    tokens += estimateTokens(item.text);
+    if (tokens > PASSAGE_TOKEN_BUDGET && passages.length > 0) break;
+    passages.push({ source: item.source, text: item.text, score });
+  }
+  return passages;
+}
@@ -0,0 +1,166 @@
+/**
+ * Twin Recovery Service - Rebuilds the local twin list from the chain
+ *
+ * After browser data is lost, the creator's AITwinNFTs still hold each twin's
+ * name, description, training data blob ID and metadata. Together with keys
+ * recovered from a passphrase backup or recovery shares, that is enough to
+ * chat with and sell the twins again.
+ */
+
+import { SuiClient, type SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { CONTRACT_CONFIG, fetchTwinOwner } from '@/lib/sui/contract';
+import { walrusService } from '@/lib/walrus';
+import { decryptDataWithKeyString } from '@/lib/encryption';
+
+// Bounds fetchTwin(): an owner's AITwinNFTs are read 50 per page
+const MAX_OWNED_PAGES = 20;
+
+export interface OnChainTwin {
+  objectId: string;
+  twinId: string;
+  name: string;
+  description: string;
+  blobId: string;
+  metadata: {
+    character?: string;
+    tone?: string;
+    dateOfBirth?: string;
+    blobSha256?: string;
+  };
+}
+
+function parseMetadata(raw: unknown): OnChainTwin['metadata'] {
+  try {
+    const text = Array.isArray(raw) ? new TextDecoder().decode(new Uint8Array(raw)) : String(raw ?? '');
+    return text ? JSON.parse(text) : {};
+  } catch {
+    return {};
+  }
+}
+
+function parseTwin(object: SuiObjectResponse): OnChainTwin | null {
+  const content = object.data?.content;
+  if (content?.dataType !== 'moveObject') return null;
+
+  const fields = content.fields as any;
+  return {
+    objectId: object.data!.objectId,
+    twinId: fields.twin_id,
+    name: fields.name,
+    description: fields.description,
+    blobId: fields.training_data_blob_id,
+    metadata: parseMetadata(fields.metadata),
+  };
+}
+
+/**
+ * All AITwinNFTs owned by the address
+ */
+export async function fetchOwnedTwins(client: SuiClient, owner: string): Promise<OnChainTwin[]> {
+  const twins: OnChainTwin[] = [];
+  let cursor: string | null | undefined = undefined;
+
+  do {
+    const page = await client.getOwnedObjects({
+      owner: normalizeSuiAddress(owner),
+      filter: { StructType: `${CONTRACT_CONFIG.PACKAGE_ID}::ai_twin_nft::AITwinNFT` },
+      options: { showContent: true },
+      cursor,
+    });
+
+    for (const obj of page.data) {
+      const twin = parseTwin(obj);
+      if (twin) twins.push(twin);
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return twins;
+}
+
+/**
+ * A twin's AITwinNFT, looked up through its registered owner (e.g. for the current blob
+ * after a key rotation); null if not found within the owner's first MAX_OWNED_PAGES pages
+ */
+export async function fetchTwin(client: SuiClient, twinId: string): Promise<OnChainTwin | null> {
+  const owner = await fetchTwinOwner(client, twinId);
+  if (!owner) return null;
+
+  let cursor: string | null | undefined = undefined;
+  for (let page = 0; page < MAX_OWNED_PAGES; page++) {
+    const result = await client.getOwnedObjects({
+      owner,
+      filter: { StructType: `${CONTRACT_CONFIG.PACKAGE_ID}::ai_twin_nft::AITwinNFT` },
+      options: { showContent: true },
+      cursor,
+    });
+
+    for (const obj of result.data) {
+      const twin = parseTwin(obj);
+      if (twin?.twinId === twinId) return twin;
+    }
+
+    if (!result.hasNextPage) break;
+    cursor = result.nextCursor;
+  }
+
+  return null;
+}
+
+/**
+ * Add on-chain twins missing from localStorage "aiTwins", and fill in the personality of every
+ * twin whose key was recovered by decrypting its training data from Walrus
+ */
+export async function restoreTwins(
+  twins: OnChainTwin[],
+  creator: string,
+  keys: Record<string, string>
+): Promise<{ added: number; decrypted: number; failed: string[] }> {
+  const saved: Array<{ id: string; personality?: string }> = JSON.parse(localStorage.getItem('aiTwins') || '[]');
+  const known = new Set(saved.map(t => t.id));
+
+  const added = twins
+    .filter(twin => !known.has(twin.twinId))
+    .map(twin => ({
+      id: twin.twinId,
+      name: twin.name,
+      avatar: twin.name.charAt(0).toUpperCase(),
+      createdAt: new Date().toISOString(),
+      filesCount: 0,
+      conversationsCount: 0,
+      nftId: twin.objectId,
+      blobId: twin.blobId,
+      blobSha256: twin.metadata.blobSha256,
+      personality: undefined as string | undefined,
+      character: twin.metadata.character,
+      tone: twin.metadata.tone,
+      bio: twin.description,
+      creator: normalizeSuiAddress(creator),
+    }));
+  const all = [...saved, ...added];
+
+  let decrypted = 0;
+  const failed: string[] = [];
+  for (const twin of twins) {
+    const entry = all.find(t => t.id === twin.twinId);
+    if (!entry || entry.personality || !keys[twin.twinId]) continue;
+
+    try {
+      const blob = await walrusService.retrieveBlob(twin.blobId, { expectedSha256: twin.metadata.blobSha256 });
+      if (!blob) throw new Error('training data not found on Walrus');
+      const encrypted = new Uint8Array(await blob.arrayBuffer());
+      const trainingData = JSON.parse(await decryptDataWithKeyString(encrypted, keys[twin.twinId]));
+      entry.personality = trainingData.personality;
+      decrypted++;
+    } catch (error) {
+      console.error(`Failed to decrypt training data of ${twin.twinId}:`, error);
+      failed.push(twin.name);
+    }
+  }
+
+  localStorage.setItem('aiTwins', JSON.stringify(all));
+  console.log(`♻️ Restored ${added.length} twin(s) from the chain, decrypted ${decrypted}`);
+  return { added: added.length, decrypted, failed };
+}
@@ -0,0 +1,157 @@
+/**
+ * Usage Metering Service - Access terms and the allowance of LIMITED and TEMPORARY access
+ *
+ * Flow:
+ * 1. The creator picks the access terms when listing: full (lifetime), limited
+ *    (a message and/or token allowance within a number of days) or temporary
+ *    (unmetered until the term ends)
+ * 2. The buyer's purchase files an AccessRequest with those terms, and the
+ *    AccessToken granted for it carries them: access type, `expires_at` and limits
+ * 3. /api/groq meters every call tagged with the twin against the token's
+ *    allowance (lib/llm/accessMetering.ts) and rejects it with 402 once the
+ *    allowance is used up; the chat page only displays what `fetchAllowance` reports
+ *
+ * Usage is counted per purchase: a new purchase starts a fresh allowance, while
+ * the tokens re-minted by a key rotation belong to the same purchase and keep it.
+ */
+
+import {
+  ACCESS_TYPE_FULL,
+  ACCESS_TYPE_LIMITED,
+  ACCESS_TYPE_TEMPORARY,
+  LIFETIME_ACCESS_DAYS,
+} from '@/lib/services/accessGrantService';
+
+const SECONDS_PER_DAY = 86400;
+
+export interface AccessTerms {
+  accessType: number; // ACCESS_TYPE_* of the marketplace module
+  durationDays: number;
+  messageLimit?: number; // LIMITED only; unset means no message cap
+  tokenLimit?: number; // LIMITED only; prompt and reply tokens of the buyer's turns, incl. guard and memory calls
+}
+
+export const FULL_ACCESS_TERMS: AccessTerms = { accessType: ACCESS_TYPE_FULL, durationDays: LIFETIME_ACCESS_DAYS };
+
+export interface Allowance {
+  accessType: number;
+  expiresAt: number; // Unix seconds
+  messagesUsed: number;
+  messageLimit?: number;
+  tokensUsed: number;
+  tokenLimit?: number;
+}
+
+export class AccessQuotaError extends Error {
+  constructor(
+    public readonly reason: 'expired' | 'messages' | 'tokens',
+    public readonly allowance: Allowance
+  ) {
+    super(QUOTA_MESSAGES[reason]);
+    this.name = 'AccessQuotaError';
+  }
+}
+
+const QUOTA_MESSAGES: Record<AccessQuotaError['reason'], string> = {
+  expired: 'Your access to this twin has expired. Purchase it again to keep chatting.',
+  messages: 'You have used all messages included in your access. Purchase it again to keep chatting.',
+  tokens: 'You have used all tokens included in your access. Purchase it again to keep chatting.',
+};
+
+/**
+ * Whether usage of this access type is checked at all (full access is never metered)
+ */
+export function isMetered(accessType: number): boolean {
+  return accessType === ACCESS_TYPE_LIMITED || accessType === ACCESS_TYPE_TEMPORARY;
+}
+
+/**
+ * Short description for listings and the purchase dialog, e.g. "20 messages within 7 days"
+ */
+export function describeAccessTerms(terms: AccessTerms = FULL_ACCESS_TERMS): string {
+  const days = `${terms.durationDays} day${terms.durationDays === 1 ? '' : 's'}`;
+  if (terms.accessType === ACCESS_TYPE_TEMPORARY) return `Unlimited chat for ${days}`;
+  if (terms.accessType !== ACCESS_TYPE_LIMITED) return 'Lifetime access';
+
+  const caps = [
+    terms.messageLimit && `${terms.messageLimit.toLocaleString()} messages`,
+    terms.tokenLimit && `${terms.tokenLimit.toLocaleString()} tokens`,
+  ].filter(Boolean);
+  return caps.length > 0 ? `${caps.join(' / ')} within ${days}` : `Limited access for ${days}`;
+}
+
+/**
+ * Problems with terms entered by a creator; empty when they are valid
+ */
+export function validateAccessTerms(terms: AccessTerms): string[] {
+  const problems: string[] = [];
+  if (!isMetered(terms.accessType)) return problems;
+
+  if (!Number.isInteger(terms.durationDays) || terms.durationDays < 1 || terms.durationDays > 365) {
+    problems.push('Duration must be between 1 and 365 days');
+  }
+  if (terms.accessType === ACCESS_TYPE_LIMITED) {
+    if (!terms.messageLimit && !terms.tokenLimit) {
+      problems.push('Limited access needs a message or token allowance');
+    }
+    for (const [label, limit] of [['Message', terms.messageLimit], ['Token', terms.tokenLimit]] as const) {
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        problems.push(`${label} allowance must be a positive whole number`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * The signed-in wallet's allowance for the twin as /api/groq meters it,
+ * or null when its chats with the twin aren't metered
+ */
+export async function fetchAllowance(twinId: string, authToken: string): Promise<Allowance | null> {
+  const response = await fetch(`/api/allowance?twinId=${encodeURIComponent(twinId)}`, {
+    headers: { Authorization: `Bearer ${authToken}` },
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load access allowance');
+  }
+  return (await response.json()).allowance;
+}
+
+/**
+ * Why the buyer may not send another message, or null while the allowance lasts
+ */
+export function allowanceProblem(
+  allowance: Allowance,
+  now: number = Math.floor(Date.now() / 1000)
+): AccessQuotaError['reason'] | null {
+  if (allowance.expiresAt <= now) return 'expired';
+  if (allowance.messageLimit !== undefined && allowance.messagesUsed >= allowance.messageLimit) return 'messages';
+  if (allowance.tokenLimit !== undefined && allowance.tokensUsed >= allowance.tokenLimit) return 'tokens';
+  return null;
+}
+
+/**
+ * Remaining allowance for the chat header, e.g. "12 of 20 messages left · 3 days left"
+ */
+export function describeAllowance(allowance: Allowance, now: number = Math.floor(Date.now() / 1000)): string {
+  const parts: string[] = [];
+  if (allowance.messageLimit !== undefined) {
+    parts.push(`${Math.max(0, allowance.messageLimit - allowance.messagesUsed)} of ${allowance.messageLimit} messages left`);
+  }
+  if (allowance.tokenLimit !== undefined) {
+    parts.push(`${Math.max(0, allowance.tokenLimit - allowance.tokensUsed).toLocaleString()} tokens left`);
+  }
+
+  const secondsLeft = allowance.expiresAt - now;
+  if (secondsLeft <= 0) {
+    parts.push('expired');
+  } else if (secondsLeft < SECONDS_PER_DAY) {
+    const hours = Math.max(1, Math.floor(secondsLeft / 3600));
+    parts.push(`${hours} hour${hours === 1 ? '' : 's'} left`);
+  } else {
+    const days = Math.floor(secondsLeft / SECONDS_PER_DAY);
+    parts.push(`${days} day${days === 1 ? '' : 's'} left`);
+  }
+  return parts.join(' · ');
+}
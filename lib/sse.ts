@@ -0,0 +1,70 @@
+/**
+ * Server-Sent Events helpers
+ * Shared by the /api/groq route (reading the upstream stream, writing ours)
+ * and lib/groq.ts (reading ours in the browser).
+ */
+
+export interface ServerSentEvent {
+  event: string; // 'message' unless the event names itself
+  data: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode one event for a `text/event-stream` response
+ */
+export function encodeServerSentEvent(data: unknown, event?: string): Uint8Array {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  const lines = payload.split('\n').map(line => `data: ${line}`).join('\n');
+  return encoder.encode(`${event ? `event: ${event}\n` : ''}${lines}\n\n`);
+}
+
+/**
+ * Parse a `text/event-stream` body into events as they arrive
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Events are separated by a blank line
+      let boundary: RegExpExecArray | null;
+      while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+        const block = buffer.slice(0, boundary.index);
+        buffer = buffer.slice(boundary.index + boundary[0].length);
+        const event = parseEventBlock(block);
+        if (event) yield event;
+      }
+
+      if (done) break;
+    }
+
+    const last = parseEventBlock(buffer);
+    if (last) yield last;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue; // Comments keep the connection alive
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
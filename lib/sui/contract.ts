@@ -5,6 +5,7 @@
 
 import { SuiClient } from '@mysten/sui/client';
 import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
 
 // Contract addresses from environment
 export const CONTRACT_CONFIG = {
@@ -27,6 +28,79 @@ export const suiClient = new SuiClient({
     : 'https://fullnode.testnet.sui.io:443',
 });
 
+export class TransactionFailedError extends Error {
+  constructor(public readonly digest: string, reason: string) {
+    super(`Transaction ${digest} failed: ${reason}`);
+    this.name = 'TransactionFailedError';
+  }
+}
+
+/**
+ * Wait for a transaction and throw TransactionFailedError unless it succeeded
+ * (a wallet returns a digest for transactions that abort, too)
+ */
+export async function confirmTransaction(client: SuiClient, digest: string): Promise<void> {
+  const txResponse = await client.waitForTransaction({
+    digest,
+    options: {
+      showEffects: true,
+    },
+  });
+
+  if (txResponse.effects?.status?.status !== 'success') {
+    throw new TransactionFailedError(digest, txResponse.effects?.status?.error || 'unknown error');
+  }
+}
+
+// AITwinRegistry.twins is a Table<String, address>; its entries are dynamic fields of the table
+let registryTableId: Promise<string> | null = null;
+
+function fetchRegistryTableId(client: SuiClient): Promise<string> {
+  if (!registryTableId) {
+    registryTableId = client
+      .getObject({ id: CONTRACT_CONFIG.AI_TWIN_REGISTRY, options: { showContent: true } })
+      .then(registry => {
+        const content = registry.data?.content;
+        if (content?.dataType !== 'moveObject') {
+          throw new Error('AITwinRegistry not found');
+        }
+        return (content.fields as any).twins.fields.id.id as string;
+      });
+    registryTableId.catch(() => {
+      registryTableId = null;
+    });
+  }
+  return registryTableId;
+}
+
+/**
+ * Current owner of a twin's NFT, from AITwinRegistry; null if the twin isn't registered
+ */
+export async function fetchTwinOwner(client: SuiClient, twinId: string): Promise<string | null> {
+  const entry = await client.getDynamicFieldObject({
+    parentId: await fetchRegistryTableId(client),
+    name: { type: '0x1::string::String', value: twinId },
+  });
+  const content = entry.data?.content;
+  if (content?.dataType !== 'moveObject') return null;
+  return normalizeSuiAddress((content.fields as any).value);
+}
+
+/**
+ * Whether a key-rotation re-grant replaced the AccessToken (access_token::regrant_access);
+ * a replaced token no longer gives access
+ */
+export async function isAccessTokenRetired(client: SuiClient, twinId: string, tokenId: string): Promise<boolean> {
+  const entry = await client.getDynamicFieldObject({
+    parentId: CONTRACT_CONFIG.ACCESS_REGISTRY,
+    name: {
+      type: `${CONTRACT_CONFIG.PACKAGE_ID}::access_token::RetiredToken`,
+      value: { twin_id: twinId, token_id: tokenId },
+    },
+  });
+  return Boolean(entry.data);
+}
+
 /**
  * Dataset NFT Interface
  */
@@ -45,6 +119,8 @@ export interface DatasetNFT {
   dataset_type: string;
   total_records: number;
   image_url?: string;
+  analysis_model: string; // Provider/model that produced the scores
+  prompt_version: string; // Version of the quality-analysis prompt
 }
 
 /**
@@ -64,6 +140,8 @@ export async function mintDatasetNFT(params: {
   dataset_type: string;
   total_records: number;
   image_url?: string;
+  analysis_model: string;
+  prompt_version: string;
 }) {
   const tx = new Transaction();
 
@@ -83,6 +161,8 @@ export async function mintDatasetNFT(params: {
       tx.pure.string(params.dataset_type),
       tx.pure.u64(params.total_records),
       tx.pure.string(params.image_url || ''),
+      tx.pure.string(params.analysis_model),
+      tx.pure.string(params.prompt_version),
     ],
   });
 
@@ -106,6 +186,8 @@ export async function updateDatasetNFT(params: {
   completeness_score: number;
   consistency_score: number;
   bias_level: string;
+  analysis_model: string;
+  prompt_version: string;
 }) {
   const tx = new Transaction();
 
@@ -119,6 +201,8 @@ export async function updateDatasetNFT(params: {
       tx.pure.u64(params.completeness_score),
       tx.pure.u64(params.consistency_score),
       tx.pure.string(params.bias_level),
+      tx.pure.string(params.analysis_model),
+      tx.pure.string(params.prompt_version),
     ],
   });
 
@@ -184,6 +268,8 @@ export async function getOwnedDatasetNFTs(ownerAddress: string): Promise<Dataset
           dataset_type: fields.dataset_type || '',
           total_records: parseInt(fields.total_records || '0'),
           image_url: fields.image_url || '',
+          analysis_model: fields.analysis_model || '',
+          prompt_version: fields.prompt_version || '',
         });
       }
     }
@@ -231,6 +317,8 @@ export async function getDatasetNFT(nftId: string): Promise<DatasetNFT | null> {
       dataset_type: fields.dataset_type || '',
       total_records: parseInt(fields.total_records || '0'),
       image_url: fields.image_url || '',
+      analysis_model: fields.analysis_model || '',
+      prompt_version: fields.prompt_version || '',
     };
   } catch (error) {
     console.error('Error fetching Dataset NFT:', error);
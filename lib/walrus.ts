@@ -13,19 +13,41 @@
  * ✅ Cryptographic proofs of data integrity
  * ✅ Multi-party computation for secure data sharing
  * 
- * Current Implementation: Plain storage (encryption coming in future versions)
- * Seal SDK: @mysten/seal v0.8.0+
+ * Current Implementation: Seal-style policy encryption (see lib/seal.ts)
+ * - Blobs are encrypted under an identity derived from the twin ID
+ * - Decryption keys are released only to holders of a valid AccessToken
+ * - Expired or revoked AccessTokens are refused (time-locked access)
+ * - A local key server stands in for Seal's key servers
  * 
  * Future Features:
- * - Encrypted dataset storage with Seal
- * - Buyer-specific decryption keys
- * - Time-based access expiration
+ * - Threshold decryption across independent Seal key servers (@mysten/seal)
  * - Multi-signature access control
  */
 
-// Import Seal SDK for future encryption capabilities
-// @ts-ignore - Seal protocol reserved for future encryption features
-// import '@mysten/seal';
+import { EndpointPool, type EndpointHealth } from '@/lib/walrus/endpointPool';
+import {
+  DEFAULT_CHUNK_SIZE,
+  parseManifest,
+  reassembleChunks,
+  sha256Hex,
+  uploadInChunks,
+  type ChunkedUploadOptions,
+  type StoredChunk,
+} from '@/lib/walrus/chunkedUpload';
+import {
+  BlobIntegrityError,
+  getBlobDigest,
+  recordBlobDigest,
+  verifyBlobDigest,
+} from '@/lib/walrus/integrity';
+import {
+  DEFAULT_EPOCHS,
+  MAX_EPOCHS_AHEAD,
+  getBlobLifetime,
+  observeEpoch,
+  recordBlobLifetime,
+} from '@/lib/walrus/lifetime';
+import { sealDecrypt, sealEncrypt, type SealCredentials, type SealKeyServer } from '@/lib/seal';
 
 export interface WalrusStoreResponse {
   newlyCreated?: {
@@ -69,6 +91,10 @@ export interface StorageResult {
   error?: string;
   cost?: number;
   size?: number;
+  chunked?: boolean;
+  sha256?: string; // Digest of the stored content, checked again on retrieval
+  endEpoch?: number; // First epoch in which the blob is no longer available
+  deletable?: boolean;
 }
 
 export interface WalrusUploadResult {
@@ -76,6 +102,10 @@ export interface WalrusUploadResult {
   url: string;
   size: number;
   cost?: number;
+  chunked?: boolean;
+  sha256: string;
+  endEpoch?: number;
+  deletable?: boolean;
 }
 
 // Array of all available Walrus testnet publishers
@@ -129,188 +159,294 @@ const WALRUS_AGGREGATORS = [
   'https://walrus-testnet.blockscope.net'
 ];
 
+/**
+ * Parse a comma-separated endpoint list from the environment
+ * e.g. NEXT_PUBLIC_WALRUS_PUBLISHERS=http://localhost:31415/publisher/0,http://localhost:31415/publisher/1
+ */
+function endpointsFromEnv(value: string | undefined): string[] | undefined {
+  const endpoints = (value || '')
+    .split(',')
+    .map(url => url.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  return endpoints.length > 0 ? endpoints : undefined;
+}
+
+export interface WalrusServiceConfig {
+  publishers?: string[];
+  aggregators?: string[];
+  proxyUrl?: string; // Upload through this API route instead of calling publishers directly
+  persistHealth?: boolean; // Keep endpoint health in localStorage (default true)
+  random?: () => number; // Deterministic endpoint selection in tests
+}
+
+// Upload failover limits
+const MAX_UPLOAD_ATTEMPTS = 5;
+const UPLOAD_TIMEOUT_MS = 120_000;
+
+// Per-aggregator retrieval timeout
+const RETRIEVAL_TIMEOUT_MS = 30_000;
+
+/**
+ * sequential: try aggregators one by one, best first
+ * race:       query all aggregators in parallel and take the first hit
+ */
+export type RetrievalStrategy = 'sequential' | 'race';
+
+export interface RetrieveOptions {
+  strategy?: RetrievalStrategy;
+  signal?: AbortSignal;
+  raw?: boolean; // Return manifest blobs as-is instead of reassembling their chunks
+  expectedSha256?: string; // Defaults to the digest recorded when this browser stored the blob
+}
+
+export interface SealPolicy {
+  twinId: string;
+  keyServer?: SealKeyServer;
+}
+
+export interface StoreOptions extends ChunkedUploadOptions {
+  seal?: SealPolicy; // Encrypt under the twin's Seal identity before upload
+  epochs?: number; // Storage duration in epochs (default 5, max 53)
+  deletable?: boolean; // Defaults to the service's storage mode
+  authToken?: string; // Wallet session token, required when uploading through the proxy
+}
+
+interface PutOptions {
+  signal?: AbortSignal;
+  authToken?: string;
+}
+
 export class WalrusService {
   private publisherUrl: string;
   private aggregatorUrl: string;
   private readonly usePermanentStorage: boolean;
-  private testedPublishers: string[] = [];
+  private readonly publishers: EndpointPool;
+  private readonly aggregators: EndpointPool;
+  private readonly proxyUrl?: string;
+
+  constructor(usePermanentStorage: boolean = true, config: WalrusServiceConfig = {}) {
+    const publishers = config.publishers
+      ?? endpointsFromEnv(process.env.NEXT_PUBLIC_WALRUS_PUBLISHERS)
+      ?? WALRUS_PUBLISHERS;
+    const aggregators = config.aggregators
+      ?? endpointsFromEnv(process.env.NEXT_PUBLIC_WALRUS_AGGREGATORS)
+      ?? WALRUS_AGGREGATORS;
+    const persist = config.persistHealth ?? true;
 
-  constructor(usePermanentStorage: boolean = true) {
-    this.publisherUrl = WALRUS_PUBLISHERS[0]; // Start with first publisher
-    this.aggregatorUrl = WALRUS_AGGREGATORS[0]; // Start with first aggregator
+    this.publishers = new EndpointPool(publishers, {
+      storageKey: persist ? 'walrusPublisherHealth' : undefined,
+      random: config.random,
+    });
+    this.publisherUrl = this.publishers.best(); // Start with best known publisher
+    this.aggregators = new EndpointPool(aggregators, {
+      storageKey: persist ? 'walrusAggregatorHealth' : undefined,
+      random: config.random,
+    });
+    this.aggregatorUrl = this.aggregators.best(); // Start with best known aggregator
     this.usePermanentStorage = usePermanentStorage;
+    this.proxyUrl = config.proxyUrl || undefined;
     
     console.log('🐋 Walrus service initialized:', {
-      publisher: this.publisherUrl,
+      publisher: this.proxyUrl ?? this.publisherUrl,
       aggregator: this.aggregatorUrl,
       permanentStorage: this.usePermanentStorage,
-      totalPublishers: WALRUS_PUBLISHERS.length,
-      totalAggregators: WALRUS_AGGREGATORS.length
+      totalPublishers: this.publishers.size,
+      totalAggregators: this.aggregators.size
     });
   }
 
   /**
-   * Test a publisher endpoint to see if it's working
+   * Return the best scored publisher from the pool
+   * No test uploads are made: health comes from real upload outcomes
    */
-  private async testPublisher(publisherUrl: string): Promise<boolean> {
-    try {
-      console.log('🧪 Testing publisher:', publisherUrl);
-      
-      // Create a small test blob (1 byte)
-      const testData = new Uint8Array([1]);
-      
-      // Use minimal epochs for testing (not permanent to save costs)
-      const response = await fetch(`${publisherUrl}/v1/blobs?epochs=1`, {
-        method: 'PUT',
-        body: testData,
-        signal: AbortSignal.timeout(10000) // 10 second timeout
-      });
+  async findWorkingPublisher(): Promise<string> {
+    this.publisherUrl = this.publishers.best();
+    return this.publisherUrl;
+  }
 
-      const isWorking = response.status === 200;
-      console.log(`${isWorking ? '✅' : '❌'} Publisher ${publisherUrl}: ${response.status}`);
-      
-      return isWorking;
-    } catch (error) {
-      console.log(`❌ Publisher ${publisherUrl}: ${error instanceof Error ? error.message : 'Failed'}`);
-      return false;
+  /**
+   * Health of every publisher in the pool, best first
+   */
+  getPublisherHealth(): EndpointHealth[] {
+    return this.publishers.getStats();
+  }
+
+  /**
+   * PUT a blob through the upload proxy when one is configured, else straight to the publishers
+   */
+  private async putBlob(body: Blob, query: string, options: PutOptions = {}): Promise<WalrusStoreResponse> {
+    return this.proxyUrl
+      ? this.putViaProxy(body, query, options)
+      : this.publishToPool(body, query, options.signal);
+  }
+
+  /**
+   * Upload through the proxy route, which checks the wallet session and quotas
+   */
+  private async putViaProxy(body: Blob, query: string, options: PutOptions): Promise<WalrusStoreResponse> {
+    if (!options.authToken) {
+      throw new Error('Uploads require a wallet session; connect your wallet and sign in');
     }
+
+    console.log('📤 Publishing via proxy:', `${this.proxyUrl}?${query}`);
+    const response = await fetch(`${this.proxyUrl}?${query}`, {
+      method: 'PUT',
+      body,
+      headers: {
+        Authorization: `Bearer ${options.authToken}`,
+        'Content-Type': body.type || 'application/octet-stream',
+      },
+      signal: options.signal,
+    });
+
+    if (response.status === 200) {
+      this.publisherUrl = this.proxyUrl!;
+      return response.json();
+    }
+
+    const error = await response.json().catch(() => ({}));
+    throw new Error(`Walrus upload rejected (${response.status}): ${error.error || response.statusText}`);
   }
 
   /**
-   * Find and set a working publisher
+   * PUT a blob, failing over between publishers chosen by weighted score
+   * Called directly by the upload proxy route on the server
    */
-  async findWorkingPublisher(): Promise<string> {
-    console.log('🔍 Finding working publisher from', WALRUS_PUBLISHERS.length, 'endpoints...');
-    
-    // Test publishers in parallel (but limit concurrency)
-    const batchSize = 5;
-    for (let i = 0; i < WALRUS_PUBLISHERS.length; i += batchSize) {
-      const batch = WALRUS_PUBLISHERS.slice(i, i + batchSize);
-      
-      const testPromises = batch.map(async (publisher) => {
-        const isWorking = await this.testPublisher(publisher);
-        return { publisher, isWorking };
-      });
+  async publishToPool(body: BodyInit, query: string, signal?: AbortSignal): Promise<WalrusStoreResponse> {
+    const tried = new Set<string>();
+    let lastError: Error | null = null;
 
-      const results = await Promise.all(testPromises);
-      
-      // Find first working publisher in this batch
-      const workingPublisher = results.find(result => result.isWorking);
-      if (workingPublisher) {
-        this.publisherUrl = workingPublisher.publisher;
-        this.testedPublishers.push(workingPublisher.publisher);
-        console.log('🎉 Found working publisher:', workingPublisher.publisher);
-        return workingPublisher.publisher;
+    for (let attempt = 1; attempt <= MAX_UPLOAD_ATTEMPTS; attempt++) {
+      signal?.throwIfAborted();
+      const publisher = this.publishers.select(tried);
+      if (!publisher) break;
+      tried.add(publisher);
+
+      const url = `${publisher}/v1/blobs?${query}`;
+      console.log(`📤 Publishing to URL (attempt ${attempt}/${MAX_UPLOAD_ATTEMPTS}):`, url);
+
+      const startedAt = Date.now();
+      const timeout = AbortSignal.timeout(UPLOAD_TIMEOUT_MS);
+      try {
+        const response = await fetch(url, {
+          method: 'PUT',
+          body,
+          signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+        });
+
+        if (response.status === 200) {
+          const result: WalrusStoreResponse = await response.json();
+          this.publishers.recordSuccess(publisher, Date.now() - startedAt);
+          this.publisherUrl = publisher;
+          return result;
+        }
+
+        const errorText = await response.text();
+        lastError = new Error(`Walrus upload failed: ${response.status} - ${errorText}`);
+      } catch (error) {
+        // Cancelled by the caller: not the publisher's fault
+        if (signal?.aborted) throw error;
+        lastError = error instanceof Error ? error : new Error(String(error));
       }
 
-      // Add failed publishers to tested list
-      this.testedPublishers.push(...results.map(r => r.publisher));
+      console.log(`❌ Publisher ${publisher} failed:`, lastError.message);
+      this.publishers.recordFailure(publisher, lastError);
     }
 
-    // If no publisher works, keep the original
-    console.warn('⚠️ No working publisher found, using first one:', this.publisherUrl);
-    return this.publisherUrl;
+    throw lastError ?? new Error('No Walrus publisher available (all circuits open)');
   }
 
   /**
-   * SEAL ENCRYPTION (Coming Soon)
-   * -----------------------------
-   * Future method to encrypt files before upload using Seal protocol
-   * Will enable secure, buyer-specific access control
+   * SEAL ENCRYPTION
+   * ---------------
+   * Encrypt a file before upload under the twin's Seal identity
+   * Only holders of a valid AccessToken for the twin (or its creator) can decrypt
    * 
    * @param file - File to encrypt
-   * @param accessPolicy - Who can decrypt (buyer wallet address, time locks, etc.)
-   * @returns Encrypted blob + decryption metadata
+   * @param accessPolicy - Twin whose AccessTokens grant decryption
+   * @returns Sealed object bytes (identity + ephemeral key + ciphertext)
    */
-  private async encryptWithSeal(file: File, accessPolicy?: any): Promise<Uint8Array> {
-    // TODO: Implement Seal encryption
-    // const seal = new Seal();
-    // const encrypted = await seal.encrypt(file, accessPolicy);
-    // return encrypted;
-    
-    // For now, return unencrypted
-    return new Uint8Array(await file.arrayBuffer());
+  private async encryptWithSeal(file: File, accessPolicy: SealPolicy): Promise<Uint8Array<ArrayBuffer>> {
+    const data = new Uint8Array(await file.arrayBuffer());
+    return sealEncrypt(data, accessPolicy.twinId, accessPolicy.keyServer);
   }
 
   /**
-   * Store a file on Walrus (plain storage, Seal encryption coming soon)
+   * Store a file on Walrus, Seal-encrypted when `options.seal` is set
+   * Files larger than one chunk are uploaded as chunks plus a manifest blob
    */
-  async storeFile(file: File): Promise<StorageResult> {
+  async storeFile(file: File, options: StoreOptions = {}): Promise<StorageResult> {
     try {
       console.log('📤 Starting Walrus file storage...');
       console.log('📄 File:', file.name, file.type, file.size, 'bytes');
 
-      // Convert file to ArrayBuffer
-      const arrayBuffer = await file.arrayBuffer();
-      
+      if (options.seal) {
+        console.log('🔐 Encrypting with Seal for twin:', options.seal.twinId);
+        const sealed = await this.encryptWithSeal(file, options.seal);
+        file = new File([sealed], file.name, { type: 'application/octet-stream' });
+      }
+
+      const sha256 = await sha256Hex(file);
+      console.log('🧾 SHA-256:', sha256);
+
+      const query = this.storageQuery(options);
+      const deletable = options.deletable ?? !this.usePermanentStorage;
+      console.log('⏳ Storage:', query);
+
+      const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+      if (file.size > chunkSize) {
+        console.log('🧩 Large file, uploading in', Math.ceil(file.size / chunkSize), 'chunks...');
+        const { manifestBlobId, cost, endEpoch } = await uploadInChunks(
+          file,
+          (chunk, signal) => this.storeChunk(chunk, query, { signal, authToken: options.authToken }),
+          { ...options, chunkSize }
+        );
+
+        console.log('🎉 Chunked upload successful!');
+        console.log('🆔 Manifest Blob ID:', manifestBlobId);
+        recordBlobDigest(manifestBlobId, sha256);
+        if (endEpoch !== undefined) {
+          recordBlobLifetime({ blobId: manifestBlobId, endEpoch, deletable, size: file.size, chunked: true });
+        }
+
+        return {
+          success: true,
+          blobId: manifestBlobId,
+          suiRef: manifestBlobId,
+          cost,
+          size: file.size,
+          chunked: true,
+          sha256,
+          endEpoch,
+          deletable
+        };
+      }
+
       console.log('☁️ Uploading to Walrus...');
+      const result = await this.putBlob(file, query, options);
       
-      // Build URL with permanent storage parameter
-      const storageParam = this.usePermanentStorage ? 'permanent=true' : 'epochs=5';
-      let url = `${this.publisherUrl}/v1/blobs?${storageParam}`;
-      console.log('📤 Publishing to URL:', url);
-      
-      let response = await fetch(url, {
-        method: 'PUT',
-        body: arrayBuffer,
-      });
+      console.log('📨 Walrus response:', result);
+      console.log('✅ Successfully used publisher:', this.publisherUrl);
 
-      // If current publisher fails, try to find a working one
-      if (response.status !== 200) {
-        console.log('❌ Current publisher failed, finding working publisher...');
-        await this.findWorkingPublisher();
-        
-        // Retry with working publisher - rebuild URL with storage param
-        const storageParam = this.usePermanentStorage ? 'permanent=true' : 'epochs=5';
-        url = `${this.publisherUrl}/v1/blobs?${storageParam}`;
-        console.log('🔄 Retrying with working publisher:', url);
-        
-        response = await fetch(url, {
-          method: 'PUT',
-          body: arrayBuffer,
+      const stored = { ...this.toStorageResult(result), sha256 };
+      recordBlobDigest(stored.blobId!, sha256);
+      if (stored.endEpoch !== undefined) {
+        recordBlobLifetime({
+          blobId: stored.blobId!,
+          endEpoch: stored.endEpoch,
+          deletable: stored.deletable ?? deletable,
+          size: file.size,
         });
       }
-
-      if (response.status === 200) {
-        const result: WalrusStoreResponse = await response.json();
-        console.log('📨 Walrus response:', result);
-        console.log('✅ Successfully used publisher:', this.publisherUrl);
-        
-        // Extract blob ID and metadata from response
-        if (result.newlyCreated) {
-          const { blobId, size } = result.newlyCreated.blobObject;
-          const { cost } = result.newlyCreated;
-          
-          console.log('🎉 Upload successful!');
-          console.log('🆔 Blob ID:', blobId);
-          console.log('📊 Size:', size, 'bytes');
-          console.log('💰 Cost:', cost);
-          
-          return {
-            success: true,
-            blobId,
-            suiRef: blobId,
-            cost,
-            size
-          };
-        } else if (result.alreadyCertified) {
-          const { blobId } = result.alreadyCertified;
-          
-          console.log('♻️ File already exists on Walrus');
-          console.log('🆔 Blob ID:', blobId);
-          
-          return {
-            success: true,
-            blobId,
-            suiRef: blobId
-          };
-        } else {
-          throw new Error('Unexpected Walrus response format');
-        }
-      } else {
-        const errorText = await response.text();
-        throw new Error(`Walrus upload failed: ${response.status} - ${errorText}`);
-      }
+      options.onProgress?.({
+        phase: 'done',
+        uploadedBytes: file.size,
+        totalBytes: file.size,
+        chunkIndex: 0,
+        totalChunks: 1,
+        resumed: false
+      });
+      return stored;
     } catch (error) {
       console.error('❌ Storage failed:', error);
       return {
@@ -321,71 +457,352 @@ export class WalrusService {
   }
 
   /**
-   * Get the direct URL for accessing a blob
+   * Store a single chunk (or manifest) blob
    */
-  getBlobUrl(blobId: string): string {
-    return `${this.aggregatorUrl}/v1/blobs/${blobId}`;
+  private async storeChunk(chunk: Blob, query: string, options: PutOptions): Promise<StoredChunk> {
+    const result = this.toStorageResult(await this.putBlob(chunk, query, options));
+    return { blobId: result.blobId!, cost: result.cost, endEpoch: result.endEpoch };
   }
 
   /**
-   * Retrieve a blob from Walrus
+   * Publisher query for the requested lifetime
+   * Walrus stores for a single epoch when `epochs` is missing, so it is always sent
    */
-  async retrieveBlob(blobId: string): Promise<Blob | null> {
-    try {
-      console.log('📥 Retrieving blob from Walrus:', blobId);
+  private storageQuery(options: { epochs?: number; deletable?: boolean } = {}): string {
+    const epochs = options.epochs ?? DEFAULT_EPOCHS;
+    if (!Number.isInteger(epochs) || epochs < 1 || epochs > MAX_EPOCHS_AHEAD) {
+      throw new Error(`epochs must be an integer between 1 and ${MAX_EPOCHS_AHEAD}, got ${epochs}`);
+    }
+    const deletable = options.deletable ?? !this.usePermanentStorage;
+    return `epochs=${epochs}&${deletable ? 'deletable=true' : 'permanent=true'}`;
+  }
+
+  /**
+   * Extract blob ID and metadata from a publisher response
+   */
+  private toStorageResult(result: WalrusStoreResponse): StorageResult {
+    if (result.newlyCreated) {
+      const { blobId, size, registeredEpoch, storage, deletable } = result.newlyCreated.blobObject;
+      const { cost } = result.newlyCreated;
+      // The only place Walrus tells us the current epoch
+      observeEpoch(registeredEpoch);
       
-      const url = this.getBlobUrl(blobId);
-      console.log('🔗 Fetching from:', url);
+      console.log('🎉 Upload successful!');
+      console.log('🆔 Blob ID:', blobId);
+      console.log('📊 Size:', size, 'bytes');
+      console.log('💰 Cost:', cost);
+      console.log('⏳ Stored until epoch:', storage.endEpoch);
       
-      const response = await fetch(url);
+      return {
+        success: true,
+        blobId,
+        suiRef: blobId,
+        cost,
+        size,
+        endEpoch: storage.endEpoch,
+        deletable
+      };
+    } else if (result.alreadyCertified) {
+      const { blobId, endEpoch } = result.alreadyCertified;
       
-      if (response.status === 200) {
-        const blob = await response.blob();
-        console.log('✅ Blob retrieved successfully');
-        console.log('📊 Size:', blob.size, 'bytes');
-        console.log('📝 Type:', blob.type);
-        return blob;
+      console.log('♻️ File already exists on Walrus');
+      console.log('🆔 Blob ID:', blobId);
+      console.log('⏳ Stored until epoch:', endEpoch);
+      
+      return {
+        success: true,
+        blobId,
+        suiRef: blobId,
+        endEpoch,
+        deletable: false // Only permanent blobs are reported as already certified
+      };
+    } else {
+      throw new Error('Unexpected Walrus response format');
+    }
+  }
+
+  /**
+   * Extend a blob's lifetime by storing its exact bytes again for `epochs` more epochs
+   * Blob IDs are content-derived, so the ID (and every chunk of a chunked blob) stays the same
+   */
+  async renewBlob(
+    blobId: string,
+    epochs: number = DEFAULT_EPOCHS,
+    options: { deletable?: boolean; signal?: AbortSignal; authToken?: string } = {}
+  ): Promise<StorageResult> {
+    try {
+      console.log('🔁 Renewing blob for', epochs, 'epochs:', blobId);
+      const deletable = options.deletable ?? getBlobLifetime(blobId)?.deletable;
+      const query = this.storageQuery({ epochs, deletable });
+
+      const raw = await this.retrieveBlob(blobId, { raw: true, signal: options.signal });
+      if (!raw) throw new Error('Blob is no longer retrievable; it cannot be renewed');
+
+      const manifest = await parseManifest(raw);
+      let endEpoch = Infinity;
+
+      const restore = async (blob: Blob, expectedId: string) => {
+        const stored = this.toStorageResult(await this.putBlob(blob, query, options));
+        if (stored.blobId !== expectedId) {
+          throw new Error(`Renewal produced blob ${stored.blobId}, expected ${expectedId}`);
+        }
+        endEpoch = Math.min(endEpoch, stored.endEpoch ?? Infinity);
+      };
+
+      if (manifest) {
+        for (const ref of manifest.chunks) {
+          const chunk = await this.retrieveBlob(ref.blobId, {
+            raw: true,
+            expectedSha256: ref.sha256,
+            signal: options.signal,
+          });
+          if (!chunk) throw new Error(`Chunk ${ref.index + 1}/${manifest.chunks.length} is no longer retrievable`);
+          await restore(chunk, ref.blobId);
+        }
       } else {
-        console.error('❌ Failed to retrieve blob:', response.status, response.statusText);
-        return null;
+        const digest = getBlobDigest(blobId);
+        if (digest) await verifyBlobDigest(blobId, raw, digest);
+      }
+      await restore(raw, blobId);
+
+      if (!Number.isFinite(endEpoch)) throw new Error('Publisher did not report an end epoch');
+
+      recordBlobLifetime({
+        blobId,
+        endEpoch,
+        deletable: deletable ?? !this.usePermanentStorage,
+        chunked: !!manifest,
+        renewedAt: new Date().toISOString(),
+      });
+      console.log('✅ Blob renewed until epoch', endEpoch);
+
+      return { success: true, blobId, suiRef: blobId, endEpoch };
+    } catch (error) {
+      console.error('❌ Renewal failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Get the direct URL for accessing a blob (via the healthiest aggregator)
+   */
+  getBlobUrl(blobId: string): string {
+    return `${this.aggregators.best()}/v1/blobs/${blobId}`;
+  }
+
+  /**
+   * Health of every aggregator in the pool, best first
+   */
+  getAggregatorHealth(): EndpointHealth[] {
+    return this.aggregators.getStats();
+  }
+
+  /**
+   * Retrieve a blob from Walrus, failing over between aggregators
+   * Content is checked against its SHA-256 when a digest is known; an aggregator
+   * serving bad bytes counts as failed, and BlobIntegrityError is thrown when
+   * no aggregator serves matching content
+   */
+  async retrieveBlob(blobId: string, options: RetrieveOptions = {}): Promise<Blob | null> {
+    console.log('📥 Retrieving blob from Walrus:', blobId, `(${options.strategy || 'sequential'})`);
+
+    // Recorded digests describe reassembled content, so they never apply to raw manifest reads
+    const expectedSha256 = options.expectedSha256 ?? (options.raw ? undefined : getBlobDigest(blobId));
+    let integrityError: BlobIntegrityError | null = null;
+
+    const retrieved = await this.fromAggregators(blobId, 'GET', async response => {
+      const blob = await response.blob();
+      const manifest = options.raw ? null : await parseManifest(blob);
+      // Manifests are checked after their chunks are reassembled
+      if (expectedSha256 && !manifest) {
+        try {
+          await verifyBlobDigest(blobId, blob, expectedSha256);
+        } catch (error) {
+          if (error instanceof BlobIntegrityError) integrityError = error;
+          throw error;
+        }
       }
+      return { blob, manifest };
+    }, options);
+
+    if (!retrieved) {
+      if (integrityError) {
+        console.error('❌ No aggregator served matching content:', blobId);
+        throw integrityError;
+      }
+      console.error('❌ Failed to retrieve blob from any aggregator:', blobId);
+      return null;
+    }
+
+    const { blob, manifest } = retrieved;
+    console.log('✅ Blob retrieved successfully from', this.aggregatorUrl);
+    console.log('📊 Size:', blob.size, 'bytes');
+    console.log('📝 Type:', blob.type);
+
+    if (!manifest) return blob;
+
+    console.log('🧩 Blob is a chunk manifest, fetching', manifest.chunks.length, 'chunks...');
+    let reassembled: Blob;
+    try {
+      reassembled = await reassembleChunks(manifest, ref =>
+        this.retrieveBlob(ref.blobId, { ...options, raw: true, expectedSha256: ref.sha256 })
+      );
     } catch (error) {
-      console.error('❌ Retrieval failed:', error);
+      if (error instanceof BlobIntegrityError) throw error;
+      console.error('❌ Failed to reassemble chunked blob:', error);
       return null;
     }
+
+    if (expectedSha256) {
+      await verifyBlobDigest(blobId, reassembled, expectedSha256);
+    }
+    return reassembled;
+  }
+
+  /**
+   * Retrieve a Seal-encrypted blob and decrypt it with the caller's access proof
+   */
+  async retrieveSealedBlob(
+    blobId: string,
+    credentials: SealCredentials,
+    options: RetrieveOptions & { keyServer?: SealKeyServer } = {}
+  ): Promise<Uint8Array<ArrayBuffer> | null> {
+    const blob = await this.retrieveBlob(blobId, options);
+    if (!blob) return null;
+
+    console.log('🔓 Requesting Seal decryption key...');
+    return sealDecrypt(new Uint8Array(await blob.arrayBuffer()), credentials, options.keyServer);
   }
 
   /**
    * Check if a blob exists on Walrus
+   * Only reports missing once every reachable aggregator has said so
+   */
+  async blobExists(blobId: string, options: RetrieveOptions = {}): Promise<boolean> {
+    const found = await this.fromAggregators(blobId, 'HEAD', async () => true, options);
+    return found === true;
+  }
+
+  /**
+   * Aggregators to try, best first; falls back to all of them when every circuit is open
+   */
+  private aggregatorCandidates(): string[] {
+    const ranked = this.aggregators.ranked();
+    return ranked.length > 0 ? ranked : this.aggregators.urls;
+  }
+
+  /**
+   * Run a request against the aggregator pool and read the first 200 response
    */
-  async blobExists(blobId: string): Promise<boolean> {
+  private async fromAggregators<T>(
+    blobId: string,
+    method: 'GET' | 'HEAD',
+    read: (response: Response) => Promise<T>,
+    options: RetrieveOptions
+  ): Promise<T | null> {
+    const candidates = this.aggregatorCandidates();
+
+    if (options.strategy === 'race') {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      options.signal?.addEventListener('abort', abort);
+
+      try {
+        return await Promise.any(candidates.map(async aggregator => {
+          const outcome = await this.tryAggregator(aggregator, blobId, method, read, controller.signal);
+          if (!outcome.found) throw new Error(`${aggregator}: blob not served`);
+          return outcome.value;
+        }));
+      } catch {
+        return null;
+      } finally {
+        // Cancel the requests that lost the race
+        controller.abort();
+        options.signal?.removeEventListener('abort', abort);
+      }
+    }
+
+    for (const aggregator of candidates) {
+      if (options.signal?.aborted) break;
+      const outcome = await this.tryAggregator(aggregator, blobId, method, read, options.signal);
+      if (outcome.found) return outcome.value;
+    }
+    return null;
+  }
+
+  /**
+   * Request a blob from one aggregator and record its health
+   * A 404 is a healthy answer (the aggregator works, it just doesn't serve the blob)
+   */
+  private async tryAggregator<T>(
+    aggregator: string,
+    blobId: string,
+    method: 'GET' | 'HEAD',
+    read: (response: Response) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ found: true; value: T } | { found: false }> {
+    const url = `${aggregator}/v1/blobs/${blobId}`;
+    const timeout = AbortSignal.timeout(RETRIEVAL_TIMEOUT_MS);
+    const startedAt = Date.now();
+
     try {
-      const url = this.getBlobUrl(blobId);
-      const response = await fetch(url, { method: 'HEAD' });
-      return response.status === 200;
-    } catch {
-      return false;
+      console.log('🔗 Fetching from:', url);
+      const response = await fetch(url, {
+        method,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+
+      if (response.status === 200) {
+        const value = await read(response);
+        this.aggregators.recordSuccess(aggregator, Date.now() - startedAt);
+        this.aggregatorUrl = aggregator;
+        return { found: true, value };
+      }
+
+      if (response.status === 404) {
+        this.aggregators.recordSuccess(aggregator, Date.now() - startedAt);
+      } else {
+        this.aggregators.recordFailure(aggregator, new Error(`${response.status} ${response.statusText}`));
+      }
+      console.log(`❌ Aggregator ${aggregator}: ${response.status}`);
+    } catch (error) {
+      // Requests cancelled by the caller or by a finished race say nothing about health
+      if (!signal?.aborted) {
+        this.aggregators.recordFailure(aggregator, error);
+        console.log(`❌ Aggregator ${aggregator}: ${error instanceof Error ? error.message : 'Failed'}`);
+      }
     }
+    return { found: false };
   }
 }
 
 // Export a singleton instance with permanent storage enabled
-export const walrusService = new WalrusService(true); // Use permanent storage
+// Non-deletable storage unless an upload asks otherwise; uploads go through the proxy route
+// (set NEXT_PUBLIC_WALRUS_PROXY_URL to an empty string to upload to publishers directly)
+export const walrusService = new WalrusService(true, {
+  proxyUrl: process.env.NEXT_PUBLIC_WALRUS_PROXY_URL ?? '/api/walrus',
+});
 
 /**
  * Legacy function wrapper for backward compatibility
- * Store data on Walrus - uses WalrusService with multiple publishers
+ * Store data on Walrus for `epochs` epochs - uses WalrusService with multiple publishers
  */
 export async function storeOnWalrus(
   data: string | Blob,
-  epochs: number = 5
+  epochs: number = DEFAULT_EPOCHS,
+  options: StoreOptions = {}
 ): Promise<WalrusUploadResult> {
   const blob = typeof data === 'string' ? new Blob([data], { type: 'text/plain' }) : data;
   
-  // Convert Blob to File for WalrusService
-  const file = new File([blob], 'data.bin', { type: blob.type || 'application/octet-stream' });
+  // Convert Blob to File for WalrusService (keep real files so uploads can resume)
+  const file = blob instanceof File
+    ? blob
+    : new File([blob], 'data.bin', { type: blob.type || 'application/octet-stream' });
   
-  const result = await walrusService.storeFile(file);
+  const result = await walrusService.storeFile(file, { epochs, ...options });
   
   if (!result.success || !result.blobId) {
     throw new Error(result.error || 'Failed to store on Walrus');
@@ -395,16 +812,25 @@ export async function storeOnWalrus(
     blobId: result.blobId,
     url: walrusService.getBlobUrl(result.blobId),
     size: result.size || blob.size,
-    cost: result.cost
+    cost: result.cost,
+    chunked: result.chunked,
+    sha256: result.sha256!,
+    endEpoch: result.endEpoch,
+    deletable: result.deletable
   };
 }
 
 /**
  * Retrieve data from Walrus (legacy function)
+ * Pass `expectedSha256` (e.g. a twin's `blobSha256`) to verify content stored elsewhere;
+ * a mismatch throws BlobIntegrityError
  */
-export async function retrieveFromWalrus(blobId: string): Promise<string> {
+export async function retrieveFromWalrus(
+  blobId: string,
+  options: RetrieveOptions = {}
+): Promise<string> {
   try {
-    const blob = await walrusService.retrieveBlob(blobId);
+    const blob = await walrusService.retrieveBlob(blobId, options);
     
     if (!blob) {
       throw new Error('Failed to retrieve blob');
@@ -414,6 +840,7 @@ export async function retrieveFromWalrus(blobId: string): Promise<string> {
     return data;
   } catch (error: any) {
     console.error('Walrus retrieval error:', error);
+    if (error instanceof BlobIntegrityError) throw error;
     throw new Error(`Failed to retrieve from Walrus: ${error.message}`);
   }
 }
@@ -421,12 +848,15 @@ export async function retrieveFromWalrus(blobId: string): Promise<string> {
 /**
  * Check blob status on Walrus
  */
-export async function checkBlobStatus(blobId: string): Promise<{
+export async function checkBlobStatus(
+  blobId: string,
+  options: RetrieveOptions = {}
+): Promise<{
   exists: boolean;
   certified: boolean;
 }> {
   try {
-    const exists = await walrusService.blobExists(blobId);
+    const exists = await walrusService.blobExists(blobId, options);
     return {
       exists,
       certified: exists,
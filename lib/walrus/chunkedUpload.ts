@@ -0,0 +1,251 @@
+/**
+ * Chunked Walrus Uploads
+ * Splits large files into chunks, stores each chunk as its own blob and ties
+ * them together with a manifest blob. The manifest's blob ID is the ID that
+ * gets minted, so callers never see the individual chunks.
+ *
+ * Uploads are resumable: every stored chunk is recorded in localStorage under
+ * the file's fingerprint together with the chunk's SHA-256, so a retry (or a
+ * page reload) only re-uploads chunks whose content is not already stored.
+ * Encrypted files only match when the retry encrypts them to the same bytes,
+ * with the same key and nonces (see twinDraftService.ts).
+ */
+
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024; // 8 MiB
+export const MANIFEST_TYPE = 'walrus-chunked-manifest';
+const RESUME_KEY_PREFIX = 'walrusUpload:';
+// Manifests are small JSON documents; anything larger is never parsed as one
+const MAX_MANIFEST_SIZE = 1024 * 1024;
+
+export interface ChunkRef {
+  index: number;
+  blobId: string;
+  size: number;
+  sha256: string;
+}
+
+export interface ChunkManifest {
+  type: typeof MANIFEST_TYPE;
+  version: 1;
+  name: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  chunks: ChunkRef[];
+  createdAt: string;
+}
+
+export interface UploadProgress {
+  phase: 'chunk' | 'manifest' | 'done';
+  uploadedBytes: number;
+  totalBytes: number;
+  chunkIndex: number;
+  totalChunks: number;
+  resumed: boolean; // Chunk was already stored by an earlier attempt
+}
+
+export interface ChunkedUploadOptions {
+  chunkSize?: number;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface StoredChunk {
+  blobId: string;
+  cost?: number;
+  endEpoch?: number;
+}
+
+type StoreChunk = (chunk: Blob, signal?: AbortSignal) => Promise<StoredChunk>;
+
+interface ResumeState {
+  chunkSize: number;
+  chunks: Record<number, ChunkRef>;
+  updatedAt: string;
+}
+
+/**
+ * Upload a file as chunks plus a manifest
+ * Returns the manifest blob ID and the summed storage cost
+ */
+export async function uploadInChunks(
+  file: File,
+  storeChunk: StoreChunk,
+  options: ChunkedUploadOptions = {}
+): Promise<{ manifestBlobId: string; manifest: ChunkManifest; cost: number; endEpoch?: number }> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const totalChunks = Math.max(1, Math.ceil(file.size / chunkSize));
+  const resumeKey = `${RESUME_KEY_PREFIX}${fingerprint(file, chunkSize)}`;
+  const state = loadResumeState(resumeKey, chunkSize);
+
+  const chunks: ChunkRef[] = [];
+  let uploadedBytes = 0;
+  let cost = 0;
+  // The file is only readable while every chunk is, so the earliest expiry counts
+  let endEpoch: number | undefined;
+  const trackEpoch = (stored: StoredChunk) => {
+    if (stored.endEpoch !== undefined) endEpoch = Math.min(endEpoch ?? Infinity, stored.endEpoch);
+  };
+
+  for (let index = 0; index < totalChunks; index++) {
+    throwIfAborted(options.signal);
+
+    const chunk = file.slice(index * chunkSize, Math.min((index + 1) * chunkSize, file.size));
+    const sha256 = await sha256Hex(chunk);
+
+    const previous = state.chunks[index];
+    const resumed = previous?.sha256 === sha256 && previous.size === chunk.size;
+
+    let ref: ChunkRef;
+    if (resumed) {
+      console.log(`♻️ Chunk ${index + 1}/${totalChunks} already stored:`, previous.blobId);
+      ref = previous;
+    } else {
+      console.log(`📦 Uploading chunk ${index + 1}/${totalChunks} (${chunk.size} bytes)`);
+      const stored = await storeChunk(chunk, options.signal);
+      ref = { index, blobId: stored.blobId, size: chunk.size, sha256 };
+      cost += stored.cost ?? 0;
+      trackEpoch(stored);
+
+      state.chunks[index] = ref;
+      saveResumeState(resumeKey, state);
+    }
+
+    chunks.push(ref);
+    uploadedBytes += chunk.size;
+    options.onProgress?.({
+      phase: 'chunk',
+      uploadedBytes,
+      totalBytes: file.size,
+      chunkIndex: index,
+      totalChunks,
+      resumed,
+    });
+  }
+
+  throwIfAborted(options.signal);
+
+  const manifest: ChunkManifest = {
+    type: MANIFEST_TYPE,
+    version: 1,
+    name: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    chunkSize,
+    chunks,
+    createdAt: new Date().toISOString(),
+  };
+
+  options.onProgress?.({
+    phase: 'manifest',
+    uploadedBytes,
+    totalBytes: file.size,
+    chunkIndex: totalChunks - 1,
+    totalChunks,
+    resumed: false,
+  });
+
+  const manifestBlob = new Blob([JSON.stringify(manifest)], { type: 'application/json' });
+  const stored = await storeChunk(manifestBlob, options.signal);
+  cost += stored.cost ?? 0;
+  trackEpoch(stored);
+
+  clearResumeState(resumeKey);
+
+  options.onProgress?.({
+    phase: 'done',
+    uploadedBytes,
+    totalBytes: file.size,
+    chunkIndex: totalChunks - 1,
+    totalChunks,
+    resumed: false,
+  });
+
+  return { manifestBlobId: stored.blobId, manifest, cost, endEpoch };
+}
+
+/**
+ * Parse a retrieved blob as a chunk manifest, or return null if it is a plain blob
+ */
+export async function parseManifest(blob: Blob): Promise<ChunkManifest | null> {
+  if (blob.size > MAX_MANIFEST_SIZE) return null;
+
+  const prefix = await blob.slice(0, 64).text();
+  if (!prefix.startsWith('{') || !prefix.includes(MANIFEST_TYPE)) return null;
+
+  try {
+    const parsed = JSON.parse(await blob.text());
+    if (parsed?.type === MANIFEST_TYPE && parsed.version === 1 && Array.isArray(parsed.chunks)) {
+      return parsed as ChunkManifest;
+    }
+  } catch {
+    // Not JSON after all
+  }
+  return null;
+}
+
+/**
+ * Fetch every chunk listed in a manifest and join them back into one blob
+ * `fetchChunk` receives the full ref so it can check the chunk's SHA-256
+ */
+export async function reassembleChunks(
+  manifest: ChunkManifest,
+  fetchChunk: (ref: ChunkRef) => Promise<Blob | null>
+): Promise<Blob> {
+  const parts: Blob[] = [];
+
+  for (const ref of [...manifest.chunks].sort((a, b) => a.index - b.index)) {
+    const chunk = await fetchChunk(ref);
+    if (!chunk) {
+      throw new Error(`Missing chunk ${ref.index + 1}/${manifest.chunks.length} (${ref.blobId})`);
+    }
+    parts.push(chunk);
+  }
+
+  return new Blob(parts, { type: manifest.mimeType });
+}
+
+export async function sha256Hex(data: Blob | BufferSource): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Chunk digests are what prove a stored chunk can be reused, so the
+// fingerprint only has to narrow down which record to look at
+function fingerprint(file: File, chunkSize: number): string {
+  return [file.name, file.size, chunkSize].join(':');
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('Upload cancelled', 'AbortError');
+  }
+}
+
+function loadResumeState(key: string, chunkSize: number): ResumeState {
+  const empty: ResumeState = { chunkSize, chunks: {}, updatedAt: new Date().toISOString() };
+  if (typeof localStorage === 'undefined') return empty;
+
+  try {
+    const saved: ResumeState | null = JSON.parse(localStorage.getItem(key) || 'null');
+    return saved && saved.chunkSize === chunkSize ? saved : empty;
+  } catch {
+    return empty;
+  }
+}
+
+function saveResumeState(key: string, state: ResumeState) {
+  if (typeof localStorage === 'undefined') return;
+  state.updatedAt = new Date().toISOString();
+  try {
+    localStorage.setItem(key, JSON.stringify(state));
+  } catch (error) {
+    console.warn('Failed to persist upload progress:', error);
+  }
+}
+
+function clearResumeState(key: string) {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.removeItem(key);
+}
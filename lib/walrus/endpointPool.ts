@@ -0,0 +1,235 @@
+/**
+ * Health-scored Endpoint Pool
+ * Tracks latency, success rate and recent failures for a list of Walrus
+ * endpoints and picks one by weighted score.
+ *
+ * Each endpoint has a circuit breaker:
+ * - closed:    endpoint is used normally
+ * - open:      endpoint failed `failureThreshold` times in a row and is skipped
+ *              until its cooldown elapses
+ * - half-open: cooldown elapsed, the next request is a trial; success closes
+ *              the circuit, failure re-opens it with a doubled cooldown
+ *
+ * Health survives page reloads through localStorage when a `storageKey` is set.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface EndpointHealth {
+  url: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  latencyMs: number | null; // Exponentially weighted moving average
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError?: string;
+  circuit: CircuitState;
+  openedAt: number | null;
+  cooldownMs: number;
+}
+
+export interface EndpointPoolOptions {
+  storageKey?: string;
+  failureThreshold?: number;
+  cooldownMs?: number;
+  maxCooldownMs?: number;
+  latencyAlpha?: number;
+  random?: () => number;
+  now?: () => number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60_000;
+const DEFAULT_MAX_COOLDOWN_MS = 30 * 60_000;
+const DEFAULT_LATENCY_ALPHA = 0.3;
+// Latency assumed for endpoints we have never measured, so they still get explored
+const UNKNOWN_LATENCY_MS = 2_000;
+
+export class EndpointPool {
+  private readonly health = new Map<string, EndpointHealth>();
+  private readonly storageKey?: string;
+  private readonly failureThreshold: number;
+  private readonly baseCooldownMs: number;
+  private readonly maxCooldownMs: number;
+  private readonly latencyAlpha: number;
+  private readonly random: () => number;
+  private readonly now: () => number;
+
+  constructor(urls: string[], options: EndpointPoolOptions = {}) {
+    this.storageKey = options.storageKey;
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.baseCooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.maxCooldownMs = options.maxCooldownMs ?? DEFAULT_MAX_COOLDOWN_MS;
+    this.latencyAlpha = options.latencyAlpha ?? DEFAULT_LATENCY_ALPHA;
+    this.random = options.random ?? Math.random;
+    this.now = options.now ?? Date.now;
+
+    const saved = this.load();
+    for (const url of urls) {
+      this.health.set(url, saved[url] ?? this.freshHealth(url));
+    }
+  }
+
+  get size(): number {
+    return this.health.size;
+  }
+
+  get urls(): string[] {
+    return Array.from(this.health.keys());
+  }
+
+  /**
+   * Pick an endpoint by weighted score, skipping open circuits and `exclude`.
+   * Returns null when every endpoint is excluded or tripped.
+   */
+  select(exclude: ReadonlySet<string> = new Set()): string | null {
+    const candidates = this.available(exclude);
+    if (candidates.length === 0) return null;
+
+    const weights = candidates.map(entry => this.score(entry));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let target = this.random() * total;
+    for (let i = 0; i < candidates.length; i++) {
+      target -= weights[i];
+      if (target <= 0) return candidates[i].url;
+    }
+    return candidates[candidates.length - 1].url;
+  }
+
+  /**
+   * Endpoints ordered by score, best first, skipping open circuits and `exclude`
+   */
+  ranked(exclude: ReadonlySet<string> = new Set()): string[] {
+    return this.available(exclude)
+      .sort((a, b) => this.score(b) - this.score(a))
+      .map(entry => entry.url);
+  }
+
+  /**
+   * Highest-scored endpoint, or the first configured one if all circuits are open
+   */
+  best(): string {
+    return this.ranked()[0] ?? this.urls[0];
+  }
+
+  recordSuccess(url: string, latencyMs: number): void {
+    const entry = this.health.get(url);
+    if (!entry) return;
+
+    entry.successes += 1;
+    entry.consecutiveFailures = 0;
+    entry.lastSuccessAt = this.now();
+    entry.latencyMs = entry.latencyMs === null
+      ? latencyMs
+      : entry.latencyMs + this.latencyAlpha * (latencyMs - entry.latencyMs);
+    entry.circuit = 'closed';
+    entry.openedAt = null;
+    entry.cooldownMs = this.baseCooldownMs;
+
+    this.save();
+  }
+
+  recordFailure(url: string, error?: unknown): void {
+    const entry = this.health.get(url);
+    if (!entry) return;
+
+    entry.failures += 1;
+    entry.consecutiveFailures += 1;
+    entry.lastFailureAt = this.now();
+    entry.lastError = error instanceof Error ? error.message : error ? String(error) : undefined;
+
+    if (entry.circuit === 'half-open') {
+      // Trial request failed: back off harder before the next trial
+      entry.cooldownMs = Math.min(entry.cooldownMs * 2, this.maxCooldownMs);
+      this.open(entry);
+    } else if (entry.consecutiveFailures >= this.failureThreshold) {
+      this.open(entry);
+    }
+
+    this.save();
+  }
+
+  /**
+   * Snapshot of every endpoint's health, best first
+   */
+  getStats(): EndpointHealth[] {
+    this.health.forEach(entry => this.refreshCircuit(entry));
+    return Array.from(this.health.values())
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => this.score(b) - this.score(a));
+  }
+
+  /**
+   * Forget all recorded health (e.g. after switching networks)
+   */
+  reset(): void {
+    this.health.forEach((_, url) => this.health.set(url, this.freshHealth(url)));
+    this.save();
+  }
+
+  private available(exclude: ReadonlySet<string>): EndpointHealth[] {
+    const result: EndpointHealth[] = [];
+    this.health.forEach(entry => {
+      if (exclude.has(entry.url)) return;
+      this.refreshCircuit(entry);
+      if (entry.circuit !== 'open') result.push(entry);
+    });
+    return result;
+  }
+
+  private score(entry: EndpointHealth): number {
+    // Laplace-smoothed success rate so new endpoints start at 0.5
+    const successRate = (entry.successes + 1) / (entry.successes + entry.failures + 2);
+    const latency = entry.latencyMs ?? UNKNOWN_LATENCY_MS;
+    const latencyFactor = 1000 / (1000 + latency);
+    const recentFailurePenalty = Math.pow(0.5, entry.consecutiveFailures);
+    return successRate * latencyFactor * recentFailurePenalty;
+  }
+
+  private refreshCircuit(entry: EndpointHealth): void {
+    if (entry.circuit === 'open' && entry.openedAt !== null && this.now() - entry.openedAt >= entry.cooldownMs) {
+      entry.circuit = 'half-open';
+    }
+  }
+
+  private open(entry: EndpointHealth): void {
+    entry.circuit = 'open';
+    entry.openedAt = this.now();
+    console.warn(`⛔ Circuit opened for ${entry.url} (${entry.consecutiveFailures} consecutive failures, retry in ${Math.round(entry.cooldownMs / 1000)}s)`);
+  }
+
+  private freshHealth(url: string): EndpointHealth {
+    return {
+      url,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      latencyMs: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      circuit: 'closed',
+      openedAt: null,
+      cooldownMs: this.baseCooldownMs,
+    };
+  }
+
+  private load(): Record<string, EndpointHealth> {
+    if (!this.storageKey || typeof localStorage === 'undefined') return {};
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private save(): void {
+    if (!this.storageKey || typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(Object.fromEntries(this.health)));
+    } catch (error) {
+      console.warn('Failed to persist endpoint health:', error);
+    }
+  }
+}
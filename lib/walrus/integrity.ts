@@ -0,0 +1,66 @@
+/**
+ * Blob Integrity
+ * SHA-256 digests of uploaded content, recorded next to the blob ID so every
+ * retrieval can check that the bytes coming back are the bytes that went in.
+ *
+ * Digests always describe the full content the caller stored: for chunked
+ * uploads that is the reassembled file, not the manifest blob.
+ */
+
+import { sha256Hex } from '@/lib/walrus/chunkedUpload';
+
+const DIGEST_STORAGE_KEY = 'walrusBlobDigests';
+
+/**
+ * Thrown when retrieved content does not match its recorded digest
+ */
+export class BlobIntegrityError extends Error {
+  constructor(
+    public readonly blobId: string,
+    public readonly expectedSha256: string,
+    public readonly actualSha256: string
+  ) {
+    super(`Integrity check failed for blob ${blobId}: expected sha256 ${expectedSha256}, got ${actualSha256}`);
+    this.name = 'BlobIntegrityError';
+  }
+}
+
+/**
+ * Throw a BlobIntegrityError unless the blob hashes to the expected digest
+ */
+export async function verifyBlobDigest(blobId: string, blob: Blob, expectedSha256: string): Promise<void> {
+  const actual = await sha256Hex(blob);
+  if (actual !== expectedSha256.toLowerCase()) {
+    throw new BlobIntegrityError(blobId, expectedSha256, actual);
+  }
+}
+
+/**
+ * Remember the digest of a stored blob (blob IDs are content-derived, so this never goes stale)
+ */
+export function recordBlobDigest(blobId: string, sha256: string) {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    const digests = loadDigests();
+    digests[blobId] = sha256;
+    localStorage.setItem(DIGEST_STORAGE_KEY, JSON.stringify(digests));
+  } catch (error) {
+    console.warn('Failed to persist blob digest:', error);
+  }
+}
+
+/**
+ * Digest recorded for a blob at upload time, if this browser stored it
+ */
+export function getBlobDigest(blobId: string): string | undefined {
+  return loadDigests()[blobId];
+}
+
+function loadDigests(): Record<string, string> {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(DIGEST_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Blob Lifetime Registry
+ * Records the end epoch of every blob this browser stored so creators can see
+ * which blobs are about to expire and renew them before buyers lose access.
+ *
+ * Walrus has no HTTP endpoint for the current epoch, so it is estimated from
+ * the last epoch a publisher reported plus the time elapsed since then.
+ */
+
+const LIFETIME_STORAGE_KEY = 'walrusBlobLifetimes';
+const EPOCH_CLOCK_STORAGE_KEY = 'walrusEpochClock';
+
+// Testnet epochs last one day; mainnet epochs last two weeks
+export const EPOCH_DURATION_MS = Number(process.env.NEXT_PUBLIC_WALRUS_EPOCH_DURATION_MS) || 24 * 60 * 60 * 1000;
+export const MAX_EPOCHS_AHEAD = 53;
+export const DEFAULT_EPOCHS = 5;
+// Blobs with this many epochs or fewer left are flagged as expiring
+export const EXPIRY_WARNING_EPOCHS = 2;
+
+export interface BlobLifetime {
+  blobId: string;
+  endEpoch: number; // First epoch in which the blob is no longer stored
+  deletable: boolean;
+  size?: number;
+  chunked?: boolean;
+  storedAt: string;
+  renewedAt?: string;
+}
+
+export interface EpochClock {
+  epoch: number;
+  observedAt: number;
+}
+
+/**
+ * Record (or update) a blob's lifetime; a later end epoch always wins
+ */
+export function recordBlobLifetime(entry: Omit<BlobLifetime, 'storedAt'> & { storedAt?: string }) {
+  const lifetimes = loadLifetimes();
+  const existing = lifetimes[entry.blobId];
+
+  lifetimes[entry.blobId] = {
+    ...existing,
+    ...entry,
+    endEpoch: Math.max(entry.endEpoch, existing?.endEpoch ?? 0),
+    storedAt: existing?.storedAt ?? entry.storedAt ?? new Date().toISOString(),
+  };
+  saveLifetimes(lifetimes);
+}
+
+export function getBlobLifetime(blobId: string): BlobLifetime | undefined {
+  return loadLifetimes()[blobId];
+}
+
+export function getBlobLifetimes(): BlobLifetime[] {
+  return Object.values(loadLifetimes()).sort((a, b) => a.endEpoch - b.endEpoch);
+}
+
+export function forgetBlobLifetime(blobId: string) {
+  const lifetimes = loadLifetimes();
+  delete lifetimes[blobId];
+  saveLifetimes(lifetimes);
+}
+
+/**
+ * Remember the current epoch as reported by a publisher
+ */
+export function observeEpoch(epoch: number, now: number = Date.now()) {
+  if (typeof localStorage === 'undefined' || !Number.isFinite(epoch)) return;
+  const clock: EpochClock = { epoch, observedAt: now };
+  localStorage.setItem(EPOCH_CLOCK_STORAGE_KEY, JSON.stringify(clock));
+}
+
+/**
+ * Best guess of the current epoch, or null if no publisher has reported one yet
+ */
+export function estimateCurrentEpoch(now: number = Date.now()): number | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const clock: EpochClock | null = JSON.parse(localStorage.getItem(EPOCH_CLOCK_STORAGE_KEY) || 'null');
+    if (!clock) return null;
+    return clock.epoch + Math.floor(Math.max(0, now - clock.observedAt) / EPOCH_DURATION_MS);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Epochs left before a blob expires (0 = already expired)
+ */
+export function epochsRemaining(lifetime: BlobLifetime, currentEpoch: number): number {
+  return Math.max(0, lifetime.endEpoch - currentEpoch);
+}
+
+/**
+ * Blobs that expire within `withinEpochs` epochs (including expired ones), soonest first
+ */
+export function getExpiringBlobs(
+  withinEpochs: number = EXPIRY_WARNING_EPOCHS,
+  now: number = Date.now()
+): Array<BlobLifetime & { epochsRemaining: number }> {
+  const currentEpoch = estimateCurrentEpoch(now);
+  if (currentEpoch === null) return [];
+
+  return getBlobLifetimes()
+    .map(lifetime => ({ ...lifetime, epochsRemaining: epochsRemaining(lifetime, currentEpoch) }))
+    .filter(lifetime => lifetime.epochsRemaining <= withinEpochs);
+}
+
+function loadLifetimes(): Record<string, BlobLifetime> {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(LIFETIME_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveLifetimes(lifetimes: Record<string, BlobLifetime>) {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(LIFETIME_STORAGE_KEY, JSON.stringify(lifetimes));
+  } catch (error) {
+    console.warn('Failed to persist blob lifetimes:', error);
+  }
+}
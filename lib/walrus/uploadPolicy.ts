@@ -0,0 +1,155 @@
+/**
+ * Walrus Upload Policy (server side)
+ * Size, type and per-wallet quota checks for the upload proxy route.
+ *
+ * Quotas are kept in memory per server instance and reset every 24 hours,
+ * which is enough to stop one wallet from burning the publisher budget.
+ * Multi-instance deployments should move `UploadQuota` to a shared store.
+ */
+
+export interface UploadLimits {
+  maxBlobBytes: number; // Per request; chunked uploads send one chunk per request
+  dailyBytes: number;
+  dailyUploads: number;
+  maxEpochs: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getUploadLimits(): UploadLimits {
+  return {
+    maxBlobBytes: envNumber('WALRUS_MAX_UPLOAD_BYTES', 10 * 1024 * 1024),
+    dailyBytes: envNumber('WALRUS_DAILY_QUOTA_BYTES', 200 * 1024 * 1024),
+    dailyUploads: envNumber('WALRUS_DAILY_UPLOAD_LIMIT', 500),
+    maxEpochs: envNumber('WALRUS_MAX_EPOCHS', 53),
+  };
+}
+
+// Twin data is encrypted before upload; plain types cover manifests and unencrypted datasets
+export const ALLOWED_MIME_TYPES = [
+  'application/octet-stream',
+  'application/json',
+  'text/plain',
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+];
+
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export class UploadRejectedError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly reason: string,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(`Upload rejected: ${reason}`);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+/**
+ * Reject content types the proxy does not store
+ */
+export function checkContentType(contentType: string | null) {
+  const mimeType = (contentType || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+  if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+    throw new UploadRejectedError(415, `content type ${mimeType} is not allowed`);
+  }
+}
+
+/**
+ * Reject bodies over the per-request limit (checked before and after reading)
+ */
+export function checkSize(bytes: number, limits: UploadLimits) {
+  if (bytes > limits.maxBlobBytes) {
+    throw new UploadRejectedError(413, `blob is ${bytes} bytes, limit is ${limits.maxBlobBytes}`);
+  }
+  if (bytes === 0) {
+    throw new UploadRejectedError(400, 'empty blob');
+  }
+}
+
+/**
+ * Publisher query for the requested lifetime, within the configured epoch cap
+ */
+export function storageQueryFor(params: URLSearchParams, limits: UploadLimits): string {
+  const epochs = Number(params.get('epochs') || 5);
+  if (!Number.isInteger(epochs) || epochs < 1 || epochs > limits.maxEpochs) {
+    throw new UploadRejectedError(400, `epochs must be between 1 and ${limits.maxEpochs}`);
+  }
+  const deletable = params.get('deletable') === 'true';
+  return `epochs=${epochs}&${deletable ? 'deletable=true' : 'permanent=true'}`;
+}
+
+interface QuotaWindow {
+  startedAt: number;
+  bytes: number;
+  uploads: number;
+}
+
+export interface QuotaUsage {
+  bytesUsed: number;
+  bytesRemaining: number;
+  uploadsRemaining: number;
+  resetsAt: number;
+}
+
+export class UploadQuota {
+  private readonly windows = new Map<string, QuotaWindow>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  private window(address: string): QuotaWindow {
+    const now = this.now();
+    let window = this.windows.get(address);
+    if (!window || now - window.startedAt >= QUOTA_WINDOW_MS) {
+      window = { startedAt: now, bytes: 0, uploads: 0 };
+      this.windows.set(address, window);
+    }
+    return window;
+  }
+
+  /**
+   * Count an upload against the address's quota, or throw 429
+   */
+  reserve(address: string, bytes: number, limits: UploadLimits): QuotaUsage {
+    const window = this.window(address);
+    const retryAfter = Math.ceil((window.startedAt + QUOTA_WINDOW_MS - this.now()) / 1000);
+
+    if (window.uploads + 1 > limits.dailyUploads) {
+      throw new UploadRejectedError(429, `daily upload limit of ${limits.dailyUploads} reached`, retryAfter);
+    }
+    if (window.bytes + bytes > limits.dailyBytes) {
+      throw new UploadRejectedError(429, `daily quota of ${limits.dailyBytes} bytes reached`, retryAfter);
+    }
+
+    window.uploads += 1;
+    window.bytes += bytes;
+    return this.usage(address, limits);
+  }
+
+  /**
+   * Give a reservation back when the publishers could not store the blob
+   */
+  release(address: string, bytes: number) {
+    const window = this.windows.get(address);
+    if (!window) return;
+    window.uploads = Math.max(0, window.uploads - 1);
+    window.bytes = Math.max(0, window.bytes - bytes);
+  }
+
+  usage(address: string, limits: UploadLimits): QuotaUsage {
+    const window = this.window(address);
+    return {
+      bytesUsed: window.bytes,
+      bytesRemaining: Math.max(0, limits.dailyBytes - window.bytes),
+      uploadsRemaining: Math.max(0, limits.dailyUploads - window.uploads),
+      resetsAt: window.startedAt + QUOTA_WINDOW_MS,
+    };
+  }
+}
@@ -0,0 +1,338 @@
+#!/usr/bin/env node
+/**
+ * Local Walrus Publisher/Aggregator Emulator
+ * Implements the `/v1/blobs` PUT/GET/HEAD API with realistic
+ * `WalrusStoreResponse` shapes (`newlyCreated` and `alreadyCertified`),
+ * so storage code can run without network access.
+ *
+ * Several virtual endpoints share one blob store:
+ *   PUT       /publisher/<n>/v1/blobs?epochs=5&permanent=true|deletable=true
+ *   GET/HEAD  /aggregator/<n>/v1/blobs/<blobId>
+ *   (plain /v1/blobs is publisher 0 / aggregator 0)
+ *
+ * Failures and latency are simulated deterministically (seeded PRNG) and can
+ * be changed at runtime through the control API:
+ *   GET  /__emulator/state     config, blob count and request log
+ *   POST /__emulator/config    { latencyMs, jitterMs, failureRate, seed, failing: { publisher: [1], aggregator: [] } }
+ *   POST /__emulator/reset     clear blobs, request log and PRNG state
+ *
+ * Usage:
+ *   npm run walrus:emulator -- --port 31415 --publishers 3 --aggregators 2 --failure-rate 0.2 --seed 42
+ *
+ * Programmatic use (tests):
+ *   const emulator = createWalrusEmulator({ publishers: 3, failing: { publisher: [0] } });
+ *   await emulator.listen(0);
+ *   new WalrusService(true, { publishers: emulator.publisherUrls(), aggregators: emulator.aggregatorUrls() });
+ */
+
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const DEFAULTS = {
+  port: 31415,
+  publishers: 3,
+  aggregators: 2,
+  latencyMs: 0,
+  jitterMs: 0,
+  failureRate: 0,
+  seed: 1,
+  currentEpoch: 100,
+  maxEpochsAhead: 53,
+  maxBlobSize: 16 * 1024 * 1024,
+  failing: { publisher: [], aggregator: [] },
+};
+
+// Cost per stored byte per epoch, in FROST (roughly testnet order of magnitude)
+const COST_PER_BYTE_EPOCH = 5;
+
+/**
+ * mulberry32: small seeded PRNG so failure patterns repeat across runs
+ */
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function blobIdFor(content) {
+  return createHash('sha256').update(content).digest('base64url');
+}
+
+function randomHex(random, bytes) {
+  let hex = '';
+  for (let i = 0; i < bytes; i++) {
+    hex += Math.floor(random() * 256).toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req, limit) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(Object.assign(new Error('Blob too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+export function createWalrusEmulator(options = {}) {
+  const config = {
+    ...DEFAULTS,
+    ...options,
+    failing: { ...DEFAULTS.failing, ...(options.failing || {}) },
+  };
+  let random = createRandom(config.seed);
+  const blobs = new Map(); // blobId -> { content, endEpoch, deletable, objectId, registeredEpoch }
+  const requests = [];
+  let baseUrl = '';
+
+  function shouldFail(role, index) {
+    if (config.failing[role]?.includes(index)) return true;
+    return config.failureRate > 0 && random() < config.failureRate;
+  }
+
+  async function simulateLatency() {
+    const delay = config.latencyMs + (config.jitterMs > 0 ? Math.floor(random() * config.jitterMs) : 0);
+    if (delay > 0) await sleep(delay);
+  }
+
+  function storeBlob(content, query) {
+    const blobId = blobIdFor(content);
+    // Like Walrus: one epoch unless told otherwise, `permanent=true` only means "not deletable"
+    const deletable = query.get('deletable') === 'true';
+    const epochsAhead = Number(query.get('epochs') || 1);
+    if (!Number.isInteger(epochsAhead) || epochsAhead < 1 || epochsAhead > config.maxEpochsAhead) {
+      throw Object.assign(new Error(`epochs must be between 1 and ${config.maxEpochsAhead}`), { status: 400 });
+    }
+    const endEpoch = config.currentEpoch + epochsAhead;
+
+    const existing = blobs.get(blobId);
+    if (existing && !existing.deletable && !deletable && existing.endEpoch >= endEpoch) {
+      return {
+        alreadyCertified: {
+          blobId,
+          event: { txDigest: randomHex(random, 32), eventSeq: String(Math.floor(random() * 10)) },
+          endEpoch: existing.endEpoch,
+        },
+      };
+    }
+
+    const objectId = `0x${randomHex(random, 32)}`;
+    // A new storage object never shortens what an earlier one already pays for
+    blobs.set(blobId, {
+      content,
+      endEpoch: Math.max(endEpoch, existing?.endEpoch ?? 0),
+      deletable,
+      objectId,
+      registeredEpoch: config.currentEpoch,
+    });
+
+    // Walrus erasure-codes blobs; encoded length is a multiple of the raw size
+    const encodedLength = content.length * 5 + 64 * 1024;
+    return {
+      newlyCreated: {
+        blobObject: {
+          id: objectId,
+          registeredEpoch: config.currentEpoch,
+          blobId,
+          size: content.length,
+          encodingType: 'RS2',
+          certifiedEpoch: config.currentEpoch,
+          storage: {
+            id: `0x${randomHex(random, 32)}`,
+            startEpoch: config.currentEpoch,
+            endEpoch,
+            storageSize: encodedLength,
+          },
+          deletable,
+        },
+        resourceOperation: {
+          registerFromScratch: { encodedLength, epochsAhead },
+        },
+        cost: encodedLength * epochsAhead * COST_PER_BYTE_EPOCH,
+      },
+    };
+  }
+
+  async function handleControl(req, res, path) {
+    if (path === '/__emulator/state' && req.method === 'GET') {
+      return sendJson(res, 200, { config, blobCount: blobs.size, requests });
+    }
+    if (path === '/__emulator/config' && req.method === 'POST') {
+      const update = JSON.parse((await readBody(req, 64 * 1024)).toString() || '{}');
+      Object.assign(config, update, { failing: { ...config.failing, ...(update.failing || {}) } });
+      if (update.seed !== undefined) random = createRandom(config.seed);
+      return sendJson(res, 200, { config });
+    }
+    if (path === '/__emulator/reset' && req.method === 'POST') {
+      blobs.clear();
+      requests.length = 0;
+      random = createRandom(config.seed);
+      return sendJson(res, 200, { ok: true });
+    }
+    return sendJson(res, 404, { error: 'Unknown control endpoint' });
+  }
+
+  async function handle(req, res) {
+    const url = new URL(req.url, 'http://localhost');
+    const path = url.pathname;
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, HEAD, PUT, POST',
+        'Access-Control-Allow-Headers': '*',
+      });
+      return res.end();
+    }
+
+    if (path.startsWith('/__emulator/')) {
+      return handleControl(req, res, path);
+    }
+
+    const match = path.match(/^(?:\/(publisher|aggregator)\/(\d+))?\/v1\/blobs(?:\/([A-Za-z0-9_-]+))?$/);
+    if (!match) {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    const role = match[1] || (req.method === 'PUT' ? 'publisher' : 'aggregator');
+    const index = Number(match[2] || 0);
+    const blobId = match[3];
+    const count = role === 'publisher' ? config.publishers : config.aggregators;
+
+    requests.push({ method: req.method, role, index, blobId, at: Date.now() });
+
+    if (index >= count) {
+      return sendJson(res, 404, { error: `No ${role} ${index}` });
+    }
+
+    await simulateLatency();
+
+    if (shouldFail(role, index)) {
+      return sendJson(res, 503, { error: `Simulated ${role} ${index} failure` });
+    }
+
+    if (role === 'publisher') {
+      if (req.method !== 'PUT' || blobId) {
+        return sendJson(res, 405, { error: 'Publishers accept PUT /v1/blobs' });
+      }
+      try {
+        const content = await readBody(req, config.maxBlobSize);
+        return sendJson(res, 200, storeBlob(content, url.searchParams));
+      } catch (error) {
+        return sendJson(res, error.status || 500, { error: error.message });
+      }
+    }
+
+    if ((req.method !== 'GET' && req.method !== 'HEAD') || !blobId) {
+      return sendJson(res, 405, { error: 'Aggregators accept GET/HEAD /v1/blobs/<blobId>' });
+    }
+
+    const blob = blobs.get(blobId);
+    if (!blob || blob.endEpoch <= config.currentEpoch) {
+      return sendJson(res, 404, { error: 'Blob not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': blob.content.length,
+      'Access-Control-Allow-Origin': '*',
+    });
+    return res.end(req.method === 'HEAD' ? undefined : blob.content);
+  }
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => sendJson(res, 500, { error: error.message }));
+  });
+
+  return {
+    server,
+    config,
+    blobs,
+    requests,
+    listen(port = config.port) {
+      return new Promise(resolve => {
+        server.listen(port, '127.0.0.1', () => {
+          baseUrl = `http://127.0.0.1:${server.address().port}`;
+          resolve(baseUrl);
+        });
+      });
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+    publisherUrls() {
+      return Array.from({ length: config.publishers }, (_, i) => `${baseUrl}/publisher/${i}`);
+    },
+    aggregatorUrls() {
+      return Array.from({ length: config.aggregators }, (_, i) => `${baseUrl}/aggregator/${i}`);
+    },
+  };
+}
+
+function parseArgs(argv) {
+  const options = {};
+  const numeric = {
+    '--port': 'port',
+    '--publishers': 'publishers',
+    '--aggregators': 'aggregators',
+    '--latency': 'latencyMs',
+    '--jitter': 'jitterMs',
+    '--failure-rate': 'failureRate',
+    '--seed': 'seed',
+    '--epoch': 'currentEpoch',
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (numeric[arg]) {
+      options[numeric[arg]] = Number(argv[++i]);
+    } else if (arg === '--fail-publishers' || arg === '--fail-aggregators') {
+      const role = arg === '--fail-publishers' ? 'publisher' : 'aggregator';
+      options.failing = { ...(options.failing || {}), [role]: argv[++i].split(',').map(Number) };
+    } else {
+      console.error(`Unknown option: ${arg}`);
+      process.exit(1);
+    }
+  }
+  return options;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  const emulator = createWalrusEmulator(parseArgs(process.argv.slice(2)));
+  const baseUrl = await emulator.listen();
+
+  console.log(`🐋 Walrus emulator listening on ${baseUrl}`);
+  console.log('');
+  console.log('Point the app at it with:');
+  console.log(`NEXT_PUBLIC_WALRUS_PUBLISHERS=${emulator.publisherUrls().join(',')}`);
+  console.log(`NEXT_PUBLIC_WALRUS_AGGREGATORS=${emulator.aggregatorUrls().join(',')}`);
+
+  const shutdown = () => emulator.close().then(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}